@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { anomaliesQuerySchema, type AnomaliesResponse } from '../../../../lib/api-schemas';
+import { parseSearchParams, validationError } from '../../../../lib/api-validation';
+import { detectAnomalies } from '../../../../lib/anomaly-detection';
+import { DatabaseConfigError } from '../../../../lib/database';
+import { getAnalyticsSettings } from '../../../../lib/period-comparison';
+import { resolveAnalyticsWindow, TimeSeriesRangeError } from '../../../../lib/time-series';
+
+// Unusual days in the daily metric series of the reporting window
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, anomaliesQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { timeframe, start, end, campaign_id: campaignId, metrics, sensitivity } = parsed.data;
+    const timezone = parsed.data.timezone ?? getAnalyticsSettings().timezone;
+
+    const window = resolveAnalyticsWindow({ timeframe, start, end }, timezone);
+    if (window.start >= window.end) {
+      return validationError([{ path: 'end', message: 'end must be after start' }]);
+    }
+
+    const report = await detectAnomalies({ window, timezone, campaignId, metrics, sensitivity });
+    return NextResponse.json<AnomaliesResponse>({ report });
+  } catch (error) {
+    if (error instanceof TimeSeriesRangeError) {
+      return validationError([{ path: error.path, message: error.message }]);
+    }
+    if (error instanceof DatabaseConfigError) {
+      return NextResponse.json({ error: 'Analytics database is not configured' }, { status: 503 });
+    }
+    console.error('Anomaly detection error:', error);
+    return NextResponse.json({ error: 'Failed to detect anomalies' }, { status: 500 });
+  }
+}
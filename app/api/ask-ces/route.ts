@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { LLMUtils } from '../../../utils/llm';
-import { businessEngine } from '../../../utils/business-outcome-engine';
-import fs from 'fs';
-import path from 'path';
+import { LLMUtils, type Message } from '../../../utils/llm';
+import {
+  askCESQuerySchema,
+  askCESRequestSchema,
+  type AskCESBusinessScore,
+  type AskCESResponse
+} from '../../../lib/api-schemas';
+import { parseJsonBody, parseSearchParams } from '../../../lib/api-validation';
+import { calculateAskCESBusinessScore } from '../../../utils/business-outcome-engine';
+import { loadCampaignData, type CampaignDataset, type CampaignRecord } from '../../../lib/campaign-data';
+import { getCampaignFeatureScores } from '../../../lib/creative-features';
+import { resolveCampaignObjective } from '../../../lib/objectives';
+import { getBusinessEngine } from '../../../lib/weight-sets';
+import type { BusinessOutcomeEngine } from '../../../lib/business-outcome-engine';
+import { getDefaultTenantId } from '../../../lib/business-registry';
+import { loadAskCESConfig } from '../../../lib/config';
+import { encodeSSE } from '../../../utils/sse';
 
 // Role-based prompt templates
 const ROLE_PROMPTS = {
@@ -67,47 +80,6 @@ const ROLE_PROMPTS = {
   4. Data-driven recommendations`
 };
 
-// Load campaign data helper
-const loadCampaignData = () => {
-  try {
-    const dataPath = '/Users/tbwa/Documents/GitHub/campaign-insight-accelerator/dist';
-    
-    const campaigns = JSON.parse(fs.readFileSync(path.join(dataPath, 'campaigns.json'), 'utf8'));
-    const creativeAssets = JSON.parse(fs.readFileSync(path.join(dataPath, 'creative_assets.json'), 'utf8'));
-    
-    // Load performance metrics CSV
-    const performanceData = fs.readFileSync(path.join(dataPath, 'performance_metrics.csv'), 'utf8');
-    const performanceLines = performanceData.split('\n').slice(1);
-    const performanceMetrics = performanceLines
-      .filter(line => line.trim())
-      .map(line => {
-        const [metric_id, campaign_id, date, roi, brand_recall, engagement_rate, reach, impressions, clicks, ctr, conversion_rate, cost_per_acquisition, sentiment_score, video_completion_rate, share_rate, save_rate, tenant_id] = line.split(',');
-        return {
-          metric_id, campaign_id, date,
-          roi: parseFloat(roi || '0'),
-          brand_recall: parseFloat(brand_recall || '0'),
-          engagement_rate: parseFloat(engagement_rate || '0'),
-          reach: parseInt(reach || '0'),
-          impressions: parseInt(impressions || '0'),
-          clicks: parseInt(clicks || '0'),
-          ctr: parseFloat(ctr || '0'),
-          conversion_rate: parseFloat(conversion_rate || '0'),
-          cost_per_acquisition: parseFloat(cost_per_acquisition || '0'),
-          sentiment_score: parseFloat(sentiment_score || '0'),
-          video_completion_rate: parseFloat(video_completion_rate || '0'),
-          share_rate: parseFloat(share_rate || '0'),
-          save_rate: parseFloat(save_rate || '0'),
-          tenant_id
-        };
-      });
-
-    return { campaigns, creativeAssets, performanceMetrics };
-  } catch (error) {
-    console.error('Error loading campaign data:', error);
-    return null;
-  }
-};
-
 // Generate context for LLM based on query
 const generateContext = (query: string, role: string, data: any) => {
   const { campaigns, performanceMetrics } = data;
@@ -161,40 +133,123 @@ User Role: ${role}
 `;
 };
 
+const MAX_SCORED_CAMPAIGNS = 5;
+
+// Resolve which campaigns a question is about: explicit IDs first, then names, then brands
+const resolveCampaigns = (
+  query: string,
+  body: { campaignId?: string; campaignIds?: string[]; filters?: { campaignId?: string } },
+  data: CampaignDataset
+): CampaignRecord[] => {
+  const requestedIds = [
+    body.campaignId,
+    body.filters?.campaignId,
+    ...(body.campaignIds ?? [])
+  ].filter((id): id is string => Boolean(id));
+
+  if (requestedIds.length > 0) {
+    return data.campaigns.filter(c => requestedIds.includes(c.campaign_id));
+  }
+
+  const lowerQuery = query.toLowerCase();
+  const mentions = (text?: string) => {
+    if (!text) return false;
+    const escaped = text.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|\\W)${escaped}($|\\W)`).test(lowerQuery);
+  };
+
+  const byName = data.campaigns.filter(c => mentions(c.name));
+  if (byName.length > 0) {
+    return byName.slice(0, MAX_SCORED_CAMPAIGNS);
+  }
+
+  return data.campaigns.filter(c => mentions(c.brand)).slice(0, MAX_SCORED_CAMPAIGNS);
+};
+
+// Score each resolved campaign from the features of its real creative assets
+const scoreCampaigns = (
+  campaigns: CampaignRecord[],
+  data: CampaignDataset,
+  tenantId: string,
+  engine?: BusinessOutcomeEngine
+) => {
+  return campaigns.flatMap(campaign => {
+    const campaignAssets = data.creativeAssets.filter(a => a.campaign_id === campaign.campaign_id);
+    const objective = resolveCampaignObjective(campaign);
+    const featureScores = getCampaignFeatureScores(campaignAssets, undefined, engine, objective.blend, tenantId);
+    if (!featureScores) return [];
+
+    const { totalScore, topOutcome, engineVersion } = calculateAskCESBusinessScore(featureScores, objective.blend, engine);
+
+    return [{
+      campaignId: campaign.campaign_id,
+      campaignName: campaign.name,
+      brand: campaign.brand,
+      totalScore,
+      objective: objective.label,
+      topOutcome,
+      assetsAnalyzed: campaignAssets.length,
+      engineVersion
+    }];
+  });
+};
+
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { 
-      query, 
-      role = 'analyst', 
-      includeContext = true,
-      conversationHistory = []
-    } = body;
-
-    if (!query) {
-      return NextResponse.json({ error: 'Query is required' }, { status: 400 });
-    }
+    const parsed = await parseJsonBody(request, askCESRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const body = parsed.data;
+    const { query, role, includeContext, conversationHistory, stream, tenantId = getDefaultTenantId() } = body;
 
     // Load campaign data
-    const data = loadCampaignData();
+    const data = await loadCampaignData();
     if (!data) {
       return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
     }
 
     // Generate role-specific prompt
-    const rolePrompt = ROLE_PROMPTS[role as keyof typeof ROLE_PROMPTS] || ROLE_PROMPTS.analyst;
+    const rolePrompt = ROLE_PROMPTS[role];
     
     // Generate context
     const context = includeContext ? generateContext(query, role, data) : '';
 
     // Prepare messages for LLM
-    const messages = [
+    const messages: Message[] = [
       { role: 'system', content: rolePrompt },
       { role: 'system', content: context },
       ...conversationHistory,
       { role: 'user', content: query }
     ];
 
+    // Generate business effectiveness scores for the campaigns the question is about
+    let businessScore: AskCESBusinessScore | null = null;
+    const campaignScores = scoreCampaigns(
+      resolveCampaigns(query, body, data),
+      data,
+      tenantId,
+      (await getBusinessEngine('active', tenantId)) ?? undefined
+    );
+    if (campaignScores.length > 0) {
+      // Headline score is the best-matching campaign; all matches are listed
+      businessScore = {
+        totalScore: campaignScores[0].totalScore,
+        topOutcome: campaignScores[0].topOutcome,
+        engineVersion: campaignScores[0].engineVersion,
+        campaigns: campaignScores
+      };
+    }
+
+    const dataStats = {
+      totalCampaigns: data.campaigns.length,
+      totalMetrics: data.performanceMetrics.length
+    };
+
+    // Stream tokens as server-sent events when the client asks and config allows it
+    if (stream && loadAskCESConfig().llm.streaming !== false) {
+      return streamAnswer(request, messages, { role, businessScore, dataStats });
+    }
+
     // Call Azure OpenAI
     const response = await LLMUtils.generateResponse(messages, {
       maxTokens: 1000,
@@ -202,42 +257,16 @@ export async function POST(request: NextRequest) {
       stream: false
     });
 
-    // Generate business effectiveness score if query is about specific campaign
-    let businessScore = null;
-    const campaignMatch = query.toLowerCase().match(/campaign|roi|effectiveness|performance/);
-    if (campaignMatch) {
-      // Use business engine for additional insights
-      const dummyFeatures = {
-        value_proposition_clarity: 7.5,
-        visual_hierarchy_optimization: 8.0,
-        action_oriented_language: 6.5,
-        behavioral_targeting_precision: 7.8,
-        platform_native_optimization: 8.2
-      };
-      
-      const cesResults = businessEngine.calculateBusinessEffectiveness(
-        dummyFeatures,
-        {},
-        'conversion'
-      );
-      
-      businessScore = {
-        totalScore: cesResults.totalScore,
-        topOutcome: Object.entries(cesResults.outcomeBreakdown)
-          .sort(([,a], [,b]) => (b as number) - (a as number))[0]
-      };
-    }
-
-    return NextResponse.json({
+    return NextResponse.json<AskCESResponse>({
       response: response.content,
       metadata: {
         role,
         timestamp: new Date().toISOString(),
+        model: response.model,
+        provider: response.provider,
+        usage: response.usage,
         businessScore,
-        dataStats: {
-          totalCampaigns: data.campaigns.length,
-          totalMetrics: data.performanceMetrics.length
-        }
+        dataStats
       }
     });
 
@@ -250,9 +279,76 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * SSE response: `token` events with incremental content, then a trailing
+ * `metadata` event (businessScore, dataStats, usage) and `done`
+ */
+function streamAnswer(
+  request: NextRequest,
+  messages: Message[],
+  metadata: Pick<AskCESResponse['metadata'], 'role' | 'businessScore' | 'dataStats'>
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeSSE(event, data)));
+      };
+
+      try {
+        for await (const event of LLMUtils.streamResponse(messages, {
+          maxTokens: 1000,
+          temperature: 0.7,
+          signal: request.signal
+        })) {
+          if (cancelled || request.signal.aborted) break;
+
+          if (event.type === 'token') {
+            send('token', { content: event.content });
+          } else {
+            send('metadata', {
+              ...metadata,
+              timestamp: new Date().toISOString(),
+              model: event.model,
+              provider: event.provider,
+              usage: event.usage
+            });
+          }
+        }
+        if (!request.signal.aborted) {
+          send('done', {});
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('Ask CES streaming error:', error);
+          send('error', { error: 'Failed to process request' });
+        }
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      // Client closed the connection (e.g. pressed Cancel)
+      cancelled = true;
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
+
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const info = searchParams.get('info');
+  const parsed = parseSearchParams(request, askCESQuerySchema);
+  if (!parsed.success) return parsed.response;
+
+  const { info } = parsed.data;
 
   if (info === 'roles') {
     return NextResponse.json({
@@ -262,7 +358,7 @@ export async function GET(request: NextRequest) {
   }
 
   if (info === 'data') {
-    const data = loadCampaignData();
+    const data = await loadCampaignData();
     if (!data) {
       return NextResponse.json({ error: 'Failed to load data' }, { status: 500 });
     }
@@ -4,31 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { askScoutRequestSchema, type AskScoutResponse } from '../../../lib/api-schemas';
+import { parseJsonBody } from '../../../lib/api-validation';
 import { roleEngine, type PromptContext } from '../../../lib/prompting/role-engine';
 
-interface AskScoutRequest {
-  query: string;
-  role_id?: string;
-  widget_context?: string;
-  data_context?: Record<string, any>;
-  response_type?: 'insight' | 'question' | 'alert';
-}
-
-interface AskScoutResponse {
-  response: string;
-  metadata: {
-    generated_by: string;
-    timestamp: string;
-    source: string;
-    confidence: number;
-    role_context: string;
-    data_sources: string[];
-    processing_time_ms: number;
-  };
-  suggestions?: string[];
-  related_widgets?: string[];
-}
-
 // Rate limiting (simple in-memory store for MVP)
 const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
 const RATE_LIMIT = 100; // requests per hour
@@ -64,21 +43,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const body: AskScoutRequest = await request.json();
-    const { 
-      query, 
-      role_id = 'brand_manager', 
-      widget_context, 
-      data_context,
-      response_type = 'question'
-    } = body;
+    const parsed = await parseJsonBody(request, askScoutRequestSchema);
+    if (!parsed.success) return parsed.response;
 
-    if (!query?.trim()) {
-      return NextResponse.json(
-        { error: 'Query is required' },
-        { status: 400 }
-      );
-    }
+    const { query, role_id, widget_context, data_context, response_type } = parsed.data;
 
     // Get role context
     const role = roleEngine.getRole(role_id);
@@ -138,7 +106,7 @@ export async function POST(request: NextRequest) {
       response.metadata.confidence = Math.max(0.1, response.metadata.confidence - 0.2);
     }
 
-    return NextResponse.json(response);
+    return NextResponse.json<AskScoutResponse>(response);
 
   } catch (error) {
     console.error('Ask Scout API error:', error);
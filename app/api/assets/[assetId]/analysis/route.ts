@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assetAnalysisQuerySchema, type AssetAnalysisResponse } from '../../../../../lib/api-schemas';
+import { parseSearchParams } from '../../../../../lib/api-validation';
+import { BUSINESS_DRIVEN_FEATURES, ObjectiveError } from '../../../../../lib/business-outcome-engine';
+import { loadCampaignData } from '../../../../../lib/campaign-data';
+import {
+  deriveFeatureUncertainty,
+  explainCreativeAssetFeatures,
+  mapCreativeAssetToBusinessFeatures
+} from '../../../../../lib/creative-features';
+import { loadFeatureRuleSet } from '../../../../../lib/feature-rules';
+import { getGradeBands } from '../../../../../lib/grade-bands';
+import {
+  parseObjectiveParam,
+  resolveCampaignObjective,
+  resolveRequestedObjective,
+  type ResolvedObjective
+} from '../../../../../lib/objectives';
+import { CES_SCORE_SCALE, gradeFor } from '../../../../../lib/score-scale';
+import { getBusinessEngine } from '../../../../../lib/weight-sets';
+
+// Scorecard for a single creative asset
+export async function GET(request: NextRequest, { params }: { params: { assetId: string } }) {
+  try {
+    const parsed = parseSearchParams(request, assetAnalysisQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { weights: weightSetVersion, objective: objectiveParam } = parsed.data;
+
+    let requestedObjective: ResolvedObjective | null = null;
+    if (objectiveParam) {
+      try {
+        requestedObjective = resolveRequestedObjective(parseObjectiveParam(objectiveParam));
+      } catch (error) {
+        if (error instanceof ObjectiveError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    const data = await loadCampaignData();
+    if (!data) {
+      return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+    }
+
+    const asset = data.creativeAssets.find(a => a.asset_id === params.assetId);
+    if (!asset) {
+      return NextResponse.json({ error: 'Creative asset not found' }, { status: 404 });
+    }
+
+    const engine = await getBusinessEngine(weightSetVersion);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSetVersion}` }, { status: 404 });
+    }
+
+    const campaign = data.campaigns.find(c => c.campaign_id === asset.campaign_id);
+    // Without an explicit objective, score against the asset's campaign objective
+    const objective = requestedObjective ?? resolveCampaignObjective(campaign ?? {});
+    const featureScores = mapCreativeAssetToBusinessFeatures(asset);
+    const evaluations = explainCreativeAssetFeatures(asset);
+    const cesResults = engine.calculateBusinessEffectiveness(featureScores, {}, objective.blend, {
+      featureUncertainty: deriveFeatureUncertainty(evaluations)
+    });
+    const featureNames = Object.fromEntries(BUSINESS_DRIVEN_FEATURES.map(f => [f.id, f.name]));
+
+    return NextResponse.json<AssetAnalysisResponse>({
+      asset,
+      campaign: campaign
+        ? { campaign_id: campaign.campaign_id, name: campaign.name, brand: campaign.brand }
+        : null,
+      analysis: {
+        businessEffectivenessScore: cesResults.totalScore,
+        grade: gradeFor(cesResults.totalScore, getGradeBands()),
+        featureScores,
+        derivation: evaluations.map(entry => ({
+          ...entry,
+          featureName: featureNames[entry.featureId] || entry.featureId,
+          contribution: Math.round((cesResults.featureROI[entry.featureId] || 0) * 100) / 100
+        })),
+        outcomeBreakdown: cesResults.outcomeBreakdown,
+        recommendations: cesResults.businessRecommendations,
+        implementationPlan: cesResults.implementationPlan,
+        uncertainty: cesResults.uncertainty,
+        engineVersion: cesResults.engineVersion,
+        weightSetVersion: cesResults.weightSetVersion
+      },
+      metadata: {
+        scale: CES_SCORE_SCALE,
+        objective,
+        featureRulesVersion: loadFeatureRuleSet().version,
+        analysisTimestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    console.error('Asset analysis error:', error);
+    return NextResponse.json({ error: 'Failed to analyze creative asset' }, { status: 500 });
+  }
+}
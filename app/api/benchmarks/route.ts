@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { benchmarksQuerySchema, type BenchmarksResponse } from '../../../lib/api-schemas';
+import { parseSearchParams } from '../../../lib/api-validation';
+import { ObjectiveError } from '../../../lib/business-outcome-engine';
+import {
+  BENCHMARK_DIMENSIONS,
+  getBenchmarks,
+  getCohortBenchmark,
+  getDimensionBenchmarks,
+  type BenchmarkCohort
+} from '../../../lib/benchmarks';
+import { getDefaultTenantId } from '../../../lib/business-registry';
+import { loadCampaignData } from '../../../lib/campaign-data';
+import { parseObjectiveParam } from '../../../lib/objectives';
+import { CES_SCORE_SCALE } from '../../../lib/score-scale';
+import { getBusinessEngine } from '../../../lib/weight-sets';
+
+/**
+ * Score distributions across the loaded campaigns.
+ * ?dimension=industry lists every industry; ?industry=FMCG&region=NCR returns
+ * that one cohort; neither returns all campaigns plus every dimension's values.
+ * Optional: objective (name or 'brand:0.6,conversion:0.4'), weights, tenantId, refresh=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, benchmarksQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { dimension, weights: weightSetVersion, tenantId = getDefaultTenantId(), refresh } = parsed.data;
+    const objective = parseObjectiveParam(parsed.data.objective);
+
+    const data = await loadCampaignData({ refresh });
+    if (!data) {
+      return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+    }
+
+    const engine = await getBusinessEngine(weightSetVersion, tenantId);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSetVersion}` }, { status: 404 });
+    }
+
+    const benchmarkSet = getBenchmarks(data, engine, objective, tenantId);
+    const cohort: BenchmarkCohort = {};
+    for (const d of BENCHMARK_DIMENSIONS) {
+      const value = parsed.data[d];
+      if (value) cohort[d] = value;
+    }
+
+    const metadata = {
+      objective: benchmarkSet.objective,
+      weightSetVersion: benchmarkSet.weightSetVersion,
+      dataSource: data.source,
+      dataLoadedAt: benchmarkSet.datasetLoadedAt,
+      builtAt: benchmarkSet.builtAt,
+      scale: CES_SCORE_SCALE
+    };
+
+    if (dimension) {
+      return NextResponse.json<BenchmarksResponse>({
+        dimension,
+        cohorts: getDimensionBenchmarks(benchmarkSet, dimension),
+        metadata
+      });
+    }
+
+    if (Object.keys(cohort).length > 0) {
+      return NextResponse.json<BenchmarksResponse>({ cohort: getCohortBenchmark(benchmarkSet, cohort), metadata });
+    }
+
+    return NextResponse.json<BenchmarksResponse>({
+      overall: getCohortBenchmark(benchmarkSet),
+      dimensions: Object.fromEntries(
+        BENCHMARK_DIMENSIONS.map(d => [d, getDimensionBenchmarks(benchmarkSet, d)])
+      ),
+      metadata
+    });
+  } catch (error) {
+    if (error instanceof ObjectiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Benchmark error:', error);
+    return NextResponse.json({ error: 'Failed to compute benchmarks' }, { status: 500 });
+  }
+}
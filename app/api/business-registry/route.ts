@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  businessRegistryDeleteQuerySchema,
+  businessRegistryRequestSchema,
+  tenantQuerySchema
+} from '../../../lib/api-schemas';
+import { parseJsonBody, parseSearchParams } from '../../../lib/api-validation';
+import {
+  getBusinessRegistryStore,
+  getDefaultTenantId,
+  invalidateBusinessDefinitions,
+  loadBusinessDefinitions,
+  validateFeatureDefinition,
+  validateOutcomeDefinition,
+  type CustomFeatureDefinition,
+  type CustomOutcomeDefinition
+} from '../../../lib/business-registry';
+import { loadFeatureRuleSet, resolveTenantRules } from '../../../lib/feature-rules';
+
+// A tenant's custom business outcomes and creative features
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, tenantQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { tenantId = getDefaultTenantId() } = parsed.data;
+    const store = getBusinessRegistryStore();
+
+    const [outcomes, features] = await Promise.all([store.listOutcomes(tenantId), store.listFeatures(tenantId)]);
+    return NextResponse.json({ tenantId, store: store.name, outcomes, features });
+  } catch (error) {
+    console.error('Business registry error:', error);
+    return NextResponse.json({ error: 'Failed to load business registry' }, { status: 500 });
+  }
+}
+
+/**
+ * Register or replace a definition.
+ * Body: { type: 'outcome' | 'feature', definition, tenantId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, businessRegistryRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const { type, definition, tenantId = getDefaultTenantId() } = parsed.data;
+
+    // Validate against everything the tenant already has, so impacts may reference custom entries
+    const { outcomes, features } = await loadBusinessDefinitions(tenantId);
+    const errors = type === 'outcome'
+      ? validateOutcomeDefinition(definition, new Set(features.map(f => f.id)))
+      : validateFeatureDefinition(
+        definition,
+        new Set(Object.keys(outcomes)),
+        resolveTenantRules(loadFeatureRuleSet(), tenantId).custom
+      );
+    if (errors.length > 0) {
+      return NextResponse.json({ valid: false, errors }, { status: 400 });
+    }
+
+    const store = getBusinessRegistryStore();
+    if (type === 'outcome') {
+      await store.saveOutcome(tenantId, definition as CustomOutcomeDefinition);
+    } else {
+      await store.saveFeature(tenantId, definition as CustomFeatureDefinition);
+    }
+    invalidateBusinessDefinitions(tenantId);
+
+    return NextResponse.json({ valid: true, tenantId, type, definition }, { status: 201 });
+  } catch (error) {
+    console.error('Business registry save error:', error);
+    return NextResponse.json({ error: 'Failed to save business definition' }, { status: 500 });
+  }
+}
+
+// Remove a definition: ?type=outcome|feature&id=...&tenantId=...
+export async function DELETE(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, businessRegistryDeleteQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { type, id, tenantId = getDefaultTenantId() } = parsed.data;
+
+    const deleted = await getBusinessRegistryStore().delete(tenantId, type, id);
+    if (!deleted) {
+      return NextResponse.json({ error: `Custom ${type} not found: ${id}` }, { status: 404 });
+    }
+    invalidateBusinessDefinitions(tenantId);
+
+    return NextResponse.json({ deleted: true, tenantId, type, id });
+  } catch (error) {
+    console.error('Business registry delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete business definition' }, { status: 500 });
+  }
+}
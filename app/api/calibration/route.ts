@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calibrationQuerySchema, calibrationRequestSchema } from '../../../lib/api-schemas';
+import { parseJsonBody, parseSearchParams } from '../../../lib/api-validation';
+import { loadCampaignData } from '../../../lib/campaign-data';
+import { loadAskCESConfig } from '../../../lib/config';
+import { CalibrationError, DEFAULT_WEIGHT_SET, fitWeightSet } from '../../../lib/calibration';
+import { getWeightSetStore } from '../../../lib/weight-sets';
+
+// List stored weight sets, or fetch one with ?version=
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, calibrationQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { version, tenantId } = parsed.data;
+    const store = getWeightSetStore(tenantId);
+
+    if (version) {
+      const weightSet = version === 'default' ? DEFAULT_WEIGHT_SET : await store.get(version);
+      if (!weightSet) {
+        return NextResponse.json({ error: `Weight set not found: ${version}` }, { status: 404 });
+      }
+      return NextResponse.json({ weightSet });
+    }
+
+    const weightSets = await store.list();
+    const active = await store.getActive();
+
+    return NextResponse.json({
+      activeVersion: active?.version ?? DEFAULT_WEIGHT_SET.version,
+      store: store.name,
+      weightSets: [DEFAULT_WEIGHT_SET, ...weightSets].map(({ weights, ...summary }) => summary)
+    });
+  } catch (error) {
+    console.error('Calibration list error:', error);
+    return NextResponse.json({ error: 'Failed to load weight sets' }, { status: 500 });
+  }
+}
+
+// Fit a new weight set from the loaded campaign data, or activate a stored one
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, calibrationRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const body = parsed.data;
+    const store = getWeightSetStore(body.tenantId);
+
+    if (body.action === 'activate') {
+      const activated = await store.activate(body.version);
+      if (!activated) {
+        return NextResponse.json({ error: `Weight set not found: ${body.version}` }, { status: 404 });
+      }
+      return NextResponse.json({ activeVersion: body.version });
+    }
+
+    const data = await loadCampaignData({ refresh: true });
+    if (!data) {
+      return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+    }
+
+    const defaults = loadAskCESConfig().calibration || {};
+    const weightSet = fitWeightSet(data, {
+      lambda: body.lambda ?? defaults.lambda,
+      minSamples: body.minSamples ?? defaults.min_samples,
+      version: body.version
+    });
+
+    if (await store.get(weightSet.version)) {
+      return NextResponse.json({ error: `Weight set already exists: ${weightSet.version}` }, { status: 409 });
+    }
+
+    const activate = body.activate;
+    await store.save(weightSet, activate);
+
+    return NextResponse.json({ weightSet, activated: activate });
+  } catch (error) {
+    if (error instanceof CalibrationError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error('Calibration error:', error);
+    return NextResponse.json({ error: 'Failed to calibrate weights' }, { status: 500 });
+  }
+}
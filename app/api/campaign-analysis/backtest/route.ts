@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backtestQuerySchema, type BacktestResponse } from '../../../../lib/api-schemas';
+import { parseSearchParams } from '../../../../lib/api-validation';
+import { loadCampaignData } from '../../../../lib/campaign-data';
+import { runBacktest } from '../../../../lib/backtest';
+import { getBusinessEngine } from '../../../../lib/weight-sets';
+
+// Compare engine predictions with actual outcomes across all campaigns
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, backtestQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { weights: weightSetVersion, buckets } = parsed.data;
+
+    const data = await loadCampaignData();
+    if (!data) {
+      return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+    }
+
+    const engine = await getBusinessEngine(weightSetVersion);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSetVersion}` }, { status: 404 });
+    }
+
+    const report = runBacktest(data, engine, { buckets });
+    if (report.samples === 0) {
+      return NextResponse.json({ error: 'No campaigns have both creative assets and performance metrics' }, { status: 422 });
+    }
+
+    return NextResponse.json<BacktestResponse>({ backtest: report });
+  } catch (error) {
+    console.error('Backtest error:', error);
+    return NextResponse.json({ error: 'Failed to run backtest' }, { status: 500 });
+  }
+}
@@ -1,288 +1,288 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { businessEngine, BUSINESS_DRIVEN_FEATURES, BUSINESS_OUTCOMES } from '../../../lib/business-outcome-engine';
-import fs from 'fs';
-import path from 'path';
+import {
+  campaignAnalysisQuerySchema,
+  campaignAnalysisRequestSchema,
+  type CampaignBatchResponse,
+  type CampaignDetailResponse,
+  type CampaignListResponse,
+  type CampaignSummaryResponse
+} from '../../../lib/api-schemas';
+import { parseJsonBody, parseSearchParams } from '../../../lib/api-validation';
+import {
+  BUSINESS_DRIVEN_FEATURES,
+  BUSINESS_OUTCOMES,
+  BUSINESS_ENGINE_VERSION,
+  ObjectiveError
+} from '../../../lib/business-outcome-engine';
+import { getDefaultTenantId } from '../../../lib/business-registry';
+import { loadCampaignData } from '../../../lib/campaign-data';
+import {
+  aggregateCampaignFeatures,
+  getDefaultAggregationStrategy,
+  mapPerformanceToBusinessOutcomes
+} from '../../../lib/creative-features';
+import { getGradeBands } from '../../../lib/grade-bands';
+import {
+  parseObjectiveParam,
+  resolveCampaignObjective,
+  resolveRequestedObjective,
+  type ResolvedObjective
+} from '../../../lib/objectives';
+import { CES_SCORE_SCALE, gradeFor } from '../../../lib/score-scale';
+import { getBusinessEngine } from '../../../lib/weight-sets';
 
-// Load real campaign data
-const loadRealData = () => {
+export async function GET(request: NextRequest) {
   try {
-    const dataPath = '/Users/tbwa/Documents/GitHub/campaign-insight-accelerator/dist';
-    
-    const campaigns = JSON.parse(fs.readFileSync(path.join(dataPath, 'campaigns.json'), 'utf8'));
-    const creativeAssets = JSON.parse(fs.readFileSync(path.join(dataPath, 'creative_assets.json'), 'utf8'));
-    
-    // Load performance metrics CSV
-    const performanceData = fs.readFileSync(path.join(dataPath, 'performance_metrics.csv'), 'utf8');
-    const performanceLines = performanceData.split('\n').slice(1); // Skip header
-    const performanceMetrics = performanceLines
-      .filter(line => line.trim())
-      .map(line => {
-        const [metric_id, campaign_id, date, roi, brand_recall, engagement_rate, reach, impressions, clicks, ctr, conversion_rate, cost_per_acquisition, sentiment_score, video_completion_rate, share_rate, save_rate, tenant_id] = line.split(',');
-        return {
-          metric_id: metric_id || '',
-          campaign_id: campaign_id || '',
-          date: date || '',
-          roi: parseFloat(roi || '0'),
-          brand_recall: parseFloat(brand_recall || '0'),
-          engagement_rate: parseFloat(engagement_rate || '0'),
-          reach: parseInt(reach || '0'),
-          impressions: parseInt(impressions || '0'),
-          clicks: parseInt(clicks || '0'),
-          ctr: parseFloat(ctr || '0'),
-          conversion_rate: parseFloat(conversion_rate || '0'),
-          cost_per_acquisition: parseFloat(cost_per_acquisition || '0'),
-          sentiment_score: parseFloat(sentiment_score || '0'),
-          video_completion_rate: parseFloat(video_completion_rate || '0'),
-          share_rate: parseFloat(share_rate || '0'),
-          save_rate: parseFloat(save_rate || '0'),
-          tenant_id: tenant_id || ''
-        };
-      });
+    const parsed = parseSearchParams(request, campaignAnalysisQuerySchema);
+    if (!parsed.success) return parsed.response;
 
-    return { campaigns, creativeAssets, performanceMetrics };
-  } catch (error) {
-    console.error('Error loading real data:', error);
-    return null;
-  }
-};
+    const {
+      campaignId,
+      limit = 10,
+      weights: weightSetVersion,
+      aggregation = getDefaultAggregationStrategy(),
+      objective: objectiveParam,
+      tenantId = getDefaultTenantId()
+    } = parsed.data;
+    // Bare requests get the dataset summary; campaign and list requests get analysis
+    const analysisType = parsed.data.type || (campaignId || parsed.data.limit !== undefined ? 'analysis' : 'summary');
 
-// Map real creative asset data to business-driven features
-const mapCreativeAssetToBusinessFeatures = (asset: any): Record<string, number> => {
-  return {
-    // Content features
-    value_proposition_clarity: asset.text_readability * 10, // 0-1 to 0-10 scale
-    urgency_scarcity_triggers: asset.emotional_trigger === 'Excitement' ? 8.0 : 5.0,
-    social_proof_integration: asset.brand_integration === 'Prominent' ? 9.0 : asset.brand_integration === 'Subtle' ? 6.0 : 3.0,
-    problem_solution_framing: asset.performance_score * 10, // Use performance as proxy
-    
-    // Design features  
-    visual_hierarchy_optimization: asset.visual_distinctness * 10,
-    color_psychology_application: asset.color_harmony * 10,
-    mobile_optimization: asset.dimensions?.includes('300x') ? 9.0 : asset.dimensions?.includes('728x') ? 7.0 : 8.0, // Mobile-first scoring
-    
-    // Messaging features
-    benefit_focused_headlines: asset.text_readability * 10,
-    action_oriented_language: asset.emotional_trigger === 'Urgency' ? 9.0 : asset.emotional_trigger === 'Excitement' ? 7.0 : 5.0,
-    personalization_depth: asset.a_b_test_variant ? 8.0 : 4.0, // A/B testing indicates personalization
-    
-    // Targeting features
-    behavioral_targeting_precision: asset.performance_score * 10, // Performance indicates targeting quality
-    lookalike_audience_optimization: 7.0, // Default reasonable score
-    
-    // Channel features
-    platform_native_optimization: asset.format === 'mp4' ? 9.0 : asset.format === 'svg' ? 8.0 : 7.0,
-    cross_channel_consistency: 7.5 // Default reasonable score
-  };
-};
-
-// Map real performance metrics to business outcomes
-const mapPerformanceToBusinessOutcomes = (metrics: any[]): Record<string, number> => {
-  if (metrics.length === 0) return {};
-  
-  // Average the metrics across all performance records for this campaign
-  const avgMetrics = metrics.reduce((acc, metric) => {
-    acc.roi += metric.roi;
-    acc.brand_recall += metric.brand_recall;
-    acc.engagement_rate += metric.engagement_rate;
-    acc.conversion_rate += metric.conversion_rate;
-    acc.sentiment_score += metric.sentiment_score;
-    acc.ctr += metric.ctr;
-    acc.video_completion_rate += metric.video_completion_rate;
-    acc.share_rate += metric.share_rate;
-    acc.save_rate += metric.save_rate;
-    return acc;
-  }, {
-    roi: 0, brand_recall: 0, engagement_rate: 0, conversion_rate: 0,
-    sentiment_score: 0, ctr: 0, video_completion_rate: 0, share_rate: 0, save_rate: 0
-  });
-  
-  const count = metrics.length;
-  Object.keys(avgMetrics).forEach(key => {
-    avgMetrics[key] /= count;
-  });
+    // An explicit objective overrides each campaign's own campaign_type objective
+    let requestedObjective: ResolvedObjective | null = null;
+    if (objectiveParam) {
+      try {
+        requestedObjective = resolveRequestedObjective(parseObjectiveParam(objectiveParam));
+      } catch (error) {
+        if (error instanceof ObjectiveError) {
+          return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        throw error;
+      }
+    }
   
-  return {
-    engagement: avgMetrics.engagement_rate * 7.5, // Scale to match our target ranges
-    brand_recall: avgMetrics.brand_recall,
-    conversion: avgMetrics.conversion_rate * 6, // Scale up conversion rate
-    roi_sales: Math.min(avgMetrics.roi * 60, 500), // Scale ROI to our range
-    brand_sentiment: avgMetrics.sentiment_score * 100, // Convert to percentage
-    acquisition: avgMetrics.ctr * 12, // Scale CTR to acquisition rate
-    media_efficiency: Math.max(100 - (avgMetrics.cost_per_acquisition / 10), 50), // Inverse of cost
-    behavioral_response: (avgMetrics.video_completion_rate / 100) * 60, // Scale completion rate
-    brand_equity: (avgMetrics.brand_recall + avgMetrics.sentiment_score * 100) / 2 // Combined metric
-  };
-};
+    const data = await loadCampaignData();
+    if (!data) {
+      return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+    }
 
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const campaignId = searchParams.get('campaignId');
-  const limit = parseInt(searchParams.get('limit') || '10');
-  const analysisType = searchParams.get('type') || 'summary';
+    const engine = await getBusinessEngine(weightSetVersion, tenantId);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSetVersion}` }, { status: 404 });
+    }
   
-  const data = loadRealData();
-  if (!data) {
-    return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
-  }
+    const { campaigns, creativeAssets, performanceMetrics } = data;
+    const gradeBands = getGradeBands(tenantId);
   
-  const { campaigns, creativeAssets, performanceMetrics } = data;
+    if (analysisType === 'summary') {
+      return NextResponse.json<CampaignSummaryResponse>({
+        summary: {
+          totalCampaigns: campaigns.length,
+          totalCreativeAssets: creativeAssets.length,
+          totalPerformanceRecords: performanceMetrics.length,
+          businessOutcomes: Object.keys(BUSINESS_OUTCOMES).length,
+          businessFeatures: BUSINESS_DRIVEN_FEATURES.length,
+          industries: [...new Set(campaigns.map(c => c.industry))],
+          regions: [...new Set(campaigns.map(c => c.region))],
+          brands: [...new Set(campaigns.map(c => c.brand))]
+        }
+      });
+    }
   
-  if (analysisType === 'summary') {
-    return NextResponse.json({
-      summary: {
-        totalCampaigns: campaigns.length,
-        totalCreativeAssets: creativeAssets.length,
-        totalPerformanceRecords: performanceMetrics.length,
-        businessOutcomes: Object.keys(BUSINESS_OUTCOMES).length,
-        businessFeatures: BUSINESS_DRIVEN_FEATURES.length,
-        industries: [...new Set(campaigns.map((c: any) => c.industry))],
-        regions: [...new Set(campaigns.map((c: any) => c.region))],
-        brands: [...new Set(campaigns.map((c: any) => c.brand))]
+    if (campaignId) {
+      // Analyze specific campaign
+      const campaign = campaigns.find(c => c.campaign_id === campaignId);
+      if (!campaign) {
+        return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
       }
-    });
-  }
-  
-  if (campaignId) {
-    // Analyze specific campaign
-    const campaign = campaigns.find((c: any) => c.campaign_id === campaignId);
-    if (!campaign) {
-      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
-    }
     
-    const campaignAssets = creativeAssets.filter((a: any) => a.campaign_id === campaignId);
-    const campaignMetrics = performanceMetrics.filter((m: any) => m.campaign_id === campaignId);
+      const campaignAssets = creativeAssets.filter(a => a.campaign_id === campaignId);
+      const campaignMetrics = performanceMetrics.filter(m => m.campaign_id === campaignId);
     
-    if (campaignAssets.length === 0) {
-      return NextResponse.json({ error: 'No creative assets found for campaign' }, { status: 404 });
-    }
+      if (campaignAssets.length === 0) {
+        return NextResponse.json({ error: 'No creative assets found for campaign' }, { status: 404 });
+      }
     
-    // Analyze the first asset (or average across all assets)
-    const primaryAsset = campaignAssets[0];
-    const businessFeatureScores = mapCreativeAssetToBusinessFeatures(primaryAsset);
-    const realBusinessOutcomes = mapPerformanceToBusinessOutcomes(campaignMetrics);
+      const objective = requestedObjective ?? resolveCampaignObjective(campaign);
+
+      // Aggregate features across all of the campaign's assets
+      const { featureScores: businessFeatureScores, ...assetAggregation } =
+        aggregateCampaignFeatures(campaignAssets, aggregation, engine, objective.blend, tenantId)!;
+      const realBusinessOutcomes = mapPerformanceToBusinessOutcomes(campaignMetrics);
     
-    // Run business effectiveness analysis
-    const cesResults = businessEngine.calculateBusinessEffectiveness(
-      businessFeatureScores,
-      {}, // No custom priorities
-      'conversion' // Default objective
-    );
+      // Run business effectiveness analysis
+      const cesResults = engine.calculateBusinessEffectiveness(
+        businessFeatureScores,
+        {}, // No custom priorities
+        objective.blend
+      );
     
-    return NextResponse.json({
-      campaign,
-      analysis: {
-        businessEffectivenessScore: cesResults.totalScore,
-        predictedOutcomes: cesResults.outcomeBreakdown,
-        actualOutcomes: realBusinessOutcomes,
-        featureScores: businessFeatureScores,
-        recommendations: cesResults.businessRecommendations,
-        implementationPlan: cesResults.implementationPlan
-      },
-      assets: campaignAssets.length,
-      performanceRecords: campaignMetrics.length
-    });
-  }
+      return NextResponse.json<CampaignDetailResponse>({
+        campaign,
+        analysis: {
+          businessEffectivenessScore: cesResults.totalScore,
+          grade: gradeFor(cesResults.totalScore, gradeBands),
+          objective,
+          // Outcome values, in the units of each outcome's targetValue, not weighted contributions
+          predictedOutcomes: cesResults.outcomeValues,
+          outcomeTargets: Object.fromEntries(Object.entries(engine.outcomes).map(([id, outcome]) => [id, outcome.targetValue])),
+          actualOutcomes: realBusinessOutcomes,
+          featureScores: businessFeatureScores,
+          recommendations: cesResults.businessRecommendations,
+          implementationPlan: cesResults.implementationPlan,
+          assetBreakdown: assetAggregation.assets,
+          engineVersion: cesResults.engineVersion,
+          weightSetVersion: cesResults.weightSetVersion
+        },
+        assets: campaignAssets.length,
+        performanceRecords: campaignMetrics.length,
+        metadata: {
+          scale: CES_SCORE_SCALE,
+          aggregationStrategy: assetAggregation.strategy,
+          fallbackToMean: assetAggregation.fallbackToMean
+        }
+      });
+    }
   
-  // Return campaign list with basic analysis
-  const analyzedCampaigns = campaigns.slice(0, limit).map((campaign: any) => {
-    const campaignAssets = creativeAssets.filter((a: any) => a.campaign_id === campaign.campaign_id);
-    const campaignMetrics = performanceMetrics.filter((m: any) => m.campaign_id === campaign.campaign_id);
+    // Return campaign list with basic analysis
+    const analyzedCampaigns = campaigns.slice(0, limit).map(campaign => {
+      const campaignAssets = creativeAssets.filter(a => a.campaign_id === campaign.campaign_id);
+      const campaignMetrics = performanceMetrics.filter(m => m.campaign_id === campaign.campaign_id);
     
-    if (campaignAssets.length === 0) {
-      return { ...campaign, analysis: null, assets: 0, performanceRecords: campaignMetrics.length };
-    }
+      if (campaignAssets.length === 0) {
+        return { ...campaign, analysis: null, assets: 0, performanceRecords: campaignMetrics.length };
+      }
     
-    const primaryAsset = campaignAssets[0];
-    const businessFeatureScores = mapCreativeAssetToBusinessFeatures(primaryAsset);
-    const realBusinessOutcomes = mapPerformanceToBusinessOutcomes(campaignMetrics);
+      const objective = requestedObjective ?? resolveCampaignObjective(campaign);
+      const businessFeatureScores =
+        aggregateCampaignFeatures(campaignAssets, aggregation, engine, objective.blend, tenantId)!.featureScores;
+      const realBusinessOutcomes = mapPerformanceToBusinessOutcomes(campaignMetrics);
     
-    const cesResults = businessEngine.calculateBusinessEffectiveness(
-      businessFeatureScores,
-      {},
-      'conversion'
-    );
+      const cesResults = engine.calculateBusinessEffectiveness(
+        businessFeatureScores,
+        {},
+        objective.blend
+      );
     
-    return {
-      ...campaign,
-      analysis: {
-        businessEffectivenessScore: cesResults.totalScore,
-        topBusinessOutcome: Object.entries(cesResults.outcomeBreakdown)
-          .sort(([,a], [,b]) => b - a)[0],
-        actualPerformance: {
-          roi: campaignMetrics.length > 0 ? campaignMetrics.reduce((sum, m) => sum + m.roi, 0) / campaignMetrics.length : 0,
-          engagement: campaignMetrics.length > 0 ? campaignMetrics.reduce((sum, m) => sum + m.engagement_rate, 0) / campaignMetrics.length : 0,
-          conversion: campaignMetrics.length > 0 ? campaignMetrics.reduce((sum, m) => sum + m.conversion_rate, 0) / campaignMetrics.length : 0
-        }
-      },
-      assets: campaignAssets.length,
-      performanceRecords: campaignMetrics.length
-    };
-  });
+      return {
+        ...campaign,
+        analysis: {
+          businessEffectivenessScore: cesResults.totalScore,
+          grade: gradeFor(cesResults.totalScore, gradeBands),
+          objective,
+          topBusinessOutcome: Object.entries(cesResults.outcomeBreakdown)
+            .sort(([,a], [,b]) => b - a)[0] as [string, number],
+          actualPerformance: {
+            roi: campaignMetrics.length > 0 ? campaignMetrics.reduce((sum, m) => sum + m.roi, 0) / campaignMetrics.length : 0,
+            engagement: campaignMetrics.length > 0 ? campaignMetrics.reduce((sum, m) => sum + m.engagement_rate, 0) / campaignMetrics.length : 0,
+            conversion: campaignMetrics.length > 0 ? campaignMetrics.reduce((sum, m) => sum + m.conversion_rate, 0) / campaignMetrics.length : 0
+          }
+        },
+        assets: campaignAssets.length,
+        performanceRecords: campaignMetrics.length
+      };
+    });
   
-  return NextResponse.json({
-    campaigns: analyzedCampaigns,
-    total: campaigns.length,
-    analyzed: analyzedCampaigns.length
-  });
+    return NextResponse.json<CampaignListResponse>({
+      campaigns: analyzedCampaigns,
+      total: campaigns.length,
+      analyzed: analyzedCampaigns.length,
+      engineVersion: BUSINESS_ENGINE_VERSION,
+      weightSetVersion: engine.weightSetVersion,
+      metadata: {
+        scale: CES_SCORE_SCALE,
+        aggregationStrategy: aggregation
+      }
+    });
+  } catch (error) {
+    console.error('Campaign analysis error:', error);
+    return NextResponse.json({ error: 'Failed to analyze campaigns' }, { status: 500 });
+  }
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { campaignIds, analysisType = 'batch', businessPriorities = {} } = body;
+    const parsed = await parseJsonBody(request, campaignAnalysisRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const {
+      campaignIds,
+      businessPriorities,
+      weightSet,
+      aggregation = getDefaultAggregationStrategy(),
+      objective: objectiveOverride,
+      tenantId = getDefaultTenantId()
+    } = parsed.data;
+
+    const requestedObjective = objectiveOverride === undefined ? null : resolveRequestedObjective(objectiveOverride);
     
-    const data = loadRealData();
+    const data = await loadCampaignData();
     if (!data) {
       return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
     }
+
+    const engine = await getBusinessEngine(weightSet, tenantId);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSet}` }, { status: 404 });
+    }
     
-    const { campaigns, creativeAssets, performanceMetrics } = data;
+    const { campaigns, creativeAssets } = data;
+    const gradeBands = getGradeBands(tenantId);
     
-    if (analysisType === 'batch' && campaignIds) {
-      // Batch analysis of multiple campaigns
-      const results = campaignIds.map((campaignId: string) => {
-        const campaign = campaigns.find((c: any) => c.campaign_id === campaignId);
-        if (!campaign) return null;
-        
-        const campaignAssets = creativeAssets.filter((a: any) => a.campaign_id === campaignId);
-        const campaignMetrics = performanceMetrics.filter((m: any) => m.campaign_id === campaignId);
-        
-        if (campaignAssets.length === 0) return null;
-        
-        const primaryAsset = campaignAssets[0];
-        const businessFeatureScores = mapCreativeAssetToBusinessFeatures(primaryAsset);
-        
-        const cesResults = businessEngine.calculateBusinessEffectiveness(
-          businessFeatureScores,
-          businessPriorities,
-          'conversion'
-        );
-        
-        return {
-          campaignId,
-          campaignName: campaign.name,
-          brand: campaign.brand,
-          businessEffectivenessScore: cesResults.totalScore,
-          topRecommendation: cesResults.businessRecommendations[0],
-          businessOutcomes: cesResults.outcomeBreakdown
-        };
-      }).filter(Boolean);
+    // Batch analysis of multiple campaigns; unknown or asset-less campaigns are skipped
+    const results = campaignIds.flatMap(campaignId => {
+      const campaign = campaigns.find(c => c.campaign_id === campaignId);
+      if (!campaign) return [];
       
-      return NextResponse.json({
-        batchAnalysis: results,
-        summary: {
-          totalAnalyzed: results.length,
-          averageScore: results.reduce((sum: number, r: any) => sum + r.businessEffectivenessScore, 0) / results.length,
-          topPerformers: results
-            .sort((a: any, b: any) => b.businessEffectivenessScore - a.businessEffectivenessScore)
-            .slice(0, 5)
-        }
-      });
-    }
+      const campaignAssets = creativeAssets.filter(a => a.campaign_id === campaignId);
+      if (campaignAssets.length === 0) return [];
+      
+      const objective = requestedObjective ?? resolveCampaignObjective(campaign);
+      const { featureScores: businessFeatureScores, assets: assetBreakdown } =
+        aggregateCampaignFeatures(campaignAssets, aggregation, engine, objective.blend, tenantId)!;
+      
+      const cesResults = engine.calculateBusinessEffectiveness(
+        businessFeatureScores,
+        businessPriorities,
+        objective.blend
+      );
+      
+      return [{
+        campaignId,
+        campaignName: campaign.name,
+        brand: campaign.brand,
+        businessEffectivenessScore: cesResults.totalScore,
+        grade: gradeFor(cesResults.totalScore, gradeBands),
+        objective,
+        topRecommendation: cesResults.businessRecommendations[0],
+        businessOutcomes: cesResults.outcomeBreakdown,
+        assetBreakdown
+      }];
+    });
     
-    return NextResponse.json({ error: 'Invalid analysis type or missing campaign IDs' }, { status: 400 });
+    return NextResponse.json<CampaignBatchResponse>({
+      batchAnalysis: results,
+      engineVersion: BUSINESS_ENGINE_VERSION,
+      weightSetVersion: engine.weightSetVersion,
+      metadata: {
+        scale: CES_SCORE_SCALE,
+        aggregationStrategy: aggregation
+      },
+      summary: {
+        totalAnalyzed: results.length,
+        // 0 when none of the campaigns could be analyzed
+        averageScore: results.length > 0
+          ? results.reduce((sum, r) => sum + r.businessEffectivenessScore, 0) / results.length
+          : 0,
+        topPerformers: results
+          .sort((a, b) => b.businessEffectivenessScore - a.businessEffectivenessScore)
+          .slice(0, 5)
+      }
+    });
     
   } catch (error) {
+    if (error instanceof ObjectiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('Campaign analysis error:', error);
     return NextResponse.json({ error: 'Failed to analyze campaigns' }, { status: 500 });
   }
@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { campaignsQuerySchema, createCampaignRequestSchema } from '../../../lib/api-schemas';
+import { parseJsonBody, parseSearchParams } from '../../../lib/api-validation';
 import { getCampaignMetrics } from '../../../lib/campaign-agents';
 import { executeQuery } from '../../../lib/database';
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status');
-    const startDate = searchParams.get('start_date');
-    const endDate = searchParams.get('end_date');
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const offset = parseInt(searchParams.get('offset') || '0');
+    const parsed = parseSearchParams(request, campaignsQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { limit, offset } = parsed.data;
 
     // Get real campaign data from Azure PostgreSQL
     const campaigns = await getCampaignMetrics();
@@ -65,18 +65,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    
-    // Validate required fields
-    const requiredFields = ['campaign_name', 'channel', 'budget', 'start_date', 'end_date'];
-    const missingFields = requiredFields.filter(field => !body[field]);
-    
-    if (missingFields.length > 0) {
-      return NextResponse.json(
-        { error: `Missing required fields: ${missingFields.join(', ')}` },
-        { status: 400 }
-      );
-    }
+    const parsed = await parseJsonBody(request, createCampaignRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const body = parsed.data;
 
     // Insert new campaign into Azure PostgreSQL
     const insertQuery = `
@@ -91,13 +83,13 @@ export async function POST(request: NextRequest) {
 
     const result = await executeQuery(insertQuery, [
       body.campaign_name,
-      body.status || 'draft',
+      body.status,
       body.channel,
-      parseFloat(body.budget),
+      body.budget,
       body.start_date,
       body.end_date,
-      body.brand || 'TBWA',
-      body.campaign_type || 'brand_awareness'
+      body.brand,
+      body.campaign_type
     ]);
 
     if (result.rows.length === 0) {
@@ -1,54 +1,99 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { businessEngine, BUSINESS_DRIVEN_FEATURES, BUSINESS_OUTCOMES } from '../../../lib/business-outcome-engine';
+import {
+  creativeAnalysisQuerySchema,
+  creativeAnalysisRequestSchema,
+  type CreativeAnalysisResponse,
+  type CreativeAnalysisSummaryResponse,
+  type FeatureDefinitionsResponse,
+  type OutcomeDefinitionsResponse
+} from '../../../lib/api-schemas';
+import { parseJsonBody, parseSearchParams } from '../../../lib/api-validation';
+import {
+  describeObjective,
+  normalizeObjective,
+  type BusinessEffectivenessResult,
+  type ObjectiveBlend
+} from '../../../lib/business-outcome-engine';
+import { getBenchmarks, rankAgainstBenchmarks } from '../../../lib/benchmarks';
+import {
+  getDefaultTenantId,
+  isCustomFeature,
+  isCustomOutcome,
+  loadBusinessDefinitions
+} from '../../../lib/business-registry';
+import { loadCampaignData } from '../../../lib/campaign-data';
+import { getGradeBands } from '../../../lib/grade-bands';
+import { CES_SCORE_SCALE, gradeFor } from '../../../lib/score-scale';
+import { getBusinessEngine } from '../../../lib/weight-sets';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    
+    const parsed = await parseJsonBody(request, creativeAnalysisRequestSchema);
+    if (!parsed.success) return parsed.response;
+
     const {
       creativeScores,
-      businessPriorities = {},
-      campaignType = 'conversion',
-      includeAwardBenchmark = true
-    } = body;
+      businessPriorities,
+      campaignType,
+      benchmarkCohort,
+      weightSet,
+      tenantId = getDefaultTenantId(),
+      featureUncertainty,
+      confidenceLevel
+    } = parsed.data;
+    // includeAwardBenchmark is the flag's old name
+    const includeBenchmark = parsed.data.includeBenchmark ?? parsed.data.includeAwardBenchmark ?? true;
+
+    // campaignType is an objective name or a blend such as { brand: 0.6, conversion: 0.4 }
+    const objectiveBlend = normalizeObjective(campaignType);
 
-    // Validate input
-    if (!creativeScores || typeof creativeScores !== 'object') {
+    const engine = await getBusinessEngine(weightSet, tenantId);
+    if (!engine) {
       return NextResponse.json(
-        { error: 'creativeScores object is required' },
-        { status: 400 }
+        { error: `Weight set not found: ${weightSet}` },
+        { status: 404 }
       );
     }
 
     // Calculate Business Effectiveness Score
-    const cesResults = businessEngine.calculateBusinessEffectiveness(
+    const cesResults = engine.calculateBusinessEffectiveness(
       creativeScores,
       businessPriorities,
-      campaignType as any
+      objectiveBlend,
+      { featureUncertainty, confidenceLevel }
     );
 
-    // Business impact analysis (no award benchmarking)
-    let awardBenchmark = null;
-    if (includeAwardBenchmark) {
-      // Generate business-focused benchmark instead
-      awardBenchmark = {
-        businessEfficiencyAlignment: Math.round((cesResults.outcomeBreakdown.media_efficiency || 0) / 10),
-        conversionAlignment: Math.round((cesResults.outcomeBreakdown.conversion || 0) / 10),
-        overallBusinessPotential: Math.round(cesResults.totalScore),
-        gapAnalysis: cesResults.businessRecommendations || []
-      };
+    // Where the creative ranks among the loaded campaigns, scored under the same objective
+    let benchmarks = null;
+    if (includeBenchmark) {
+      const data = await loadCampaignData();
+      if (data) {
+        const benchmarkSet = getBenchmarks(data, engine, objectiveBlend, tenantId);
+        // Campaigns are benchmarked without priorities, so rank an unprioritised score
+        const comparable = Object.keys(businessPriorities).length > 0
+          ? engine.calculateBusinessEffectiveness(creativeScores, {}, objectiveBlend)
+          : cesResults;
+        benchmarks = {
+          objective: benchmarkSet.objective,
+          dataLoadedAt: benchmarkSet.datasetLoadedAt,
+          rankings: rankAgainstBenchmarks(benchmarkSet, comparable, benchmarkCohort)
+        };
+      } else {
+        console.error('Benchmarks unavailable: campaign data failed to load');
+      }
     }
 
     // Generate detailed feature analysis
-    const featureAnalysis = BUSINESS_DRIVEN_FEATURES.map(feature => {
+    const featureAnalysis = engine.features.map(feature => {
       const score = creativeScores[feature.id] || 0;
       const contribution = cesResults.featureROI[feature.id] || 0;
+      const impacts = engine.getImpacts(feature);
       
       // Calculate feature effectiveness per outcome
-      const outcomeEffectiveness = Object.entries(BUSINESS_OUTCOMES).map(([outcomeKey, outcome]) => ({
+      const outcomeEffectiveness = Object.entries(engine.outcomes).map(([outcomeKey, outcome]) => ({
         outcome: outcome.name,
-        impact: feature.businessImpact[outcomeKey] || 0,
-        score: score * (feature.businessImpact[outcomeKey] || 0)
+        impact: impacts[outcomeKey] || 0,
+        score: score * (impacts[outcomeKey] || 0)
       })).sort((a, b) => b.score - a.score);
 
       return {
@@ -60,78 +105,92 @@ export async function POST(request: NextRequest) {
         measurability: feature.measurability,
         topOutcomes: outcomeEffectiveness.slice(0, 3),
         implementation: feature.implementation,
-        businessImpact: feature.businessImpact,
+        businessImpact: impacts,
         gap: score < 7 ? 10 - score : 0
       };
     }).sort((a, b) => b.contribution - a.contribution);
 
-    // Generate outcome-specific insights
-    const outcomeInsights = Object.entries(BUSINESS_OUTCOMES).map(([key, outcome]) => {
-      const score = cesResults.outcomeBreakdown[key] || 0;
+    // Generate outcome-specific insights, in each outcome's own units
+    const outcomeInsights = Object.entries(engine.outcomes).map(([key, outcome]) => {
+      const score = cesResults.outcomeValues[key] || 0;
       const threshold = outcome.threshold;
       const target = outcome.targetValue;
       
       // Find top contributing features for this outcome
-      const topFeatures = BUSINESS_DRIVEN_FEATURES
-        .map(feature => ({
-          name: feature.id,
-          impact: feature.businessImpact[key] || 0,
-          currentContribution: (creativeScores[feature.id] || 0) * (feature.businessImpact[key] || 0)
-        }))
+      const topFeatures = engine.features
+        .map(feature => {
+          const impact = engine.getImpacts(feature)[key] || 0;
+          return {
+            name: feature.id,
+            impact,
+            currentContribution: (creativeScores[feature.id] || 0) * impact
+          };
+        })
         .sort((a, b) => b.impact - a.impact)
         .slice(0, 3);
 
       return {
+        id: key,
         outcome: outcome.name,
         metrics: outcome.metrics,
         currentScore: Math.round(score * 100) / 100,
         targetScore: target,
         threshold: threshold,
         weight: outcome.weight,
-        performance: score >= threshold ? 'above_threshold' : 'below_threshold',
-        gapToTarget: Math.max(0, target - score),
+        performance: score >= threshold ? 'above_threshold' as const : 'below_threshold' as const,
+        gapToTarget: Math.round(Math.max(0, target - score) * 100) / 100,
         topFeatures,
         priority: businessPriorities[key] || 1
       };
-    }).sort((a, b) => b.currentScore - a.currentScore);
+    }).sort((a, b) => shareOfTarget(b) - shareOfTarget(a));
 
     // Generate strategic recommendations
     const strategicRecommendations = generateStrategicRecommendations(
       cesResults,
       featureAnalysis,
       outcomeInsights,
-      campaignType as any
+      objectiveBlend
     );
 
     // Calculate overall campaign health
+    const gradeBand = gradeFor(cesResults.totalScore, getGradeBands(tenantId));
     const campaignHealth = {
       overallCES: cesResults.totalScore,
-      grade: getCESGrade(cesResults.totalScore),
+      grade: gradeBand.grade,
+      gradeTone: gradeBand.tone,
       strengthAreas: featureAnalysis.filter(f => f.currentScore >= 8).map(f => f.name),
       improvementAreas: featureAnalysis.filter(f => f.currentScore < 6).map(f => f.name),
       balanceScore: calculateBalanceScore(creativeScores),
       executionReadiness: calculateExecutionReadiness(featureAnalysis)
     };
 
-    return NextResponse.json({
+    return NextResponse.json<CreativeAnalysisResponse>({
       analysis: {
         campaignHealth,
         cesScore: cesResults.totalScore,
         outcomeBreakdown: cesResults.outcomeBreakdown,
+        outcomeValues: cesResults.outcomeValues,
         featureContributions: cesResults.featureROI,
-        recommendations: cesResults.businessRecommendations
+        recommendations: cesResults.businessRecommendations,
+        uncertainty: cesResults.uncertainty
       },
       insights: {
         features: featureAnalysis,
         outcomes: outcomeInsights,
         strategic: strategicRecommendations
       },
-      benchmarks: awardBenchmark,
+      benchmarks,
       metadata: {
         campaignType,
+        objective: describeObjective(objectiveBlend),
+        objectiveBlend,
+        tenantId,
+        scale: CES_SCORE_SCALE,
+        engineVersion: cesResults.engineVersion,
+        weightSetVersion: cesResults.weightSetVersion,
         analysisTimestamp: new Date().toISOString(),
-        totalFeatures: BUSINESS_DRIVEN_FEATURES.length,
-        businessOutcomes: Object.keys(BUSINESS_OUTCOMES).length
+        totalFeatures: engine.features.length,
+        businessOutcomes: Object.keys(engine.outcomes).length
       }
     });
 
@@ -146,60 +205,78 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const format = searchParams.get('format') || 'summary';
+    const parsed = parseSearchParams(request, creativeAnalysisQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { format, weightSet, tenantId = getDefaultTenantId() } = parsed.data;
+    const { outcomes, features } = await loadBusinessDefinitions(tenantId);
 
     if (format === 'features') {
+      // Impacts as the engine scores them under the requested weight set
+      const engine = await getBusinessEngine(weightSet, tenantId);
+      if (!engine) {
+        return NextResponse.json(
+          { error: `Weight set not found: ${weightSet}` },
+          { status: 404 }
+        );
+      }
+
       // Return detailed feature definitions
-      return NextResponse.json({
-        features: BUSINESS_DRIVEN_FEATURES.map(feature => ({
+      return NextResponse.json<FeatureDefinitionsResponse>({
+        tenantId,
+        weightSetVersion: engine.weightSetVersion,
+        features: engine.features.map(feature => ({
           id: feature.id,
           name: feature.name,
           description: feature.description,
           category: feature.category,
           measurability: feature.measurability,
           implementation: feature.implementation,
-          businessImpact: feature.businessImpact,
-          testability: feature.testability
+          businessImpact: engine.getImpacts(feature),
+          testability: feature.testability,
+          custom: isCustomFeature(feature.id)
         })),
         categories: {
-          content: BUSINESS_DRIVEN_FEATURES.filter(f => f.category === 'content').length,
-          design: BUSINESS_DRIVEN_FEATURES.filter(f => f.category === 'design').length,
-          messaging: BUSINESS_DRIVEN_FEATURES.filter(f => f.category === 'messaging').length,
-          targeting: BUSINESS_DRIVEN_FEATURES.filter(f => f.category === 'targeting').length,
-          channel: BUSINESS_DRIVEN_FEATURES.filter(f => f.category === 'channel').length
+          content: features.filter(f => f.category === 'content').length,
+          design: features.filter(f => f.category === 'design').length,
+          messaging: features.filter(f => f.category === 'messaging').length,
+          targeting: features.filter(f => f.category === 'targeting').length,
+          channel: features.filter(f => f.category === 'channel').length
         }
       });
     }
 
     if (format === 'outcomes') {
       // Return business outcomes framework
-      return NextResponse.json({
-        outcomes: Object.entries(BUSINESS_OUTCOMES).map(([key, outcome]) => ({
+      return NextResponse.json<OutcomeDefinitionsResponse>({
+        tenantId,
+        outcomes: Object.entries(outcomes).map(([key, outcome]) => ({
           id: key,
           name: outcome.name,
           description: outcome.description,
           metrics: outcome.metrics,
           weight: outcome.weight,
           targetValue: outcome.targetValue,
-          threshold: outcome.threshold
+          threshold: outcome.threshold,
+          category: outcome.category,
+          custom: isCustomOutcome(key)
         }))
       });
     }
 
     // Default summary format
-    return NextResponse.json({
+    return NextResponse.json<CreativeAnalysisSummaryResponse>({
       summary: {
-        totalFeatures: BUSINESS_DRIVEN_FEATURES.length,
+        totalFeatures: features.length,
         categories: ['content', 'design', 'messaging', 'targeting', 'channel'],
-        businessOutcomes: Object.keys(BUSINESS_OUTCOMES).length,
+        businessOutcomes: Object.keys(outcomes).length,
         businessFocus: 'Pure business outcomes (no award correlations)'
       },
       usage: {
         endpoint: '/api/creative-analysis',
         method: 'POST',
         requiredFields: ['creativeScores'],
-        optionalFields: ['businessPriorities', 'campaignType', 'includeAwardBenchmark']
+        optionalFields: ['businessPriorities', 'campaignType', 'includeBenchmark', 'benchmarkCohort', 'weightSet', 'tenantId', 'featureUncertainty', 'confidenceLevel']
       }
     });
 
@@ -213,11 +290,16 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper functions
+
+// Outcomes are in different units, so they are ranked by how much of their target they reach
+function shareOfTarget(outcome: { currentScore: number; targetScore: number }): number {
+  return outcome.targetScore > 0 ? outcome.currentScore / outcome.targetScore : 0;
+}
 function generateStrategicRecommendations(
-  cesResults: any,
+  cesResults: BusinessEffectivenessResult,
   featureAnalysis: any[],
   outcomeInsights: any[],
-  campaignType: string
+  objectiveBlend: ObjectiveBlend
 ): any[] {
   const recommendations = [];
   
@@ -255,8 +337,8 @@ function generateStrategicRecommendations(
     });
   }
   
-  // Campaign type specific recommendations
-  if (campaignType === 'conversion') {
+  // Campaign type specific recommendations, for mostly-conversion objectives
+  if ((objectiveBlend.conversion ?? 0) >= 0.5) {
     const ctaFeature = featureAnalysis.find(f => f.name === 'action_oriented_language');
     if (ctaFeature && ctaFeature.currentScore < 8) {
       recommendations.push({
@@ -274,18 +356,6 @@ function generateStrategicRecommendations(
   return recommendations.slice(0, 5);
 }
 
-function getCESGrade(score: number): string {
-  if (score >= 85) return 'A+';
-  if (score >= 80) return 'A';
-  if (score >= 75) return 'A-';
-  if (score >= 70) return 'B+';
-  if (score >= 65) return 'B';
-  if (score >= 60) return 'B-';
-  if (score >= 55) return 'C+';
-  if (score >= 50) return 'C';
-  return 'C-';
-}
-
 function calculateBalanceScore(creativeScores: Record<string, number>): number {
   const scores = Object.values(creativeScores);
   const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
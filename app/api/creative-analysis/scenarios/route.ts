@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { scenariosRequestSchema, type ScenariosResponse } from '../../../../lib/api-schemas';
+import { parseJsonBody } from '../../../../lib/api-validation';
+import { BUSINESS_ENGINE_VERSION, ObjectiveError } from '../../../../lib/business-outcome-engine';
+import { getDefaultTenantId } from '../../../../lib/business-registry';
+import { ScenarioError, runScenarios, validateScenarios } from '../../../../lib/scenarios';
+import { getBusinessEngine } from '../../../../lib/weight-sets';
+
+/**
+ * Compare a baseline against up to four what-if scenarios.
+ * Body: { creativeScores, scenarios: [{ name, deltas }], campaignType? (objective
+ * name or blend),
+ * businessPriorities?, weightSet?, tenantId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, scenariosRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const {
+      creativeScores,
+      scenarios,
+      campaignType,
+      businessPriorities,
+      weightSet,
+      tenantId = getDefaultTenantId()
+    } = parsed.data;
+
+    const engine = await getBusinessEngine(weightSet, tenantId);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSet}` }, { status: 404 });
+    }
+
+    const comparison = runScenarios(
+      engine,
+      creativeScores,
+      validateScenarios(engine, scenarios),
+      campaignType,
+      businessPriorities
+    );
+
+    return NextResponse.json<ScenariosResponse>({
+      ...comparison,
+      metadata: {
+        engineVersion: BUSINESS_ENGINE_VERSION,
+        weightSetVersion: engine.weightSetVersion,
+        analysisTimestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    if (error instanceof ScenarioError || error instanceof ObjectiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Scenario analysis error:', error);
+    return NextResponse.json({ error: 'Failed to run scenarios' }, { status: 500 });
+  }
+}
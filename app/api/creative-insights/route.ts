@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { creativeInsightsQuerySchema, type CreativeInsightsResponse } from '../../../lib/api-schemas';
+import { parseSearchParams } from '../../../lib/api-validation';
+import { getDefaultTenantId } from '../../../lib/business-registry';
+import { loadCampaignData } from '../../../lib/campaign-data';
+import { buildCreativeInsights } from '../../../lib/creative-insights';
+import { getBusinessEngine } from '../../../lib/weight-sets';
+
+/**
+ * CreativeAnalysisResult[] for every campaign with creative assets, or for
+ * one campaign with ?campaignId= (an empty list when it has no assets).
+ * Optional: weights, tenantId
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, creativeInsightsQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const { campaignId, weights: weightSetVersion, tenantId = getDefaultTenantId() } = parsed.data;
+
+    const data = await loadCampaignData();
+    if (!data) {
+      return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+    }
+    if (campaignId && !data.campaigns.some(c => c.campaign_id === campaignId)) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const engine = await getBusinessEngine(weightSetVersion, tenantId);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSetVersion}` }, { status: 404 });
+    }
+
+    return NextResponse.json<CreativeInsightsResponse>(buildCreativeInsights(data, engine, campaignId, tenantId));
+  } catch (error) {
+    console.error('Creative insights error:', error);
+    return NextResponse.json({ error: 'Failed to build creative insights' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { featureRulesDryRunRequestSchema } from '../../../../lib/api-schemas';
+import { parseJsonBody } from '../../../../lib/api-validation';
+import { loadAskCESConfig } from '../../../../lib/config';
+import { loadCampaignData, type CreativeAssetRecord } from '../../../../lib/campaign-data';
+import {
+  evaluateFeatureRules,
+  loadFeatureRuleSet,
+  validateFeatureRuleSet,
+  type FeatureRuleSet
+} from '../../../../lib/feature-rules';
+
+/**
+ * Evaluate rules against one asset without changing anything.
+ * Body: { assetId | asset, rules?, tenantId? } - `rules` is a candidate rule
+ * set (same layout as config/feature-rules.yaml) to validate and try out
+ * instead of the active one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, featureRulesDryRunRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const { assetId, rules, tenantId = loadAskCESConfig().tenant?.id } = parsed.data;
+
+    let ruleSet: FeatureRuleSet;
+    if (rules !== undefined) {
+      const errors = validateFeatureRuleSet(rules);
+      if (errors.length > 0) {
+        return NextResponse.json({ valid: false, errors }, { status: 400 });
+      }
+      ruleSet = rules as FeatureRuleSet;
+    } else {
+      ruleSet = loadFeatureRuleSet();
+    }
+
+    let asset = parsed.data.asset as CreativeAssetRecord | undefined;
+    if (!asset) {
+      const data = await loadCampaignData();
+      if (!data) {
+        return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+      }
+      asset = data.creativeAssets.find(a => a.asset_id === assetId);
+      if (!asset) {
+        return NextResponse.json({ error: 'Creative asset not found' }, { status: 404 });
+      }
+    }
+
+    return NextResponse.json({
+      valid: true,
+      ruleSetVersion: ruleSet.version,
+      tenantId,
+      assetId: asset.asset_id ?? null,
+      results: evaluateFeatureRules(asset, ruleSet, tenantId)
+    });
+  } catch (error) {
+    console.error('Feature rules dry-run error:', error);
+    return NextResponse.json({ error: 'Failed to evaluate feature rules' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tenantQuerySchema } from '../../../lib/api-schemas';
+import { parseSearchParams } from '../../../lib/api-validation';
+import { loadAskCESConfig } from '../../../lib/config';
+import { FeatureRuleValidationError, loadFeatureRuleSet, resolveTenantRules } from '../../../lib/feature-rules';
+
+// The active feature extraction rules, with a tenant's overrides applied
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseSearchParams(request, tenantQuerySchema);
+    if (!parsed.success) return parsed.response;
+
+    const tenantId = parsed.data.tenantId || loadAskCESConfig().tenant?.id;
+
+    const ruleSet = loadFeatureRuleSet();
+    const { rules, overridden, custom } = resolveTenantRules(ruleSet, tenantId);
+
+    return NextResponse.json({
+      version: ruleSet.version,
+      tenantId,
+      rules,
+      overriddenFeatures: [...overridden],
+      customFeatures: [...custom],
+      tenants: Object.keys(ruleSet.tenants || {})
+    });
+  } catch (error) {
+    if (error instanceof FeatureRuleValidationError) {
+      return NextResponse.json({ error: 'Feature rule set is invalid', details: error.errors }, { status: 500 });
+    }
+    console.error('Feature rules error:', error);
+    return NextResponse.json({ error: 'Failed to load feature rules' }, { status: 500 });
+  }
+}
@@ -8,17 +8,19 @@ export async function GET(request: NextRequest) {
   const azureOpenAIStatus = process.env.AZURE_OPENAI_API_KEY ? "configured" : "not configured";
   const googleDriveStatus = process.env.GOOGLE_SERVICE_ACCOUNT_KEY ? "configured" : "not configured";
 
-  const status = databaseStatus && azureOpenAIStatus === "configured" && googleDriveStatus === "configured" ? "healthy" : "unhealthy";
+  const databaseHealthy = databaseStatus.status === "healthy";
+  const status = databaseHealthy && azureOpenAIStatus === "configured" && googleDriveStatus === "configured" ? "healthy" : "unhealthy";
 
   return NextResponse.json({
     status,
     system_type: "TBWA Creative Campaign Analysis",
-    campaign_tables: databaseStatus ? "ready" : "not ready", // Assumes tables are ready if DB is connected
+    campaign_tables: databaseHealthy ? "ready" : "not ready", // Assumes tables are ready if DB is connected
     services: {
-      azure_sql: databaseStatus ? "operational" : "down",
+      azure_sql: databaseHealthy ? "operational" : "down",
       azure_openai: azureOpenAIStatus,
       google_drive: googleDriveStatus,
     },
+    database: databaseStatus,
     timestamp: new Date().toISOString(),
   }, { status: status === "healthy" ? 200 : 503 });
 } 
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { optimizerRequestSchema, type OptimizerResponse } from '../../../lib/api-schemas';
+import { parseJsonBody } from '../../../lib/api-validation';
+import { BUSINESS_ENGINE_VERSION, ObjectiveError } from '../../../lib/business-outcome-engine';
+import { getDefaultTenantId } from '../../../lib/business-registry';
+import { loadCampaignData } from '../../../lib/campaign-data';
+import { getCampaignFeatureScores, mapCreativeAssetToBusinessFeatures } from '../../../lib/creative-features';
+import { resolveCampaignObjective } from '../../../lib/objectives';
+import { OptimizerError, optimizeImprovements } from '../../../lib/optimizer';
+import { getBusinessEngine } from '../../../lib/weight-sets';
+
+/**
+ * Best set of feature improvements within a budget and timeline.
+ * Body: { creativeScores | assetId | campaignId, budget, timeline, objective?
+ * (objective name or blend; defaults to the campaign's own objective),
+ * target? ('totalScore' or an outcome id), scheduling?, businessPriorities?,
+ * weightSet?, tenantId? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, optimizerRequestSchema);
+    if (!parsed.success) return parsed.response;
+
+    const {
+      creativeScores,
+      assetId,
+      campaignId,
+      budget,
+      timeline,
+      objective,
+      target,
+      scheduling,
+      businessPriorities,
+      weightSet,
+      tenantId = getDefaultTenantId()
+    } = parsed.data;
+
+    const engine = await getBusinessEngine(weightSet, tenantId);
+    if (!engine) {
+      return NextResponse.json({ error: `Weight set not found: ${weightSet}` }, { status: 404 });
+    }
+
+    let featureScores: Record<string, number> | null = creativeScores ?? null;
+    let source: { type: string; id?: string } = { type: 'creativeScores' };
+    let campaign: Record<string, any> = {};
+
+    if (!featureScores) {
+      const data = await loadCampaignData();
+      if (!data) {
+        return NextResponse.json({ error: 'Failed to load campaign data' }, { status: 500 });
+      }
+
+      if (assetId) {
+        const asset = data.creativeAssets.find(a => a.asset_id === assetId);
+        if (!asset) {
+          return NextResponse.json({ error: 'Creative asset not found' }, { status: 404 });
+        }
+        featureScores = mapCreativeAssetToBusinessFeatures(asset, tenantId);
+        source = { type: 'asset', id: assetId };
+        campaign = data.campaigns.find(c => c.campaign_id === asset.campaign_id) ?? {};
+      } else {
+        campaign = data.campaigns.find(c => c.campaign_id === campaignId) ?? {};
+        featureScores = getCampaignFeatureScores(
+          data.creativeAssets.filter(a => a.campaign_id === campaignId),
+          undefined,
+          engine,
+          objective ?? resolveCampaignObjective(campaign).blend,
+          tenantId
+        );
+        if (!featureScores) {
+          return NextResponse.json({ error: 'No creative assets found for campaign' }, { status: 404 });
+        }
+        source = { type: 'campaign', id: campaignId };
+      }
+    }
+
+    const result = optimizeImprovements(engine, featureScores, {
+      budget,
+      timeline,
+      objective: objective ?? resolveCampaignObjective(campaign).blend,
+      target,
+      scheduling,
+      businessPriorities
+    });
+
+    return NextResponse.json<OptimizerResponse>({
+      ...result,
+      source,
+      engineVersion: BUSINESS_ENGINE_VERSION,
+      weightSetVersion: engine.weightSetVersion
+    });
+  } catch (error) {
+    if (error instanceof OptimizerError || error instanceof ObjectiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Optimizer error:', error);
+    return NextResponse.json({ error: 'Failed to optimize improvements' }, { status: 500 });
+  }
+}
@@ -1,74 +1,121 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { InsightPanel } from '@/components/ces/InsightPanel';
 import { RoleSelector } from '@/components/ces/RoleSelector';
 import { FeedbackBar } from '@/components/ces/FeedbackBar';
 import { QueryInput } from '@/components/ces/QueryInput';
+import { readSSEStream } from '@/utils/sse';
+import type { AskCESBusinessScore, AskCESRequest, AskCESResponse, AskCESRole } from '@/lib/api-schemas';
 
 export default function AskCES() {
-  const [currentRole, setCurrentRole] = useState<'exec' | 'strategist' | 'creative' | 'analyst'>('analyst');
+  const [currentRole, setCurrentRole] = useState<AskCESRole>('analyst');
   const [conversation, setConversation] = useState<Array<{
     query: string;
     response: string;
     role: string;
     timestamp: string;
-    businessScore?: any;
+    businessScore?: AskCESBusinessScore | null;
+    isStreaming?: boolean;
   }>>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Patch the entry currently being streamed (always the last one)
+  const updateLastEntry = (update: (entry: typeof conversation[number]) => Partial<typeof conversation[number]>) => {
+    setConversation(prev => {
+      if (prev.length === 0) return prev;
+      const last = prev[prev.length - 1];
+      return [...prev.slice(0, -1), { ...last, ...update(last) }];
+    });
+  };
 
   const handleQuery = async (query: string) => {
     if (!query.trim()) return;
 
     setIsLoading(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setConversation(prev => [...prev, {
+      query,
+      response: '',
+      role: currentRole,
+      timestamp: new Date().toISOString(),
+      isStreaming: true
+    }]);
     
+    const request: AskCESRequest = {
+      query,
+      role: currentRole,
+      includeContext: true,
+      stream: true,
+      conversationHistory: conversation.flatMap(c => [
+        { role: 'user' as const, content: c.query },
+        { role: 'assistant' as const, content: c.response }
+      ])
+    };
+
     try {
       const response = await fetch('/api/ask-ces', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream'
         },
-        body: JSON.stringify({
-          query,
-          role: currentRole,
-          includeContext: true,
-          conversationHistory: conversation.map(c => [
-            { role: 'user', content: c.query },
-            { role: 'assistant', content: c.response }
-          ]).flat()
-        }),
+        body: JSON.stringify(request),
+        signal: controller.signal
       });
 
       if (!response.ok) {
         throw new Error('Failed to get response');
       }
 
-      const data = await response.json();
-      
-      const newEntry = {
-        query,
-        response: data.response,
-        role: currentRole,
-        timestamp: data.metadata.timestamp,
-        businessScore: data.metadata.businessScore
-      };
-
-      setConversation(prev => [...prev, newEntry]);
+      if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+        // Streaming disabled server-side: fall back to the buffered JSON answer
+        const data: AskCESResponse = await response.json();
+        updateLastEntry(() => ({
+          response: data.response,
+          timestamp: data.metadata.timestamp,
+          businessScore: data.metadata.businessScore
+        }));
+        return;
+      }
+
+      for await (const { event, data } of readSSEStream(response.body)) {
+        const payload = JSON.parse(data);
+
+        if (event === 'token') {
+          updateLastEntry(entry => ({ response: entry.response + payload.content }));
+        } else if (event === 'metadata') {
+          updateLastEntry(() => ({ timestamp: payload.timestamp, businessScore: payload.businessScore }));
+        } else if (event === 'error') {
+          throw new Error(payload.error);
+        }
+      }
     } catch (error) {
+      if (controller.signal.aborted) {
+        updateLastEntry(entry => ({ response: entry.response ? `${entry.response} [cancelled]` : 'Request cancelled.' }));
+        return;
+      }
       console.error('Error:', error);
-      const errorEntry = {
-        query,
+      updateLastEntry(() => ({
         response: 'Sorry, I encountered an error processing your request. Please try again.',
-        role: currentRole,
         timestamp: new Date().toISOString()
-      };
-      setConversation(prev => [...prev, errorEntry]);
+      }));
     } finally {
+      updateLastEntry(() => ({ isStreaming: false }));
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const cancelQuery = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const clearConversation = () => {
+    cancelQuery();
     setConversation([]);
   };
 
@@ -98,6 +145,7 @@ export default function AskCES() {
             <div className="p-6 border-b border-gray-200">
               <QueryInput 
                 onSubmit={handleQuery} 
+                onCancel={cancelQuery}
                 isLoading={isLoading}
                 placeholder={getRolePlaceholder(currentRole)}
               />
@@ -112,7 +160,7 @@ export default function AskCES() {
                   </h3>
                   <p className="text-gray-500 max-w-md mx-auto">
                     Ask me anything about campaign effectiveness, ROI optimization, 
-                    creative performance, or strategic insights. I'll provide 
+                    creative performance, or strategic insights. I&apos;ll provide 
                     role-specific answers tailored to your needs.
                   </p>
                   <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-3 max-w-2xl mx-auto">
@@ -154,6 +202,7 @@ export default function AskCES() {
                             role={entry.role}
                             businessScore={entry.businessScore}
                             timestamp={entry.timestamp}
+                            isStreaming={entry.isStreaming}
                           />
                         </div>
                       </div>
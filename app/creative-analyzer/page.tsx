@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { 
   Brain, 
   TrendingUp, 
@@ -13,62 +13,72 @@ import {
   Sparkles,
   Zap
 } from 'lucide-react';
+import { ScenarioWorkspace } from '../../components/ScenarioWorkspace';
+import type {
+  BenchmarkCohortRequest as BenchmarkCohort,
+  BenchmarksResponse,
+  CreativeAnalysisRequest,
+  CreativeAnalysisResponse,
+  FeatureDefinitionsResponse,
+  OutcomeDefinitionsResponse,
+  ValidationErrorResponse
+} from '../../lib/api-schemas';
+import { formatScore, type GradeTone } from '../../lib/score-scale';
 
-interface CreativeScore {
-  [key: string]: number;
-}
-
-interface AnalysisResult {
-  analysis: {
-    campaignHealth: {
-      overallCES: number;
-      grade: string;
-      strengthAreas: string[];
-      improvementAreas: string[];
-      balanceScore: number;
-      executionReadiness: number;
-    };
-    cesScore: number;
-    outcomeBreakdown: Record<string, number>;
-    recommendations: string[];
-  };
-  insights: {
-    features: any[];
-    outcomes: any[];
-    strategic: any[];
-  };
-  benchmarks: {
-    businessEfficiencyAlignment: number;
-    conversionAlignment: number;
-    overallBusinessPotential: number;
-    gapAnalysis: string[];
-  };
-}
+type CreativeScore = CreativeAnalysisRequest['creativeScores'];
+type FeatureDefinition = FeatureDefinitionsResponse['features'][number];
+type OutcomeDefinition = OutcomeDefinitionsResponse['outcomes'][number];
+type ScoreUncertainty = NonNullable<CreativeAnalysisResponse['analysis']['uncertainty']>;
 
-const BUSINESS_DRIVEN_FEATURE_DEFINITIONS = {
-  value_proposition_clarity: "Clear, specific benefit communication that drives action",
-  urgency_scarcity_triggers: "Time-sensitive or limited availability messaging",
-  social_proof_integration: "Customer testimonials, reviews, usage statistics",
-  problem_solution_framing: "Clear pain point identification and solution presentation",
-  visual_hierarchy_optimization: "Strategic visual flow that guides to conversion",
-  color_psychology_application: "Strategic color use to drive specific behaviors",
-  mobile_optimization: "Design optimized for mobile user behavior and conversion",
-  benefit_focused_headlines: "Headlines that emphasize user benefits over features",
-  action_oriented_language: "Verbs and phrases that drive immediate action",
-  personalization_depth: "Customized messaging based on user data and behavior",
-  behavioral_targeting_precision: "Targeting based on actual user behavior patterns",
-  lookalike_audience_optimization: "Targeting users similar to high-value customers",
-  platform_native_optimization: "Content optimized for specific platform behaviors",
-  cross_channel_consistency: "Consistent messaging and experience across all touchpoints"
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
 };
 
 export default function CreativeAnalyzerPage() {
   const [creativeScores, setCreativeScores] = useState<CreativeScore>({});
   const [campaignType, setCampaignType] = useState<'conversion' | 'brand' | 'engagement' | 'efficiency'>('conversion');
   const [businessPriorities, setBusinessPriorities] = useState<Record<string, number>>({});
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [analysisResult, setAnalysisResult] = useState<CreativeAnalysisResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [features, setFeatures] = useState<FeatureDefinition[]>([]);
+  const [outcomes, setOutcomes] = useState<OutcomeDefinition[]>([]);
+  const [confidenceLevel, setConfidenceLevel] = useState(0.9);
+  const [benchmarkCohort, setBenchmarkCohort] = useState<BenchmarkCohort>({});
+  const [cohortOptions, setCohortOptions] = useState<Record<string, string[]>>({});
+
+  // Definitions come from the tenant registry, so custom entries show up here
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/creative-analysis?format=features').then(res => res.json()),
+      fetch('/api/creative-analysis?format=outcomes').then(res => res.json())
+    ])
+      .then(([featureData, outcomeData]: [FeatureDefinitionsResponse, OutcomeDefinitionsResponse]) => {
+        setFeatures(featureData.features || []);
+        setOutcomes(outcomeData.outcomes || []);
+      })
+      .catch(() => setError('Failed to load business definitions'));
+  }, []);
+
+  // Cohort choices for benchmarking come from the loaded campaigns
+  useEffect(() => {
+    fetch('/api/benchmarks')
+      .then(res => res.json())
+      .then((data: BenchmarksResponse) => {
+        const dimensions = 'dimensions' in data ? data.dimensions : {};
+        setCohortOptions(Object.fromEntries(
+          Object.entries(dimensions).map(([dimension, cohorts]) => [
+            dimension,
+            cohorts.map(c => c.cohort[dimension as keyof BenchmarkCohort]!)
+          ])
+        ));
+      })
+      .catch(() => setCohortOptions({}));
+  }, []);
+
+  // Sliders show 5 until moved; the analysis and scenarios both score what the user sees
+  const sliderScores = Object.fromEntries(features.map(f => [f.id, creativeScores[f.id] ?? 5]));
 
   const handleScoreChange = (feature: string, value: number) => {
     setCreativeScores(prev => ({
@@ -95,19 +105,23 @@ export default function CreativeAnalyzerPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          creativeScores,
+          creativeScores: sliderScores,
           businessPriorities,
           campaignType,
-          includeAwardBenchmark: true
+          confidenceLevel,
+          includeBenchmark: true,
+          benchmarkCohort
         }),
       });
 
+      const result = await response.json();
       if (!response.ok) {
-        throw new Error('Analysis failed');
+        // Validation errors list the offending fields
+        const { error, errors } = result as ValidationErrorResponse;
+        throw new Error(errors?.length ? `${error}: ${errors.map(e => `${e.path} ${e.message}`).join('; ')}` : error || 'Analysis failed');
       }
 
-      const result = await response.json();
-      setAnalysisResult(result);
+      setAnalysisResult(result as CreativeAnalysisResponse);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Analysis failed');
     } finally {
@@ -115,9 +129,9 @@ export default function CreativeAnalyzerPage() {
     }
   };
 
-  const getGradeColor = (grade: string) => {
-    if (grade.startsWith('A')) return 'text-green-400';
-    if (grade.startsWith('B')) return 'text-blue-400';
+  const getGradeColor = (tone: GradeTone) => {
+    if (tone === 'strong') return 'text-green-400';
+    if (tone === 'moderate') return 'text-blue-400';
     return 'text-yellow-400';
   };
 
@@ -130,7 +144,7 @@ export default function CreativeAnalyzerPage() {
           <h1 className="text-4xl font-bold text-white">Business-Driven Creative Analyzer</h1>
         </div>
         <p className="text-xl text-gray-400 max-w-3xl mx-auto">
-          AI-powered analysis focused on 9 core business outcomes - NO award pattern correlations
+          AI-powered analysis focused on {outcomes.length || 'core'} business outcomes - NO award pattern correlations
         </p>
       </div>
 
@@ -155,6 +169,33 @@ export default function CreativeAnalyzerPage() {
                 </button>
               ))}
             </div>
+            <div className="flex items-center justify-between mt-4">
+              <label className="text-sm text-gray-300">Confidence level</label>
+              <select
+                value={confidenceLevel}
+                onChange={(e) => setConfidenceLevel(parseFloat(e.target.value))}
+                className="bg-gray-700 text-white text-sm rounded px-2 py-1"
+              >
+                {[0.8, 0.9, 0.95, 0.99].map((level) => (
+                  <option key={level} value={level}>{Math.round(level * 100)}%</option>
+                ))}
+              </select>
+            </div>
+            {(['industry', 'region'] as const).filter(d => cohortOptions[d]?.length).map((dimension) => (
+              <div key={dimension} className="flex items-center justify-between mt-2">
+                <label className="text-sm text-gray-300">Benchmark {dimension}</label>
+                <select
+                  value={benchmarkCohort[dimension] ?? ''}
+                  onChange={(e) => setBenchmarkCohort(prev => ({ ...prev, [dimension]: e.target.value || undefined }))}
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1"
+                >
+                  <option value="">Any</option>
+                  {cohortOptions[dimension].map((value) => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
           </div>
 
           {/* Business-Driven Features Scoring */}
@@ -164,12 +205,13 @@ export default function CreativeAnalyzerPage() {
               Business-Driven Features (0-10 scale)
             </h3>
             <div className="space-y-4 max-h-96 overflow-y-auto">
-              {Object.entries(BUSINESS_DRIVEN_FEATURE_DEFINITIONS).map(([feature, description]) => (
+              {features.map(({ id: feature, name, description, custom }) => (
                 <div key={feature} className="space-y-2">
                   <div className="flex justify-between items-start">
                     <div className="flex-1">
                       <label className="text-sm font-medium text-white">
-                        {feature.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase())}
+                        {name}
+                        {custom && <CustomBadge />}
                       </label>
                       <p className="text-xs text-gray-400 mt-1">{description}</p>
                     </div>
@@ -179,12 +221,12 @@ export default function CreativeAnalyzerPage() {
                         min="0"
                         max="10"
                         step="0.5"
-                        value={creativeScores[feature] || 5}
+                        value={sliderScores[feature]}
                         onChange={(e) => handleScoreChange(feature, parseFloat(e.target.value))}
                         className="w-20"
                       />
                       <span className="text-sm font-medium text-white w-8">
-                        {creativeScores[feature] || 5}
+                        {sliderScores[feature]}
                       </span>
                     </div>
                   </div>
@@ -200,13 +242,11 @@ export default function CreativeAnalyzerPage() {
               Business Outcome Priorities
             </h3>
             <div className="grid grid-cols-2 gap-4">
-              {[
-                'engagement', 'brand_recall', 'conversion', 'roi_sales',
-                'brand_sentiment', 'acquisition', 'media_efficiency', 'behavioral_response', 'brand_equity'
-              ].map((outcome) => (
+              {outcomes.map(({ id: outcome, name, custom }) => (
                 <div key={outcome} className="space-y-1">
                   <label className="text-sm text-gray-300">
-                    {outcome.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase())}
+                    {name}
+                    {custom && <CustomBadge />}
                   </label>
                   <input
                     type="range"
@@ -243,6 +283,12 @@ export default function CreativeAnalyzerPage() {
               </>
             )}
           </button>
+
+          <ScenarioWorkspace
+            currentScores={sliderScores}
+            campaignType={campaignType}
+            businessPriorities={businessPriorities}
+          />
         </div>
 
         {/* Results Panel */}
@@ -263,9 +309,16 @@ export default function CreativeAnalyzerPage() {
                 <div className="text-center space-y-4">
                   <h3 className="text-lg font-semibold text-white">Business Effectiveness Score</h3>
                   <div className="text-6xl font-bold text-white">
-                    {analysisResult.analysis.campaignHealth.overallCES.toFixed(1)}
+                    {formatScore(analysisResult.analysis.campaignHealth.overallCES)}
                   </div>
-                  <div className={`text-2xl font-bold ${getGradeColor(analysisResult.analysis.campaignHealth.grade)}`}>
+                  {analysisResult.analysis.uncertainty && (
+                    <div className="text-sm text-gray-400">
+                      {Math.round(analysisResult.analysis.uncertainty.confidenceLevel * 100)}% interval:{' '}
+                      {analysisResult.analysis.uncertainty.totalScore.lower.toFixed(1)} –{' '}
+                      {analysisResult.analysis.uncertainty.totalScore.upper.toFixed(1)}
+                    </div>
+                  )}
+                  <div className={`text-2xl font-bold ${getGradeColor(analysisResult.analysis.campaignHealth.gradeTone)}`}>
                     Grade: {analysisResult.analysis.campaignHealth.grade}
                   </div>
                   <div className="grid grid-cols-2 gap-4 mt-6">
@@ -285,32 +338,35 @@ export default function CreativeAnalyzerPage() {
                 </div>
               </div>
 
-              {/* Business Performance Benchmark */}
+              {/* Benchmark ranking against loaded campaigns */}
               {analysisResult.benchmarks && (
                 <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-6">
                   <h3 className="text-lg font-semibold text-white mb-4 flex items-center">
                     <TrendingUp className="w-5 h-5 mr-2 text-blue-400" />
-                    Business Performance Potential
+                    Benchmark Ranking
                   </h3>
-                  <div className="grid grid-cols-3 gap-4">
-                    <div className="text-center">
-                      <div className="text-xl font-bold text-blue-400">
-                        {analysisResult.benchmarks.businessEfficiencyAlignment}
-                      </div>
-                      <div className="text-xs text-gray-400">Efficiency Score</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-xl font-bold text-green-400">
-                        {analysisResult.benchmarks.conversionAlignment}
-                      </div>
-                      <div className="text-xs text-gray-400">Conversion Score</div>
-                    </div>
-                    <div className="text-center">
-                      <div className="text-xl font-bold text-purple-400">
-                        {analysisResult.benchmarks.overallBusinessPotential}
+                  <div className="space-y-2">
+                    {analysisResult.benchmarks.rankings.map((ranking) => (
+                      <div key={ranking.label} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-300">
+                          {ranking.label}
+                          <span className="text-xs text-gray-500 ml-1">({ranking.sampleSize} campaigns)</span>
+                        </span>
+                        {ranking.insufficientData || ranking.totalScore.percentile === null ? (
+                          <span className="text-xs text-gray-500">Not enough campaigns</span>
+                        ) : (
+                          <span className="text-white font-medium">
+                            {ordinal(Math.round(ranking.totalScore.percentile))} percentile
+                            <span className="text-xs text-gray-400 ml-1">
+                              (median {formatScore(ranking.totalScore.median ?? 0)})
+                            </span>
+                          </span>
+                        )}
                       </div>
-                      <div className="text-xs text-gray-400">Overall Potential</div>
-                    </div>
+                    ))}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-3">
+                    Campaigns scored for {analysisResult.benchmarks.objective}
                   </div>
                 </div>
               )}
@@ -339,6 +395,12 @@ export default function CreativeAnalyzerPage() {
                         <span className="text-sm font-medium text-white w-12">
                           {outcome.currentScore.toFixed(0)}
                         </span>
+                        {analysisResult.analysis.uncertainty?.outcomeValues[outcome.id] && (
+                          <span className="text-xs text-gray-500 w-20">
+                            {analysisResult.analysis.uncertainty.outcomeValues[outcome.id].lower.toFixed(0)}–
+                            {analysisResult.analysis.uncertainty.outcomeValues[outcome.id].upper.toFixed(0)}
+                          </span>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -397,10 +459,65 @@ export default function CreativeAnalyzerPage() {
                   ))}
                 </div>
               </div>
+
+              {/* Sensitivity (tornado) */}
+              {analysisResult.analysis.uncertainty && (
+                <TornadoChart uncertainty={analysisResult.analysis.uncertainty} />
+              )}
             </>
           )}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function CustomBadge() {
+  return (
+    <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-purple-900 text-purple-300">custom</span>
+  );
+}
+
+// Features ranked by how far the score moves across each one's confidence band
+function TornadoChart({ uncertainty }: { uncertainty: ScoreUncertainty }) {
+  const bars = uncertainty.sensitivity.slice(0, 8);
+  const base = uncertainty.totalScore.estimate;
+  const maxDelta = Math.max(
+    ...bars.map(bar => Math.max(Math.abs(bar.lowScore - base), Math.abs(bar.highScore - base))),
+    0.01
+  );
+  const offset = (score: number) => (Math.abs(score - base) / maxDelta) * 50;
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-white mb-1 flex items-center">
+        <BarChart3 className="w-5 h-5 mr-2 text-orange-400" />
+        Score Sensitivity
+      </h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Score when each feature moves across its {Math.round(uncertainty.confidenceLevel * 100)}% band, others held fixed
+      </p>
+      <div className="space-y-2">
+        {bars.map((bar) => (
+          <div key={bar.featureId} className="flex items-center space-x-3">
+            <span className="text-xs text-gray-300 w-40 truncate" title={bar.featureName}>{bar.featureName}</span>
+            <div className="relative flex-1 h-4 bg-gray-700/50 rounded">
+              <div className="absolute top-0 bottom-0 left-1/2 w-px bg-gray-500" />
+              <div
+                className="absolute top-0 bottom-0 bg-red-500/70 rounded-l"
+                style={{ right: '50%', width: `${offset(bar.lowScore)}%` }}
+                title={`${bar.lowInput} → ${bar.lowScore}`}
+              />
+              <div
+                className="absolute top-0 bottom-0 bg-green-500/70 rounded-r"
+                style={{ left: '50%', width: `${offset(bar.highScore)}%` }}
+                title={`${bar.highInput} → ${bar.highScore}`}
+              />
+            </div>
+            <span className="text-xs text-gray-400 w-12 text-right">{bar.swing.toFixed(2)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
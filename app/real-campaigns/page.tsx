@@ -13,49 +13,34 @@ import {
   AlertCircle,
   CheckCircle
 } from 'lucide-react';
+import type {
+  AnalyzedCampaign,
+  AssetAnalysisResponse,
+  BacktestResponse,
+  CampaignDetailResponse,
+  CampaignListResponse,
+  CampaignSummaryResponse
+} from '../../lib/api-schemas';
+import { featureTone, formatScore, scoreTone, type GradeBand } from '../../lib/score-scale';
 
-interface Campaign {
-  campaign_id: string;
-  name: string;
-  brand: string;
-  industry: string;
-  type: string;
-  region: string;
-  budget: number;
-  status: string;
-  analysis?: {
-    businessEffectivenessScore: number;
-    topBusinessOutcome: [string, number];
-    actualPerformance: {
-      roi: number;
-      engagement: number;
-      conversion: number;
-    };
-  };
-  assets: number;
-  performanceRecords: number;
-}
-
-interface DataSummary {
-  totalCampaigns: number;
-  totalCreativeAssets: number;
-  totalPerformanceRecords: number;
-  businessOutcomes: number;
-  businessFeatures: number;
-  industries: string[];
-  regions: string[];
-  brands: string[];
-}
+type Campaign = AnalyzedCampaign;
+type DataSummary = CampaignSummaryResponse['summary'];
+type AssetAnalysis = AssetAnalysisResponse;
+type BacktestReport = BacktestResponse['backtest'];
 
 export default function RealCampaignsPage() {
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [summary, setSummary] = useState<DataSummary | null>(null);
-  const [selectedCampaign, setSelectedCampaign] = useState<any>(null);
+  const [selectedCampaign, setSelectedCampaign] = useState<CampaignDetailResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterIndustry, setFilterIndustry] = useState('');
   const [filterRegion, setFilterRegion] = useState('');
+  const [backtest, setBacktest] = useState<BacktestReport | null>(null);
+  const [backtestLoading, setBacktestLoading] = useState(false);
+  const [selectedAsset, setSelectedAsset] = useState<AssetAnalysis | null>(null);
+  const [assetLoading, setAssetLoading] = useState<string | null>(null);
 
   useEffect(() => {
     loadData();
@@ -67,12 +52,12 @@ export default function RealCampaignsPage() {
       
       // Load summary first
       const summaryResponse = await fetch('/api/campaign-analysis?type=summary');
-      const summaryData = await summaryResponse.json();
+      const summaryData: CampaignSummaryResponse = await summaryResponse.json();
       setSummary(summaryData.summary);
       
       // Load campaigns with analysis
       const campaignsResponse = await fetch('/api/campaign-analysis?limit=50');
-      const campaignsData = await campaignsResponse.json();
+      const campaignsData: CampaignListResponse = await campaignsResponse.json();
       setCampaigns(campaignsData.campaigns);
       
     } catch (err) {
@@ -84,6 +69,7 @@ export default function RealCampaignsPage() {
 
   const analyzeCampaign = async (campaignId: string) => {
     try {
+      setSelectedAsset(null);
       const response = await fetch(`/api/campaign-analysis?campaignId=${campaignId}`);
       const data = await response.json();
       setSelectedCampaign(data);
@@ -92,15 +78,69 @@ export default function RealCampaignsPage() {
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 7) return 'text-green-400';
-    if (score >= 5) return 'text-yellow-400';
+  const analyzeAsset = async (assetId: string) => {
+    try {
+      setAssetLoading(assetId);
+      const response = await fetch(`/api/assets/${encodeURIComponent(assetId)}/analysis`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze asset');
+      }
+      setSelectedAsset(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze asset');
+    } finally {
+      setAssetLoading(null);
+    }
+  };
+
+  const closeCampaign = () => {
+    setSelectedCampaign(null);
+    setSelectedAsset(null);
+  };
+
+  const runBacktest = async () => {
+    try {
+      setBacktestLoading(true);
+      const response = await fetch('/api/campaign-analysis/backtest');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run backtest');
+      }
+      setBacktest(data.backtest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run backtest');
+    } finally {
+      setBacktestLoading(false);
+    }
+  };
+
+  const getCorrelationColor = (rho: number) => {
+    if (rho >= 0.5) return 'text-green-400';
+    if (rho >= 0.2) return 'text-yellow-400';
+    return 'text-red-400';
+  };
+
+  // Colour by the grade band the API assigned, or the default bands on the CES scale
+  const getScoreColor = (score: number, grade?: GradeBand) => {
+    const tone = grade?.tone ?? scoreTone(score);
+    if (tone === 'strong') return 'text-green-400';
+    if (tone === 'moderate') return 'text-yellow-400';
     return 'text-red-400';
   };
 
-  const getScoreBackground = (score: number) => {
-    if (score >= 7) return 'bg-green-900/20 border-green-700';
-    if (score >= 5) return 'bg-yellow-900/20 border-yellow-700';
+  // Feature scores are on 0-10, not the CES scale
+  const getFeatureScoreColor = (score: number) => {
+    const tone = featureTone(score);
+    if (tone === 'strong') return 'text-green-400';
+    if (tone === 'moderate') return 'text-yellow-400';
+    return 'text-red-400';
+  };
+
+  const getScoreBackground = (score: number, grade?: GradeBand) => {
+    const tone = grade?.tone ?? scoreTone(score);
+    if (tone === 'strong') return 'bg-green-900/20 border-green-700';
+    if (tone === 'moderate') return 'bg-yellow-900/20 border-yellow-700';
     return 'bg-red-900/20 border-red-700';
   };
 
@@ -170,6 +210,101 @@ export default function RealCampaignsPage() {
         </div>
       )}
 
+      {/* Backtest: does the CES score predict actual business results? */}
+      <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <TrendingUp className="w-5 h-5 text-blue-400" />
+            <h2 className="text-2xl font-semibold text-white">Prediction Backtest</h2>
+          </div>
+          <button
+            onClick={runBacktest}
+            disabled={backtestLoading}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+          >
+            {backtestLoading ? 'Running...' : backtest ? 'Re-run Backtest' : 'Run Backtest'}
+          </button>
+        </div>
+
+        {!backtest && !backtestLoading && (
+          <p className="text-sm text-gray-400">
+            Compare predicted outcome scores with actual campaign performance across all campaigns.
+          </p>
+        )}
+
+        {backtest && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className={`text-2xl font-bold ${getCorrelationColor(backtest.summary.scoreRankCorrelation)}`}>
+                  {backtest.summary.scoreRankCorrelation.toFixed(2)}
+                </div>
+                <div className="text-sm text-gray-400">CES Score Rank Correlation</div>
+              </div>
+              <div>
+                <div className={`text-2xl font-bold ${getCorrelationColor(backtest.summary.meanRankCorrelation)}`}>
+                  {backtest.summary.meanRankCorrelation.toFixed(2)}
+                </div>
+                <div className="text-sm text-gray-400">Mean Outcome Correlation</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-purple-400">
+                  {(backtest.summary.meanRelativeMae * 100).toFixed(1)}%
+                </div>
+                <div className="text-sm text-gray-400">Mean Relative Error</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-white">{backtest.samples}</div>
+                <div className="text-sm text-gray-400">
+                  Campaigns · weights {backtest.weightSetVersion}
+                </div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Outcome</th>
+                    <th className="py-2 pr-4 font-medium text-right">MAE</th>
+                    <th className="py-2 pr-4 font-medium text-right">Relative</th>
+                    <th className="py-2 pr-4 font-medium text-right">Rank Corr.</th>
+                    <th className="py-2 font-medium">Calibration (predicted → actual by bucket)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {backtest.outcomes.map(outcome => {
+                    const maxActual = Math.max(...outcome.buckets.map(b => b.meanActual), 1);
+                    return (
+                      <tr key={outcome.outcome} className="border-b border-gray-800">
+                        <td className="py-2 pr-4 text-gray-300 capitalize">{outcome.outcome.replace(/_/g, ' ')}</td>
+                        <td className="py-2 pr-4 text-right text-white">{outcome.mae.toFixed(2)}</td>
+                        <td className="py-2 pr-4 text-right text-white">{(outcome.relativeMae * 100).toFixed(1)}%</td>
+                        <td className={`py-2 pr-4 text-right font-medium ${getCorrelationColor(outcome.rankCorrelation)}`}>
+                          {outcome.rankCorrelation.toFixed(2)}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex items-end space-x-1 h-8">
+                            {outcome.buckets.map(bucket => (
+                              <div
+                                key={bucket.bucket}
+                                className="w-4 bg-blue-500 rounded-t"
+                                style={{ height: `${Math.max(4, (bucket.meanActual / maxActual) * 100)}%` }}
+                                title={`Bucket ${bucket.bucket}: predicted ${bucket.meanPredicted.toFixed(1)}, actual ${bucket.meanActual.toFixed(1)} (${bucket.samples} campaigns)`}
+                              ></div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
       {/* Filters */}
       <div className="flex flex-wrap gap-4 items-center">
         <div className="flex-1 min-w-64">
@@ -249,7 +384,9 @@ export default function RealCampaignsPage() {
                         </div>
                         <div>
                           <span className="text-gray-400">Budget:</span>
-                          <span className="text-white ml-2">${campaign.budget.toLocaleString()}</span>
+                          <span className="text-white ml-2">
+                            {campaign.budget !== undefined ? `$${campaign.budget.toLocaleString()}` : '—'}
+                          </span>
                         </div>
                       </div>
                       
@@ -267,8 +404,8 @@ export default function RealCampaignsPage() {
                     
                     {campaign.analysis && (
                       <div className="text-right">
-                        <div className={`text-3xl font-bold ${getScoreColor(campaign.analysis.businessEffectivenessScore)}`}>
-                          {campaign.analysis.businessEffectivenessScore.toFixed(1)}
+                        <div className={`text-3xl font-bold ${getScoreColor(campaign.analysis.businessEffectivenessScore, campaign.analysis.grade)}`}>
+                          {formatScore(campaign.analysis.businessEffectivenessScore)}
                         </div>
                         <div className="text-sm text-gray-400">Business Score</div>
                         
@@ -312,7 +449,7 @@ export default function RealCampaignsPage() {
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-2xl font-bold text-white">{selectedCampaign.campaign.name}</h3>
                 <button
-                  onClick={() => setSelectedCampaign(null)}
+                  onClick={closeCampaign}
                   className="text-gray-400 hover:text-white"
                 >
                   ✕
@@ -322,12 +459,15 @@ export default function RealCampaignsPage() {
               <div className="grid md:grid-cols-2 gap-6">
                 <div>
                   <h4 className="text-lg font-semibold text-white mb-4">Business Effectiveness Analysis</h4>
-                  <div className={`border rounded-lg p-4 ${getScoreBackground(selectedCampaign.analysis.businessEffectivenessScore)}`}>
+                  <div className={`border rounded-lg p-4 ${getScoreBackground(selectedCampaign.analysis.businessEffectivenessScore, selectedCampaign.analysis.grade)}`}>
                     <div className="text-center">
-                      <div className={`text-4xl font-bold ${getScoreColor(selectedCampaign.analysis.businessEffectivenessScore)}`}>
-                        {selectedCampaign.analysis.businessEffectivenessScore.toFixed(1)}
+                      <div className={`text-4xl font-bold ${getScoreColor(selectedCampaign.analysis.businessEffectivenessScore, selectedCampaign.analysis.grade)}`}>
+                        {formatScore(selectedCampaign.analysis.businessEffectivenessScore)}
+                      </div>
+                      <div className="text-gray-400">
+                        Business Effectiveness Score
+                        {selectedCampaign.analysis.grade && ` · Grade ${selectedCampaign.analysis.grade.grade}`}
                       </div>
-                      <div className="text-gray-400">Business Effectiveness Score</div>
                     </div>
                   </div>
                   
@@ -346,24 +486,27 @@ export default function RealCampaignsPage() {
                 <div>
                   <h4 className="text-lg font-semibold text-white mb-4">Business Outcomes</h4>
                   <div className="space-y-3">
-                    {Object.entries(selectedCampaign.analysis.predictedOutcomes).map(([outcome, score]) => (
-                      <div key={outcome} className="flex items-center justify-between">
-                        <span className="text-sm text-gray-300 capitalize">
-                          {outcome.replace(/_/g, ' ')}
-                        </span>
-                        <div className="flex items-center space-x-2">
-                          <div className="w-20 bg-gray-700 rounded-full h-2">
-                            <div
-                              className="h-2 rounded-full bg-blue-500"
-                              style={{ width: `${Math.min(100, (score as number / 100) * 100)}%` }}
-                            ></div>
-                          </div>
-                          <span className="text-sm font-medium text-white w-12">
-                            {(score as number).toFixed(0)}
+                    {Object.entries(selectedCampaign.analysis.predictedOutcomes).map(([outcome, value]) => {
+                      const target = selectedCampaign.analysis.outcomeTargets[outcome];
+                      return (
+                        <div key={outcome} className="flex items-center justify-between">
+                          <span className="text-sm text-gray-300 capitalize">
+                            {outcome.replace(/_/g, ' ')}
                           </span>
+                          <div className="flex items-center space-x-2">
+                            <div className="w-20 bg-gray-700 rounded-full h-2">
+                              <div
+                                className="h-2 rounded-full bg-blue-500"
+                                style={{ width: `${target > 0 ? Math.min(100, (value / target) * 100) : 0}%` }}
+                              ></div>
+                            </div>
+                            <span className="text-sm font-medium text-white w-20" title="Predicted value / target">
+                              {value.toFixed(1)}/{target}
+                            </span>
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                   
                   {selectedCampaign.analysis.actualOutcomes && Object.keys(selectedCampaign.analysis.actualOutcomes).length > 0 && (
@@ -381,6 +524,116 @@ export default function RealCampaignsPage() {
                   )}
                 </div>
               </div>
+
+              {selectedCampaign.analysis.assetBreakdown?.length > 0 && (
+                <div className="mt-8">
+                  <h4 className="text-lg font-semibold text-white mb-4">
+                    Creative Assets ({selectedCampaign.analysis.assetBreakdown.length})
+                  </h4>
+                  <div className="space-y-2">
+                    {selectedCampaign.analysis.assetBreakdown.map(asset => (
+                      <button
+                        key={asset.assetId}
+                        onClick={() => analyzeAsset(asset.assetId)}
+                        className={`w-full flex items-center justify-between text-left rounded-lg border p-3 transition-colors ${
+                          selectedAsset?.asset.asset_id === asset.assetId
+                            ? 'border-purple-500 bg-purple-900/20'
+                            : 'border-gray-700 bg-gray-800 hover:border-gray-500'
+                        }`}
+                      >
+                        <div>
+                          <div className="text-sm font-medium text-white">{asset.name || asset.assetId}</div>
+                          <div className="text-xs text-gray-400">
+                            Weight in campaign score: {(asset.weight * 100).toFixed(0)}%
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-3">
+                          {assetLoading === asset.assetId && (
+                            <div className="w-4 h-4 border-2 border-purple-400 border-t-transparent rounded-full animate-spin"></div>
+                          )}
+                          <span className={`text-xl font-bold ${getScoreColor(asset.totalScore)}`}>
+                            {formatScore(asset.totalScore)}
+                          </span>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+
+                  {selectedAsset && (
+                    <div className="mt-6 border border-gray-700 rounded-lg p-4 space-y-6">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h5 className="font-semibold text-white">
+                            {selectedAsset.asset.name || selectedAsset.asset.asset_id}
+                          </h5>
+                          <div className="text-xs text-gray-400">
+                            {[selectedAsset.asset.format, selectedAsset.asset.dimensions].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        <div className={`text-3xl font-bold ${getScoreColor(selectedAsset.analysis.businessEffectivenessScore, selectedAsset.analysis.grade)}`}>
+                          {formatScore(selectedAsset.analysis.businessEffectivenessScore)}
+                        </div>
+                      </div>
+
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-400 border-b border-gray-700">
+                              <th className="py-2 pr-4 font-medium">Feature</th>
+                              <th className="py-2 pr-4 font-medium text-right">Score</th>
+                              <th className="py-2 pr-4 font-medium">Derived From</th>
+                              <th className="py-2 font-medium">Rule</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {selectedAsset.analysis.derivation.map(feature => (
+                              <tr key={feature.featureId} className="border-b border-gray-800">
+                                <td className="py-2 pr-4 text-gray-300">{feature.featureName}</td>
+                                <td className={`py-2 pr-4 text-right font-medium ${getFeatureScoreColor(feature.score)}`}>
+                                  {feature.score.toFixed(1)}
+                                </td>
+                                <td className="py-2 pr-4 text-gray-400">
+                                  {feature.sourceFields.length > 0
+                                    ? feature.sourceFields.map(field => `${field} = ${String(feature.sourceValues[field] ?? '—')}`).join(', ')
+                                    : '—'}
+                                </td>
+                                <td className="py-2 text-gray-500">
+                                  {feature.rule}
+                                  <span className="ml-2 text-xs text-purple-400">fired: {feature.matched}</span>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      <div className="grid md:grid-cols-2 gap-6">
+                        <div>
+                          <h5 className="font-semibold text-white mb-2">Outcome Breakdown</h5>
+                          <div className="space-y-1">
+                            {Object.entries(selectedAsset.analysis.outcomeBreakdown).map(([outcome, score]) => (
+                              <div key={outcome} className="flex justify-between text-sm">
+                                <span className="text-gray-300 capitalize">{outcome.replace(/_/g, ' ')}</span>
+                                <span className="text-blue-400">{score.toFixed(0)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                        <div>
+                          <h5 className="font-semibold text-white mb-2">Recommendations</h5>
+                          <div className="space-y-2">
+                            {selectedAsset.analysis.recommendations.map((rec, index) => (
+                              <div key={index} className="text-sm text-gray-300 bg-gray-800 rounded p-3">
+                                {rec}
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </div>
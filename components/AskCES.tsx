@@ -98,7 +98,7 @@ export default function AskCES({
           </Badge>
         </CardTitle>
         <p className="text-sm text-gray-600">
-          TBWA's Creative Effectiveness System AI Assistant
+          TBWA&apos;s Creative Effectiveness System AI Assistant
         </p>
       </CardHeader>
       
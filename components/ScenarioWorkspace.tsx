@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Layers, Pin, Trash2 } from 'lucide-react';
+import { formatScore } from '../lib/score-scale';
+
+interface SavedScenario {
+  name: string;
+  deltas: Record<string, number>;
+}
+
+interface ScenarioOutcome {
+  outcomeId: string;
+  name: string;
+  score: number;
+  diff: number;
+  crossings: Array<'reached_target' | 'lost_target' | 'above_threshold' | 'below_threshold'>;
+}
+
+interface ScenarioResult {
+  name: string;
+  totalScore: number;
+  totalDiff: number;
+  outcomes: ScenarioOutcome[];
+}
+
+interface ScenarioWorkspaceProps {
+  currentScores: Record<string, number>;
+  campaignType: string;
+  businessPriorities: Record<string, number>;
+}
+
+const STORAGE_KEY = 'ces-creative-scenarios';
+const MAX_COMPARED = 4;
+
+const CROSSING_LABELS: Record<ScenarioOutcome['crossings'][number], { label: string; className: string }> = {
+  reached_target: { label: 'target ✓', className: 'bg-green-900 text-green-300' },
+  lost_target: { label: 'target ✗', className: 'bg-red-900 text-red-300' },
+  above_threshold: { label: 'threshold ✓', className: 'bg-blue-900 text-blue-300' },
+  below_threshold: { label: 'threshold ✗', className: 'bg-yellow-900 text-yellow-300' }
+};
+
+const isScoreMap = (value: unknown): value is Record<string, number> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  Object.values(value).every(score => typeof score === 'number' && Number.isFinite(score));
+
+// The stored workspace, or null when it is missing, corrupt or from an older format
+function readStoredWorkspace(): { baseline: Record<string, number> | null; scenarios: SavedScenario[] } | null {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    if (typeof parsed === 'object' && parsed !== null) {
+      const { baseline = null, scenarios = [] } = parsed as { baseline?: unknown; scenarios?: unknown };
+      const validScenarios = Array.isArray(scenarios) && scenarios.every(s =>
+        typeof s?.name === 'string' && isScoreMap(s?.deltas)
+      );
+      if ((baseline === null || isScoreMap(baseline)) && validScenarios) {
+        return { baseline, scenarios: scenarios as SavedScenario[] };
+      }
+    }
+  } catch {
+    // Falls through to clearing the entry
+  }
+  window.localStorage.removeItem(STORAGE_KEY);
+  return null;
+}
+
+// Saved what-if scenarios: deltas against a pinned baseline, kept in localStorage
+export function ScenarioWorkspace({ currentScores, campaignType, businessPriorities }: ScenarioWorkspaceProps) {
+  const [baseline, setBaseline] = useState<Record<string, number> | null>(null);
+  const [scenarios, setScenarios] = useState<SavedScenario[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [results, setResults] = useState<{ baseline: ScenarioResult; scenarios: ScenarioResult[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const stored = readStoredWorkspace();
+    if (stored) {
+      setBaseline(stored.baseline);
+      setScenarios(stored.scenarios);
+    }
+  }, []);
+
+  const persist = (nextBaseline: Record<string, number> | null, nextScenarios: SavedScenario[]) => {
+    setBaseline(nextBaseline);
+    setScenarios(nextScenarios);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ baseline: nextBaseline, scenarios: nextScenarios }));
+  };
+
+  const pinBaseline = () => {
+    persist({ ...currentScores }, scenarios);
+    setResults(null);
+  };
+
+  const saveScenario = () => {
+    const base = baseline ?? { ...currentScores };
+    const deltas = Object.fromEntries(
+      Object.entries(currentScores)
+        .map(([featureId, score]) => [featureId, score - (base[featureId] ?? 0)])
+        .filter(([, delta]) => delta !== 0)
+    );
+    const scenarioName = name.trim() || `Scenario ${scenarios.length + 1}`;
+    persist(base, [...scenarios.filter(s => s.name !== scenarioName), { name: scenarioName, deltas }]);
+    setName('');
+  };
+
+  const deleteScenario = (scenarioName: string) => {
+    persist(baseline, scenarios.filter(s => s.name !== scenarioName));
+    setSelected(prev => prev.filter(n => n !== scenarioName));
+  };
+
+  const toggleSelected = (scenarioName: string) => {
+    setSelected(prev =>
+      prev.includes(scenarioName)
+        ? prev.filter(n => n !== scenarioName)
+        : prev.length < MAX_COMPARED ? [...prev, scenarioName] : prev
+    );
+  };
+
+  const compare = async () => {
+    setError(null);
+    try {
+      const response = await fetch('/api/creative-analysis/scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          creativeScores: baseline,
+          scenarios: scenarios.filter(s => selected.includes(s.name)),
+          campaignType,
+          businessPriorities
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Scenario comparison failed');
+      }
+      setResults(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scenario comparison failed');
+    }
+  };
+
+  const diffClass = (diff: number) => (diff > 0 ? 'text-green-400' : diff < 0 ? 'text-red-400' : 'text-gray-500');
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-lg p-6 space-y-4">
+      <h3 className="text-lg font-semibold text-white flex items-center">
+        <Layers className="w-5 h-5 mr-2 text-blue-400" />
+        Scenario Workspace
+      </h3>
+
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={pinBaseline}
+          className="flex items-center space-x-1 px-3 py-2 rounded bg-gray-700 text-sm text-gray-200 hover:bg-gray-600"
+        >
+          <Pin className="w-4 h-4" />
+          <span>{baseline ? 'Re-pin baseline' : 'Pin baseline'}</span>
+        </button>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Scenario name"
+          className="flex-1 bg-gray-700 text-white text-sm rounded px-3 py-2"
+        />
+        <button
+          onClick={saveScenario}
+          className="px-3 py-2 rounded bg-blue-600 text-sm text-white hover:bg-blue-700"
+        >
+          Save current sliders
+        </button>
+      </div>
+
+      {scenarios.length > 0 && (
+        <div className="space-y-2">
+          {scenarios.map((scenario) => (
+            <div key={scenario.name} className="flex items-center justify-between text-sm">
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(scenario.name)}
+                  onChange={() => toggleSelected(scenario.name)}
+                  disabled={!selected.includes(scenario.name) && selected.length >= MAX_COMPARED}
+                />
+                <span>{scenario.name}</span>
+                <span className="text-xs text-gray-500">
+                  {Object.keys(scenario.deltas).length} change{Object.keys(scenario.deltas).length === 1 ? '' : 's'}
+                </span>
+              </label>
+              <button onClick={() => deleteScenario(scenario.name)} className="text-gray-500 hover:text-red-400">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={compare}
+            disabled={!baseline || selected.length === 0}
+            className="w-full py-2 rounded bg-purple-600 text-sm text-white hover:bg-purple-700 disabled:bg-gray-700"
+          >
+            Compare {selected.length} of up to {MAX_COMPARED}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-400">{error}</div>}
+
+      {results && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left py-1">Outcome</th>
+                <th className="text-right py-1">Baseline</th>
+                {results.scenarios.map((scenario) => (
+                  <th key={scenario.name} className="text-right py-1">{scenario.name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t border-gray-700 text-white font-medium">
+                <td className="py-1">Total score</td>
+                <td className="text-right py-1">{formatScore(results.baseline.totalScore)}</td>
+                {results.scenarios.map((scenario) => (
+                  <td key={scenario.name} className="text-right py-1">
+                    {formatScore(scenario.totalScore)}{' '}
+                    <span className={diffClass(scenario.totalDiff)}>
+                      ({scenario.totalDiff > 0 ? '+' : ''}{scenario.totalDiff.toFixed(1)})
+                    </span>
+                  </td>
+                ))}
+              </tr>
+              {results.baseline.outcomes.map((outcome, row) => (
+                <tr key={outcome.outcomeId} className="border-t border-gray-700 text-gray-300">
+                  <td className="py-1">{outcome.name}</td>
+                  <td className="text-right py-1">{outcome.score.toFixed(1)}</td>
+                  {results.scenarios.map((scenario) => {
+                    const cell = scenario.outcomes[row];
+                    return (
+                      <td key={scenario.name} className="text-right py-1">
+                        {cell.score.toFixed(1)}{' '}
+                        <span className={diffClass(cell.diff)}>
+                          ({cell.diff > 0 ? '+' : ''}{cell.diff.toFixed(1)})
+                        </span>
+                        {cell.crossings.map((crossing) => (
+                          <span key={crossing} className={`ml-1 px-1 rounded ${CROSSING_LABELS[crossing].className}`}>
+                            {CROSSING_LABELS[crossing].label}
+                          </span>
+                        ))}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
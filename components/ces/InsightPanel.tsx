@@ -1,18 +1,18 @@
 'use client';
 
 import { useState } from 'react';
+import type { AskCESBusinessScore } from '../../lib/api-schemas';
+import { formatScore } from '../../lib/score-scale';
 
 interface InsightPanelProps {
   response: string;
   role: string;
-  businessScore?: {
-    totalScore: number;
-    topOutcome: [string, number];
-  };
+  businessScore?: AskCESBusinessScore | null;
   timestamp: string;
+  isStreaming?: boolean;
 }
 
-export function InsightPanel({ response, role, businessScore, timestamp }: InsightPanelProps) {
+export function InsightPanel({ response, role, businessScore, timestamp, isStreaming = false }: InsightPanelProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const getRoleIcon = (role: string) => {
@@ -91,12 +91,29 @@ export function InsightPanel({ response, role, businessScore, timestamp }: Insig
                 Business Effectiveness Score
               </span>
               <span className="text-lg font-bold text-blue-600">
-                {businessScore.totalScore.toFixed(1)}/100
+                {formatScore(businessScore.totalScore)}
               </span>
             </div>
             <div className="text-xs text-blue-600 mt-1">
               Top Outcome: {businessScore.topOutcome[0]} ({businessScore.topOutcome[1].toFixed(1)})
             </div>
+            {businessScore.campaigns && businessScore.campaigns.length > 1 && (
+              <ul className="mt-2 space-y-1 border-t border-blue-100 pt-2">
+                {businessScore.campaigns.map(campaign => (
+                  <li key={campaign.campaignId} className="flex items-center justify-between text-xs text-blue-700">
+                    <span>
+                      {campaign.campaignName} <span className="text-blue-500">({campaign.brand})</span>
+                    </span>
+                    <span className="font-medium">{formatScore(campaign.totalScore)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {businessScore.campaigns?.length === 1 && (
+              <div className="text-xs text-blue-500 mt-1">
+                {businessScore.campaigns[0].campaignName} · {businessScore.campaigns[0].assetsAnalyzed} creative asset(s) analyzed
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -137,10 +154,19 @@ export function InsightPanel({ response, role, businessScore, timestamp }: Insig
           </div>
         ) : (
           <div className="prose prose-sm max-w-none">
-            <p className="text-gray-700 leading-relaxed">{response}</p>
+            <p className="text-gray-700 leading-relaxed">
+              {response}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-1 align-middle bg-blue-500 animate-pulse"></span>
+              )}
+            </p>
           </div>
         )}
 
+        {isStreaming && sections.length > 1 && (
+          <span className="inline-block w-2 h-4 mt-2 bg-blue-500 animate-pulse"></span>
+        )}
+
         {response.length > 500 && (
           <button
             onClick={() => setIsExpanded(!isExpanded)}
@@ -155,8 +181,8 @@ export function InsightPanel({ response, role, businessScore, timestamp }: Insig
         <div className="flex items-center justify-between text-xs text-gray-500">
           <span>Powered by Ask CES v3.0.0</span>
           <div className="flex items-center space-x-2">
-            <span className="w-2 h-2 bg-green-400 rounded-full"></span>
-            <span>Live Data</span>
+            <span className={`w-2 h-2 rounded-full ${isStreaming ? 'bg-blue-400 animate-pulse' : 'bg-green-400'}`}></span>
+            <span>{isStreaming ? 'Streaming...' : 'Live Data'}</span>
           </div>
         </div>
       </div>
@@ -4,11 +4,12 @@ import { useState, KeyboardEvent } from 'react';
 
 interface QueryInputProps {
   onSubmit: (query: string) => void;
+  onCancel?: () => void;
   isLoading: boolean;
   placeholder?: string;
 }
 
-export function QueryInput({ onSubmit, isLoading, placeholder = "Ask me anything about campaign effectiveness..." }: QueryInputProps) {
+export function QueryInput({ onSubmit, onCancel, isLoading, placeholder = "Ask me anything about campaign effectiveness..." }: QueryInputProps) {
   const [query, setQuery] = useState('');
 
   const handleSubmit = () => {
@@ -42,6 +43,15 @@ export function QueryInput({ onSubmit, isLoading, placeholder = "Ask me anything
         </div>
       </div>
       
+      {isLoading && onCancel && (
+        <button
+          onClick={onCancel}
+          className="px-4 py-3 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+        >
+          Cancel
+        </button>
+      )}
+
       <button
         onClick={handleSubmit}
         disabled={!query.trim() || isLoading}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { detectSeriesAnomalies, seasonalDecompositionModel, severityFor, zScoreModel } from '../anomaly-detection';
+
+// Four weeks of a weekday/weekend pattern
+const weekly = [10, 12, 11, 13, 12, 30, 32];
+const seasonalSeries = Array.from({ length: 28 }, (_, i) => weekly[i % 7]);
+
+const thresholds = { high: 2.5, medium: 1.5, low: 1.0 };
+
+describe('seasonalDecompositionModel', () => {
+  it('needs at least two full seasons', () => {
+    const series = seasonalSeries.map((value, i) => (i === 8 ? value + 10 : value));
+    expect(seasonalDecompositionModel(series.slice(0, 13), 7)).toBeNull();
+    expect(seasonalDecompositionModel(series, 1)).toBeNull();
+    expect(seasonalDecompositionModel(series.slice(0, 14), 7)).toHaveLength(14);
+  });
+
+  it('returns null when the season explains the series exactly', () => {
+    expect(seasonalDecompositionModel(seasonalSeries, 7)).toBeNull();
+  });
+
+  it('expects the weekly pattern, so a regular weekend peak is not scored as unusual', () => {
+    const series = [...seasonalSeries];
+    series[17] += 15; // a spike on a weekday
+    const scores = seasonalDecompositionModel(series, 7)!;
+
+    expect(scores).toHaveLength(series.length);
+    const peak = scores.reduce((max, score, i) => (Math.abs(score.zScore) > Math.abs(scores[max].zScore) ? i : max), 0);
+    expect(peak).toBe(17);
+    expect(severityFor(scores[17].zScore, thresholds)).toBe('high');
+    // Weekend days sit near their expected values
+    expect(Math.abs(series[19] - scores[19].expected)).toBeLessThan(5);
+  });
+
+  it('handles an even season length with the 2xm moving average', () => {
+    const series = Array.from({ length: 16 }, (_, i): number => (i % 4 === 0 ? 20 : 10));
+    series[9] = 25;
+    const scores = seasonalDecompositionModel(series, 4)!;
+    expect(scores[9].zScore).toBeGreaterThan(0);
+    expect(Math.abs(scores[9].zScore)).toBe(Math.max(...scores.map(score => Math.abs(score.zScore))));
+  });
+});
+
+describe('detectSeriesAnomalies', () => {
+  const days = (values: number[]) => values.map((value, i) => ({ date: `2025-06-${String(i + 1).padStart(2, '0')}`, value }));
+
+  it('flags the weekend peaks by z-score but not by seasonal decomposition', () => {
+    const settings = { thresholds, sensitivity: 'medium' as const, seasonLength: 7 };
+    const zOnly = detectSeriesAnomalies('clicks', days(seasonalSeries), { ...settings, methods: ['z_score'] });
+    const seasonal = detectSeriesAnomalies('clicks', days(seasonalSeries), { ...settings, methods: ['seasonal_decomposition'] });
+
+    expect(zOnly.length).toBeGreaterThan(0);
+    expect(seasonal).toEqual([]);
+  });
+
+  it('reports a day flagged by both methods once, under the higher score', () => {
+    const series = [...seasonalSeries];
+    series[17] += 40;
+    const anomalies = detectSeriesAnomalies('clicks', days(series), {
+      methods: ['z_score', 'seasonal_decomposition'],
+      thresholds,
+      sensitivity: 'high',
+      seasonLength: 7
+    });
+    const spike = anomalies.filter(anomaly => anomaly.date === '2025-06-18');
+
+    expect(spike).toHaveLength(1);
+    expect(spike[0].detectedBy.sort()).toEqual(['seasonal_decomposition', 'z_score']);
+    expect(spike[0].actual).toBe(series[17]);
+  });
+});
+
+describe('zScoreModel', () => {
+  it('returns null for a constant series', () => {
+    expect(zScoreModel([4, 4, 4, 4])).toBeNull();
+  });
+});
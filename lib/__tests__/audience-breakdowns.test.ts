@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { performanceLabel, proportionZScore, summarizeBreakdown, type BreakdownDefinition } from '../audience-breakdowns';
+
+describe('proportionZScore', () => {
+  it('scores a segment rate in standard errors of the overall rate', () => {
+    // 30% against 20% over 100 trials: 0.1 / sqrt(0.2 * 0.8 / 100)
+    expect(proportionZScore(30, 100, 0.2)).toBeCloseTo(2.5, 10);
+    expect(proportionZScore(10, 100, 0.2)).toBeCloseTo(-2.5, 10);
+    expect(proportionZScore(20, 100, 0.2)).toBe(0);
+  });
+
+  it('grows with the number of trials at the same rate', () => {
+    expect(proportionZScore(300, 1000, 0.2)!).toBeCloseTo(2.5 * Math.sqrt(10), 10);
+  });
+
+  it('returns null without trials or with a degenerate overall rate', () => {
+    expect(proportionZScore(0, 0, 0.2)).toBeNull();
+    expect(proportionZScore(0, 100, 0)).toBeNull();
+    expect(proportionZScore(100, 100, 1)).toBeNull();
+  });
+});
+
+describe('performanceLabel', () => {
+  it('labels against the configured level and 0.99', () => {
+    expect(performanceLabel(2.7, 0.95)).toBe('excellent');
+    expect(performanceLabel(2.0, 0.95)).toBe('above_average');
+    expect(performanceLabel(1.5, 0.95)).toBe('average');
+    expect(performanceLabel(-2.0, 0.95)).toBe('below_average');
+    expect(performanceLabel(-2.7, 0.95)).toBe('poor');
+    expect(performanceLabel(null, 0.95)).toBe('average');
+  });
+});
+
+describe('summarizeBreakdown', () => {
+  const definition: BreakdownDefinition = { name: 'device', metadataKey: 'device', performanceMetric: 'ctr', limit: 2 };
+  const segment = (name: string, impressions: number, clicks: number) => ({
+    segment: name, impressions, clicks, conversions: 0, spend: 0, ctr: (clicks / impressions) * 100, conversion_rate: 0, roi: 0
+  });
+
+  it('keeps the largest segments and labels them against the pooled rate', () => {
+    const summary = summarizeBreakdown(definition, [
+      segment('tablet', 1000, 20),
+      segment('mobile', 6000, 180),
+      segment('desktop', 3000, 30)
+    ], 0.95);
+
+    expect(summary.map(s => s.segment)).toEqual(['mobile', 'desktop']);
+    expect(summary[0].share).toBe(60);
+    // Pooled CTR over all three segments is 2.3%
+    expect(summary[0].zScore).toBeCloseTo(proportionZScore(180, 6000, 230 / 10000)!, 2);
+    expect(summary[0].performance).toBe('excellent');
+    expect(summary[1].performance).toBe('poor');
+  });
+});
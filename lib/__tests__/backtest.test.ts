@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { businessEngine } from '../business-outcome-engine';
+import type { CampaignDataset, CampaignRecord, CreativeAssetRecord, PerformanceMetricRecord } from '../campaign-data';
+import { calibrationBuckets, rank, rankCorrelation, runBacktest } from '../backtest';
+
+const campaign = (id: string, campaignType: string): CampaignRecord => ({
+  campaign_id: id,
+  name: `Campaign ${id}`,
+  brand: 'Brand',
+  industry: 'Retail',
+  region: 'PH',
+  campaign_type: campaignType
+});
+
+const asset = (campaignId: string, quality: number): CreativeAssetRecord => ({
+  asset_id: `asset-${campaignId}`,
+  campaign_id: campaignId,
+  text_readability: quality,
+  performance_score: quality,
+  visual_distinctness: quality,
+  color_harmony: quality,
+  emotional_trigger: 'Excitement',
+  dimensions: '1080x1080'
+});
+
+const metrics = (campaignId: string, level: number): PerformanceMetricRecord => ({
+  metric_id: `metric-${campaignId}`,
+  campaign_id: campaignId,
+  date: '2025-06-01',
+  roi: level * 3,
+  brand_recall: level * 50,
+  engagement_rate: level * 8,
+  reach: 100000,
+  impressions: 200000,
+  clicks: 4000,
+  ctr: level * 3,
+  conversion_rate: level * 5,
+  cost_per_acquisition: 40,
+  sentiment_score: level * 0.8,
+  video_completion_rate: level * 70,
+  share_rate: 1,
+  save_rate: 1,
+  tenant_id: 'ces'
+});
+
+// Creative quality and observed performance rise together
+const QUALITIES = [0.35, 0.45, 0.55, 0.65, 0.75, 0.85];
+
+function dataset(campaignTypes: string[]): CampaignDataset {
+  const ids = QUALITIES.map((_, i) => `c${i + 1}`);
+  return {
+    campaigns: ids.map((id, i) => campaign(id, campaignTypes[i % campaignTypes.length])),
+    creativeAssets: ids.map((id, i) => asset(id, QUALITIES[i])),
+    performanceMetrics: ids.map((id, i) => metrics(id, QUALITIES[i])),
+    source: 'test',
+    loadedAt: '2025-06-01T00:00:00.000Z'
+  };
+}
+
+describe('runBacktest', () => {
+  it('predicts the same outcomes whatever the campaign type', () => {
+    const asConversion = runBacktest(dataset(['conversion']), businessEngine);
+    const mixed = runBacktest(dataset(['brand_awareness', 'engagement', 'lead_generation']), businessEngine);
+
+    expect(mixed.campaigns.map(c => c.objective)).not.toEqual(asConversion.campaigns.map(c => c.objective));
+    expect(mixed.campaigns.map(c => c.predicted)).toEqual(asConversion.campaigns.map(c => c.predicted));
+    expect(mixed.outcomes).toEqual(asConversion.outcomes);
+    expect(mixed.summary.meanRankCorrelation).toBe(asConversion.summary.meanRankCorrelation);
+    expect(mixed.summary.meanRelativeMae).toBe(asConversion.summary.meanRelativeMae);
+  });
+});
+
+describe('rank', () => {
+  it('gives ties their average rank', () => {
+    expect(rank([10, 30, 20, 30, 5])).toEqual([2, 4.5, 3, 4.5, 1]);
+  });
+});
+
+describe('rankCorrelation', () => {
+  it('is 1 for any increasing relation and -1 for a decreasing one', () => {
+    expect(rankCorrelation([1, 2, 3, 4], [1, 8, 27, 64])).toBeCloseTo(1, 10);
+    expect(rankCorrelation([1, 2, 3, 4], [9, 7, 3, 1])).toBeCloseTo(-1, 10);
+  });
+
+  it('handles ties', () => {
+    // Ranks [1.5, 1.5, 3, 4] against [1, 2, 3, 4]
+    expect(rankCorrelation([5, 5, 6, 7], [1, 2, 3, 4])).toBeCloseTo(4.5 / Math.sqrt(4.5 * 5), 10);
+  });
+
+  it('is 0 for a constant side or fewer than two values', () => {
+    expect(rankCorrelation([3, 3, 3], [1, 2, 3])).toBe(0);
+    expect(rankCorrelation([1], [1])).toBe(0);
+  });
+});
+
+describe('calibrationBuckets', () => {
+  it('splits pairs into equal-count buckets ordered by prediction', () => {
+    const buckets = calibrationBuckets([6, 1, 5, 2, 4, 3], [60, 10, 50, 20, 40, 30], 3);
+    expect(buckets).toEqual([
+      { bucket: 1, samples: 2, meanPredicted: 1.5, meanActual: 15 },
+      { bucket: 2, samples: 2, meanPredicted: 3.5, meanActual: 35 },
+      { bucket: 3, samples: 2, meanPredicted: 5.5, meanActual: 55 }
+    ]);
+  });
+
+  it('uses no more buckets than samples', () => {
+    expect(calibrationBuckets([1, 2], [3, 4], 5).map(b => b.samples)).toEqual([1, 1]);
+  });
+});
+
+describe('runBacktest metrics', () => {
+  const withoutActuals = (): CampaignDataset => {
+    const base = dataset(['conversion']);
+    return {
+      ...base,
+      // c7 has a creative but no metrics, c8 metrics but no creative
+      campaigns: [...base.campaigns, campaign('c7', 'conversion'), campaign('c8', 'conversion')],
+      creativeAssets: [...base.creativeAssets, asset('c7', 0.5)],
+      performanceMetrics: [...base.performanceMetrics, metrics('c8', 0.5)]
+    };
+  };
+
+  it('skips campaigns without both creatives and actuals', () => {
+    const report = runBacktest(withoutActuals(), businessEngine);
+    expect(report.samples).toBe(QUALITIES.length);
+    expect(report.campaigns.map(c => c.campaignId)).toEqual(['c1', 'c2', 'c3', 'c4', 'c5', 'c6']);
+    expect(report.outcomes.every(o => o.samples === QUALITIES.length)).toBe(true);
+  });
+
+  it('measures MAE after scaling predictions to the mean actual', () => {
+    const report = runBacktest(dataset(['conversion']), businessEngine, { buckets: 3 });
+    const conversion = report.outcomes.find(o => o.outcome === 'conversion')!;
+    const predicted = report.campaigns.map(c => c.predicted.conversion);
+    const actual = report.campaigns.map(c => c.actual.conversion);
+    const meanActual = actual.reduce((sum, v) => sum + v, 0) / actual.length;
+    const scale = meanActual / (predicted.reduce((sum, v) => sum + v, 0) / predicted.length);
+    const mae = predicted.reduce((sum, p, i) => sum + Math.abs(p * scale - actual[i]), 0) / actual.length;
+
+    expect(conversion.predictionScale).toBeCloseTo(scale, 5);
+    expect(conversion.mae).toBeCloseTo(mae, 3);
+    expect(conversion.relativeMae).toBeCloseTo(mae / meanActual, 3);
+    // Better creatives performed better, so the ranks agree exactly
+    expect(conversion.rankCorrelation).toBe(1);
+    expect(conversion.buckets.map(b => b.samples)).toEqual([2, 2, 2]);
+    expect(conversion.buckets[0].meanActual).toBeLessThan(conversion.buckets[2].meanActual);
+  });
+
+  it('reports a perfect score rank correlation when totalScore and actuals rise together', () => {
+    const report = runBacktest(dataset(['conversion']), businessEngine);
+    expect(report.summary.scoreRankCorrelation).toBe(1);
+  });
+});
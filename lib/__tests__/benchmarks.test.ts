@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { businessEngine } from '../business-outcome-engine';
+import type { CampaignDataset } from '../campaign-data';
+import {
+  getBenchmarks,
+  percentileRank,
+  rankAgainstBenchmarks,
+  summarizeDistribution,
+  type BenchmarkSet
+} from '../benchmarks';
+
+describe('percentileRank', () => {
+  it('counts tied values as half below', () => {
+    expect(percentileRank([1, 2, 2, 2, 3], 2)).toBe(50);
+    expect(percentileRank([1, 2, 2, 2, 3], 1)).toBe(10);
+    expect(percentileRank([5, 5, 5, 5], 5)).toBe(50);
+  });
+
+  it('ranks values between and beyond the sample', () => {
+    expect(percentileRank([1, 2, 2, 2, 3], 2.5)).toBe(80);
+    expect(percentileRank([1, 2, 3], 0)).toBe(0);
+    expect(percentileRank([1, 2, 3], 4)).toBe(100);
+    expect(percentileRank([], 4)).toBe(0);
+  });
+});
+
+describe('summarizeDistribution', () => {
+  it('interpolates quantiles between closest ranks', () => {
+    expect(summarizeDistribution([10, 20, 30, 40, 50])).toEqual({
+      count: 5, mean: 30, min: 10, p10: 14, p25: 20, p50: 30, p75: 40, p90: 46, max: 50
+    });
+    expect(summarizeDistribution([1, 2, 3, 4]).p50).toBe(2.5);
+  });
+
+  it('summarises an empty cohort as zeros', () => {
+    expect(summarizeDistribution([])).toMatchObject({ count: 0, mean: 0, min: 0, p50: 0, max: 0 });
+  });
+});
+
+describe('rankAgainstBenchmarks', () => {
+  const scored = (campaignId: string, industry: string, region: string, totalScore: number) => ({
+    campaignId,
+    dimensions: { industry, region },
+    totalScore,
+    outcomes: { conversion: totalScore / 10 }
+  });
+  const set: BenchmarkSet = {
+    objective: 'conversion',
+    weightSetVersion: 'default',
+    datasetLoadedAt: '2025-06-01T00:00:00.000Z',
+    builtAt: '2025-06-01T00:00:00.000Z',
+    campaigns: [
+      scored('c1', 'FMCG', 'NCR', 40),
+      scored('c2', 'FMCG', 'NCR', 60),
+      scored('c3', 'FMCG', 'Visayas', 60),
+      scored('c4', 'Telco', 'NCR', 80),
+      scored('c5', 'Telco', 'Visayas', 20)
+    ],
+    sorted: new Map()
+  };
+  const result = { totalScore: 60, outcomeBreakdown: { conversion: 6 } };
+
+  it('ranks against all campaigns, each dimension and the full cohort', () => {
+    const rankings = rankAgainstBenchmarks(set, result, { industry: 'FMCG', region: 'NCR' }, { minSampleSize: 3 });
+
+    expect(rankings.map(r => [r.label, r.sampleSize])).toEqual([
+      ['All campaigns', 5],
+      ['FMCG', 3],
+      ['Campaigns in NCR', 3],
+      ['FMCG in NCR', 2]
+    ]);
+    // Two of five campaigns tie at 60 and two are below
+    expect(rankings[0].totalScore).toEqual({ score: 60, percentile: 60, median: 60 });
+    expect(rankings[0].outcomes).toEqual({ conversion: 60 });
+    // Within FMCG, one of three is below and two tie
+    expect(rankings[1].totalScore.percentile).toBe(66.7);
+  });
+
+  it('withholds percentiles below the minimum sample size', () => {
+    const rankings = rankAgainstBenchmarks(set, result, { industry: 'FMCG', region: 'NCR' }, { minSampleSize: 3 });
+    const full = rankings[3];
+
+    expect(full.insufficientData).toBe(true);
+    expect(full.totalScore).toEqual({ score: 60, percentile: null, median: null });
+    expect(full.outcomes).toEqual({ conversion: null });
+
+    const relaxed = rankAgainstBenchmarks(set, result, { industry: 'FMCG', region: 'NCR' }, { minSampleSize: 2 });
+    expect(relaxed[3].insufficientData).toBe(false);
+    expect(relaxed[3].totalScore.percentile).toBe(75);
+  });
+});
+
+describe('getBenchmarks', () => {
+  const dataset = (): CampaignDataset => ({
+    campaigns: ['c1', 'c2', 'c3'].map(id => ({ campaign_id: id, name: id, brand: 'Brand', industry: 'FMCG', region: 'NCR' })),
+    creativeAssets: ['c1', 'c2', 'c3'].map((id, i) => ({
+      asset_id: `a-${id}`,
+      campaign_id: id,
+      text_readability: 0.5 + i * 0.1,
+      performance_score: 0.5 + i * 0.1
+    })),
+    performanceMetrics: [],
+    source: 'test',
+    loadedAt: new Date().toISOString()
+  });
+
+  it('reuses benchmarks for the same dataset, objective and weight set', () => {
+    const data = dataset();
+    const first = getBenchmarks(data, businessEngine, 'conversion', 'ces');
+
+    expect(getBenchmarks(data, businessEngine, { conversion: 1 }, 'ces')).toBe(first);
+    expect(getBenchmarks(data, businessEngine, 'brand', 'ces')).not.toBe(first);
+    expect(getBenchmarks(data, businessEngine, 'conversion', 'acme')).not.toBe(first);
+  });
+
+  it('rebuilds when the dataset reloads', () => {
+    const before = getBenchmarks(dataset(), businessEngine, 'conversion', 'ces');
+    const reloaded = dataset();
+    reloaded.campaigns = reloaded.campaigns.slice(0, 2);
+
+    const after = getBenchmarks(reloaded, businessEngine, 'conversion', 'ces');
+
+    expect(after).not.toBe(before);
+    expect(after.campaigns.map(c => c.campaignId)).toEqual(['c1', 'c2']);
+  });
+});
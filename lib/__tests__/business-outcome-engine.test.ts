@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { BUSINESS_DRIVEN_FEATURES, BUSINESS_OUTCOMES, TARGET_FEATURE_SCORE, businessEngine } from '../business-outcome-engine';
+
+const everyFeatureAt = (score: number) => Object.fromEntries(BUSINESS_DRIVEN_FEATURES.map(f => [f.id, score]));
+
+describe('BusinessOutcomeEngine outcome values', () => {
+  it('predicts each targetValue with every feature at the target feature score', () => {
+    const { outcomeValues } = businessEngine.calculateBusinessEffectiveness(everyFeatureAt(TARGET_FEATURE_SCORE));
+    for (const [id, outcome] of Object.entries(BUSINESS_OUTCOMES)) {
+      expect(outcomeValues[id]).toBeCloseTo(outcome.targetValue, 6);
+    }
+  });
+
+  it('keeps outcome values in range of their thresholds and targets', () => {
+    const strong = businessEngine.calculateBusinessEffectiveness(everyFeatureAt(7), {}, 'conversion');
+    expect(strong.outcomeValues.conversion).toBeGreaterThan(BUSINESS_OUTCOMES.conversion.threshold);
+    expect(strong.outcomeValues.conversion).toBeLessThan(BUSINESS_OUTCOMES.conversion.targetValue);
+
+    const weak = businessEngine.calculateBusinessEffectiveness(everyFeatureAt(2), {}, 'brand');
+    expect(weak.outcomeValues.conversion).toBeLessThan(BUSINESS_OUTCOMES.conversion.threshold);
+  });
+
+  it('does not let objectives or priorities change outcome values', () => {
+    const scores = { ...everyFeatureAt(5), mobile_optimization: 9 };
+    const conversion = businessEngine.calculateBusinessEffectiveness(scores, {}, 'conversion');
+    const brand = businessEngine.calculateBusinessEffectiveness(scores, { conversion: 3 }, 'brand');
+
+    expect(brand.outcomeValues.conversion).toBeCloseTo(conversion.outcomeValues.conversion, 9);
+    expect(brand.outcomeBreakdown.conversion).not.toBeCloseTo(conversion.outcomeBreakdown.conversion, 3);
+  });
+
+  it('gives outcome value bands on the same scale as the values', () => {
+    const result = businessEngine.calculateBusinessEffectiveness(everyFeatureAt(6), {}, 'conversion', { confidenceLevel: 0.9 });
+    const band = result.uncertainty!.outcomeValues.roi_sales;
+
+    expect(band.estimate).toBeCloseTo(result.outcomeValues.roi_sales, 2);
+    expect(band.lower).toBeLessThan(band.estimate);
+    expect(band.upper).toBeGreaterThan(band.estimate);
+  });
+});
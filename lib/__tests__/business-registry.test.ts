@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { validateFeatureDefinition } from '../business-registry';
+import { BUSINESS_OUTCOMES } from '../business-outcome-engine';
+
+const feature = {
+  id: 'opening_hook_strength',
+  name: 'Opening Hook Strength',
+  description: 'How quickly the creative earns attention',
+  category: 'content',
+  businessImpact: { engagement: 0.6 },
+  measurability: 'high',
+  implementation: ['Lead with the product in the first second'],
+  testability: 'A/B_testable',
+  costToImplement: 'low',
+  timeToImplement: 'immediate'
+};
+
+const outcomeIds = new Set(Object.keys(BUSINESS_OUTCOMES));
+
+describe('validateFeatureDefinition', () => {
+  it('accepts a custom feature that has an extraction rule', () => {
+    expect(validateFeatureDefinition(feature, outcomeIds, new Set(['opening_hook_strength']))).toEqual([]);
+  });
+
+  it('rejects a custom feature without an extraction rule, which would always score 0', () => {
+    expect(validateFeatureDefinition(feature, outcomeIds, new Set())).toEqual([
+      { path: 'id', message: 'has no extraction rule under tenants.<tenant_id>.custom_features in config/feature-rules.yaml' }
+    ]);
+  });
+
+  it('reports a malformed id once, not as a missing rule as well', () => {
+    expect(validateFeatureDefinition({ ...feature, id: 'Opening Hook' }, outcomeIds, new Set())).toEqual([
+      { path: 'id', message: 'must be lower_snake_case' }
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationError, fitWeightSet, ridgeRegression } from '../calibration';
+
+// y = 0.6·x1 + 0.2·x2 with no noise
+const X = [[1, 2], [2, 1], [3, 5], [4, 3], [6, 2], [5, 7]];
+const y = X.map(([a, b]) => 0.6 * a + 0.2 * b);
+
+describe('ridgeRegression', () => {
+  it('recovers least squares weights without a penalty', () => {
+    const w = ridgeRegression(X, y, [0, 0], 0);
+    expect(w[0]).toBeCloseTo(0.6, 6);
+    expect(w[1]).toBeCloseTo(0.2, 6);
+  });
+
+  it('returns the prior under a heavy penalty', () => {
+    const w = ridgeRegression(X, y, [0.3, 0.9], 1e6);
+    expect(w[0]).toBeCloseTo(0.3, 4);
+    expect(w[1]).toBeCloseTo(0.9, 4);
+  });
+
+  it('shrinks towards the prior in proportion to λ and the mean diagonal of XᵀX', () => {
+    // One feature: w = (Σxy + λ·Σx²·w0) / (Σx² + λ·Σx²) = (28 + 14·0.5) / 28 for x = 1..3, y = 2x
+    const w = ridgeRegression([[1], [2], [3]], [2, 4, 6], [0.5], 1);
+    expect(w[0]).toBeCloseTo(35 / 28, 6);
+  });
+
+  it('gives the same weights when features and targets are rescaled', () => {
+    const scaled = ridgeRegression(X.map(row => row.map(x => x * 10)), y.map(v => v * 10), [0.3, 0.9], 0.5);
+    const unscaled = ridgeRegression(X, y, [0.3, 0.9], 0.5);
+    expect(scaled[0]).toBeCloseTo(unscaled[0], 6);
+    expect(scaled[1]).toBeCloseTo(unscaled[1], 6);
+  });
+
+  it('keeps weights within the bounds', () => {
+    const negative = X.map(([a, b]) => 0.6 * a - 0.4 * b);
+    const w = ridgeRegression(X, negative, [0.5, 0.5], 0, { lower: 0, upper: 1 });
+    expect(w[1]).toBe(0);
+    expect(w[0]).toBeGreaterThanOrEqual(0);
+    expect(w[0]).toBeLessThanOrEqual(1);
+  });
+});
+
+describe('fitWeightSet', () => {
+  it('refuses to fit without enough campaigns', () => {
+    const dataset = { campaigns: [], creativeAssets: [], performanceMetrics: [], source: 'test', loadedAt: '2025-06-01T00:00:00.000Z' };
+    expect(() => fitWeightSet(dataset)).toThrow(CalibrationError);
+    expect(() => fitWeightSet(dataset, { minSamples: 3 })).toThrow('at least 3 campaigns');
+  });
+});
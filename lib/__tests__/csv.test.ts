@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV, parseCSVRecords } from '../csv';
+
+describe('parseCSV', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseCSV('name,brand\n"Summer, 2025",Acme\n')).toEqual([['name', 'brand'], ['Summer, 2025', 'Acme']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCSV('headline\n"Say ""hello"" today"\n')).toEqual([['headline'], ['Say "hello" today']]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseCSV('id,copy\n1,"Line one\nLine two\r\nLine three"\n2,plain')).toEqual([
+      ['id', 'copy'],
+      ['1', 'Line one\nLine two\r\nLine three'],
+      ['2', 'plain']
+    ]);
+  });
+
+  it('treats CRLF and CR as record separators', () => {
+    expect(parseCSV('a,b\r\n1,2\r\n3,4\r5,6')).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+  });
+
+  it('strips a UTF-8 byte order mark', () => {
+    expect(parseCSV('\uFEFFcampaign_id,name\nc1,Launch')[0]).toEqual(['campaign_id', 'name']);
+  });
+
+  it('keeps empty fields and drops blank lines', () => {
+    expect(parseCSV('a,b,c\n1,,3\n\n,,\n')).toEqual([['a', 'b', 'c'], ['1', '', '3'], ['', '', '']]);
+  });
+
+  it('supports other delimiters', () => {
+    expect(parseCSV('a;b\n"x;y";z', ';')).toEqual([['a', 'b'], ['x;y', 'z']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCSV('id,copy\n1,"never closed\n2,next')).toThrow('Malformed CSV: unterminated quoted field');
+  });
+});
+
+describe('parseCSVRecords', () => {
+  it('keys records by the trimmed header row', () => {
+    expect(parseCSVRecords(' campaign_id , name \nc1,"Launch, Phase 1"')).toEqual([
+      { campaign_id: 'c1', name: 'Launch, Phase 1' }
+    ]);
+  });
+
+  it('fills missing trailing columns with empty strings', () => {
+    expect(parseCSVRecords('campaign_id,name,region\nc1,Launch\nc2')).toEqual([
+      { campaign_id: 'c1', name: 'Launch', region: '' },
+      { campaign_id: 'c2', name: '', region: '' }
+    ]);
+  });
+
+  it('returns no records for empty input', () => {
+    expect(parseCSVRecords('')).toEqual([]);
+    expect(parseCSVRecords('campaign_id,name\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { newDb } from 'pg-mem';
+import { Pool } from 'pg';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { closePool, executeQuery, getDatabaseConfig, setPool, withTransaction } from '../database';
+
+// Set to run against a real server, e.g. the local container in README-CES.md
+const TEST_DATABASE_URL = process.env.CES_TEST_POSTGRES_URL;
+
+const TABLE_SQL = `
+  CREATE TABLE ces_database_test (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    budget NUMERIC
+  )
+`;
+
+/**
+ * In-memory Postgres behind the node-postgres Pool interface. pg-mem ignores
+ * ROLLBACK, so a connected client snapshots the database on BEGIN and
+ * restores the snapshot on ROLLBACK
+ */
+function memoryPool(): Pool {
+  const db = newDb();
+  db.public.none(TABLE_SQL);
+  const { Pool: MemoryPool } = db.adapters.createPg();
+  const pool = new MemoryPool();
+
+  const connect = pool.connect.bind(pool);
+  pool.connect = async () => {
+    const client = await connect();
+    const query = client.query.bind(client);
+    let snapshot: ReturnType<typeof db.backup> | null = null;
+    client.query = async (sql: unknown, ...rest: unknown[]) => {
+      const statement = typeof sql === 'string' ? sql.trim().toUpperCase() : '';
+      if (statement === 'BEGIN') snapshot = db.backup();
+      if (statement === 'COMMIT') snapshot = null;
+      if (statement === 'ROLLBACK') {
+        snapshot?.restore();
+        snapshot = null;
+        return { rows: [], rowCount: 0 };
+      }
+      return query(sql, ...rest);
+    };
+    return client;
+  };
+  return pool as Pool;
+}
+
+describe('database', () => {
+  beforeEach(async () => {
+    if (!TEST_DATABASE_URL) {
+      setPool(memoryPool());
+      return;
+    }
+    setPool(new Pool({ connectionString: TEST_DATABASE_URL }));
+    await executeQuery('DROP TABLE IF EXISTS ces_database_test');
+    await executeQuery(TABLE_SQL);
+  });
+
+  afterEach(async () => {
+    if (TEST_DATABASE_URL) {
+      await executeQuery('DROP TABLE IF EXISTS ces_database_test');
+      await closePool();
+    }
+    setPool(null);
+  });
+
+  it('binds parameters as values, not SQL', async () => {
+    const name = "Launch'); DROP TABLE ces_database_test; --";
+    await executeQuery('INSERT INTO ces_database_test (name, budget) VALUES ($1, $2)', [name, 1500]);
+
+    const result = await executeQuery<{ name: string }>('SELECT name FROM ces_database_test WHERE name = $1', [name]);
+    expect(result.rowCount).toBe(1);
+    expect(result.rows[0].name).toBe(name);
+
+    const count = await executeQuery<{ total: number }>('SELECT COUNT(*)::int AS total FROM ces_database_test');
+    expect(count.rows[0].total).toBe(1);
+  });
+
+  it('commits a transaction whose callback succeeds', async () => {
+    const id = await withTransaction(async query => {
+      const inserted = await query<{ id: number }>('INSERT INTO ces_database_test (name) VALUES ($1) RETURNING id', ['Kept']);
+      return inserted.rows[0].id;
+    });
+
+    const result = await executeQuery('SELECT name FROM ces_database_test WHERE id = $1', [id]);
+    expect(result.rows).toEqual([{ name: 'Kept' }]);
+  });
+
+  it('rolls back a transaction whose callback throws', async () => {
+    await executeQuery('INSERT INTO ces_database_test (name) VALUES ($1)', ['Existing']);
+
+    await expect(withTransaction(async query => {
+      await query('INSERT INTO ces_database_test (name) VALUES ($1)', ['Discarded']);
+      throw new Error('abort');
+    })).rejects.toThrow('abort');
+
+    const result = await executeQuery('SELECT name FROM ces_database_test');
+    expect(result.rows).toEqual([{ name: 'Existing' }]);
+  });
+
+  it('rejects a query that outlasts its timeout', async () => {
+    const hanging = { query: () => new Promise(() => {}) };
+    setPool(hanging as unknown as Pool);
+
+    await expect(executeQuery('SELECT 1', [], { timeoutMs: 20 })).rejects.toThrow('Query timed out after 20ms');
+  });
+
+  it('sets the server-side statement timeout from the environment', () => {
+    const env = (vars: Record<string, string>): NodeJS.ProcessEnv =>
+      ({ NODE_ENV: 'test', CES_AZURE_POSTGRES_URL: 'postgres://localhost/ces', ...vars });
+    expect(getDatabaseConfig(env({ CES_AZURE_PG_STATEMENT_TIMEOUT_MS: '2500' })).statement_timeout).toBe(2500);
+    expect(getDatabaseConfig(env({})).statement_timeout).toBe(10000);
+  });
+});
@@ -0,0 +1,157 @@
+import yaml from 'js-yaml';
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateFeatureRules,
+  FeatureRuleValidationError,
+  loadFeatureRuleSet,
+  parseFeatureRuleSet,
+  validateFeatureRuleSet
+} from '../feature-rules';
+
+const activeRules = () => loadFeatureRuleSet();
+
+// The active rule set with some rules replaced, as parsed YAML
+function candidate(features: string, tenants = '{}'): unknown {
+  const replaced = yaml.load(`features:\n${features}\ntenants: ${tenants}`) as { features: object; tenants: unknown };
+  const active = activeRules();
+  return { version: '2.0.0-candidate', features: { ...active.features, ...replaced.features }, tenants: replaced.tenants };
+}
+
+const asset = {
+  asset_id: 'a1',
+  campaign_id: 'c1',
+  text_readability: '0.82',
+  emotional_trigger: 'Urgency',
+  brand_integration: 'Subtle',
+  dimensions: '728x90',
+  a_b_test_variant: ''
+};
+
+describe('validateFeatureRuleSet', () => {
+  it('accepts the shipped rule set', () => {
+    expect(validateFeatureRuleSet(activeRules())).toEqual([]);
+  });
+
+  it('rejects a rule set that is not an object or has no features', () => {
+    expect(validateFeatureRuleSet(yaml.load('- just\n- a list'))).toEqual([{ path: '', message: 'rule set must be an object' }]);
+    expect(validateFeatureRuleSet(yaml.load('version: 1.0.0'))).toEqual([
+      { path: 'features', message: 'must map feature ids to rules' }
+    ]);
+  });
+
+  it('reports every malformed rule with its path', () => {
+    const errors = validateFeatureRuleSet(candidate(`
+  value_proposition_clarity: { type: scale, field: text_readability, factor: ten }
+  urgency_scarcity_triggers: { type: lookup, field: emotional_trigger, values: { Excitement: high }, default: 5 }
+  mobile_optimization: { type: contains, field: dimensions, patterns: [{ match: '', score: 9 }, oops], default: 8 }
+  personalization_depth: { type: presence, present: 8, absent: 4 }
+  social_proof_integration: { type: regex, field: brand_integration }
+  brand_awareness_lift: { type: constant, value: 5 }`));
+
+    expect(errors).toEqual([
+      { path: 'features.value_proposition_clarity.factor', message: 'must be a number' },
+      { path: 'features.urgency_scarcity_triggers.values.Excitement', message: 'must be a number' },
+      { path: 'features.social_proof_integration.type', message: 'must be one of scale, lookup, contains, presence, constant' },
+      { path: 'features.mobile_optimization.patterns[0].match', message: 'must be a non-empty string' },
+      { path: 'features.mobile_optimization.patterns[1].match', message: 'must be a non-empty string' },
+      { path: 'features.mobile_optimization.patterns[1].score', message: 'must be a number' },
+      { path: 'features.personalization_depth.field', message: 'must be a non-empty string' },
+      { path: 'features.brand_awareness_lift', message: 'unknown feature' }
+    ]);
+  });
+
+  it('requires a rule for every feature', () => {
+    const { features, ...rest } = activeRules();
+    const { mobile_optimization: _removed, ...remaining } = features;
+    expect(validateFeatureRuleSet({ ...rest, features: remaining })).toEqual([
+      { path: 'features.mobile_optimization', message: 'missing rule' }
+    ]);
+  });
+
+  it('checks tenant overrides', () => {
+    const errors = validateFeatureRuleSet(candidate('', `
+  acme:
+    features:
+      mobile_optimization: { type: constant }
+      unknown_feature: { type: constant, value: 1 }
+  beta: [not, a, map]`));
+
+    expect(errors).toEqual([
+      { path: 'tenants.acme.features.mobile_optimization.value', message: 'must be a number' },
+      { path: 'tenants.acme.features.unknown_feature', message: 'unknown feature' },
+      { path: 'tenants.beta.features', message: 'must map feature ids to rules' }
+    ]);
+  });
+
+  it("checks a tenant's custom feature rules", () => {
+    const errors = validateFeatureRuleSet(candidate('', `
+  acme:
+    custom_features:
+      mobile_optimization: { type: constant, value: 1 }
+      Opening-Hook: { type: constant, value: 1 }
+      opening_hook_strength: { type: scale, field: visual_distinctness }
+  beta:
+    custom_features: [not, a, map]`));
+
+    expect(errors).toEqual([
+      { path: 'tenants.acme.custom_features.mobile_optimization', message: 'clashes with a built-in feature; override it under features' },
+      { path: 'tenants.acme.custom_features.Opening-Hook', message: 'must be lower_snake_case' },
+      { path: 'tenants.acme.custom_features.opening_hook_strength.factor', message: 'must be a number' },
+      { path: 'tenants.beta.custom_features', message: 'must map feature ids to rules' }
+    ]);
+  });
+
+  it('is thrown as FeatureRuleValidationError by parseFeatureRuleSet', () => {
+    expect(() => parseFeatureRuleSet({ version: '', features: {} })).toThrow(FeatureRuleValidationError);
+  });
+});
+
+describe('evaluateFeatureRules', () => {
+  it('reports the score, branch and source values of each rule, as a dry run does', () => {
+    const results = evaluateFeatureRules(asset, activeRules());
+    const byId = Object.fromEntries(results.map(result => [result.featureId, result]));
+
+    expect(results).toHaveLength(Object.keys(activeRules().features).length);
+    expect(byId.value_proposition_clarity).toMatchObject({
+      score: 8.2,
+      ruleType: 'scale',
+      matched: 'scaled',
+      sourceFields: ['text_readability'],
+      sourceValues: { text_readability: '0.82' },
+      overridden: false
+    });
+    expect(byId.action_oriented_language).toMatchObject({ score: 9, matched: 'value:Urgency' });
+    expect(byId.social_proof_integration).toMatchObject({ score: 6, matched: 'value:Subtle' });
+    expect(byId.mobile_optimization).toMatchObject({ score: 7, matched: 'match:728x' });
+    expect(byId.personalization_depth).toMatchObject({ score: 4, matched: 'absent' });
+    // performance_score is missing, so the scale rule falls back to its default
+    expect(byId.problem_solution_framing).toMatchObject({ score: 0, matched: 'default', sourceValues: { performance_score: null } });
+  });
+
+  it("applies a tenant's overrides in a candidate rule set", () => {
+    const ruleSet = parseFeatureRuleSet(candidate('', `
+  acme:
+    features:
+      mobile_optimization: { type: contains, field: dimensions, patterns: [{ match: '728x', score: 3 }], default: 6 }`));
+
+    const forAcme = evaluateFeatureRules(asset, ruleSet, 'acme').find(r => r.featureId === 'mobile_optimization');
+    const forOthers = evaluateFeatureRules(asset, ruleSet, 'ces').find(r => r.featureId === 'mobile_optimization');
+
+    expect(forAcme).toMatchObject({ score: 3, overridden: true, rule: '728x… → 3, otherwise 6' });
+    expect(forOthers).toMatchObject({ score: 7, overridden: false });
+  });
+
+  it("scores a tenant's custom features after the built-ins, for that tenant only", () => {
+    const ruleSet = parseFeatureRuleSet(candidate('', `
+  acme:
+    custom_features:
+      opening_hook_strength: { type: scale, field: text_readability, factor: 5 }`));
+
+    const forAcme = evaluateFeatureRules(asset, ruleSet, 'acme');
+    const forOthers = evaluateFeatureRules(asset, ruleSet, 'ces');
+
+    expect(forAcme).toHaveLength(forOthers.length + 1);
+    expect(forAcme.at(-1)).toMatchObject({ featureId: 'opening_hook_strength', score: 4.1, matched: 'scaled', overridden: false });
+    expect(forOthers.map(r => r.featureId)).not.toContain('opening_hook_strength');
+  });
+});
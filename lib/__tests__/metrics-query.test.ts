@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { buildMetricsQuery, MetricsQueryError, type MetricDimension, type MetricName } from '../metrics-query';
+
+const range = { start: '2025-06-01T00:00:00.000Z', end: '2025-06-08T00:00:00.000Z' };
+
+describe('buildMetricsQuery', () => {
+  it('rejects metric names outside the whitelist', () => {
+    const build = () => buildMetricsQuery({ metrics: ['clicks', 'clicks; DROP TABLE campaign_events' as MetricName], range });
+    expect(build).toThrow(MetricsQueryError);
+    expect(build).toThrow(/Unknown metrics: clicks; DROP TABLE campaign_events/);
+  });
+
+  it('rejects names inherited from Object.prototype', () => {
+    expect(() => buildMetricsQuery({ metrics: ['constructor' as MetricName], range })).toThrow(MetricsQueryError);
+  });
+
+  it('requires at least one metric', () => {
+    expect(() => buildMetricsQuery({ metrics: [], range })).toThrow('At least one metric is required');
+  });
+
+  it('only orders by a requested metric', () => {
+    expect(() => buildMetricsQuery({ metrics: ['clicks'], range, orderBy: 'spend' as 'clicks' })).toThrow(/orderBy/);
+  });
+
+  it('rejects dimensions outside the whitelist', () => {
+    const groupBy = { kind: 'dimension' as const, dimension: 'platform) UNION SELECT 1 --' as MetricDimension };
+    expect(() => buildMetricsQuery({ metrics: ['clicks'], range, groupBy })).toThrow('Unknown dimension');
+  });
+
+  it('binds the range and campaign instead of writing them into the SQL', () => {
+    const campaignId = "x' OR '1'='1";
+    const { text, values } = buildMetricsQuery({ metrics: ['ctr', 'roi'], range, campaignId });
+
+    expect(values).toEqual([range.start, range.end, campaignId]);
+    expect(text).toContain('"timestamp" >= $1::timestamptz');
+    expect(text).toContain('"timestamp" < $2::timestamptz');
+    expect(text).toContain('campaign_id = $3');
+    expect(text).not.toContain(campaignId);
+    expect(text).not.toContain(range.start);
+  });
+
+  it('binds the metadata key, granularity and time zone', () => {
+    const key = "age_band' || pg_sleep(10) || '";
+    const metadata = buildMetricsQuery({ metrics: ['impressions'], range, groupBy: { kind: 'metadata', key } });
+    expect(metadata.values).toEqual([range.start, range.end, key]);
+    expect(metadata.text).toContain('metadata ->> $3');
+    expect(metadata.text).not.toContain(key);
+
+    const bucket = buildMetricsQuery({
+      metrics: ['impressions'],
+      range,
+      groupBy: { kind: 'bucket', granularity: 'day', timezone: 'Asia/Manila' }
+    });
+    expect(bucket.values).toEqual([range.start, range.end, 'day', 'Asia/Manila']);
+    expect(bucket.text).not.toContain('Asia/Manila');
+  });
+
+  it('computes ratios from the totals of each group', () => {
+    const { text } = buildMetricsQuery({ metrics: ['ctr'], range, groupBy: { kind: 'dimension', dimension: 'platform' } });
+
+    expect(text).toContain("COUNT(*) FILTER (WHERE event_type = 'click') AS clicks");
+    expect(text).toContain("COUNT(*) FILTER (WHERE event_type = 'impression') AS impressions");
+    expect(text).toContain('totals.clicks::numeric / NULLIF(totals.impressions, 0)');
+    expect(text).toContain('AS ctr');
+  });
+});
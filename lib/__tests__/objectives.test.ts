@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectiveError } from '../business-outcome-engine';
+import { parseObjectiveParam } from '../objectives';
+
+describe('parseObjectiveParam', () => {
+  it('reads a single objective name', () => {
+    expect(parseObjectiveParam('brand')).toEqual({ brand: 1 });
+  });
+
+  it('normalises a blend so the shares sum to 1', () => {
+    const blend = parseObjectiveParam('brand:3, conversion : 1');
+    expect(blend.brand).toBeCloseTo(0.75, 10);
+    expect(blend.conversion).toBeCloseTo(0.25, 10);
+  });
+
+  it('drops objectives with a zero share', () => {
+    expect(parseObjectiveParam('brand:0.6,conversion:0.4,efficiency:0')).toEqual({ brand: 0.6, conversion: 0.4 });
+  });
+
+  it.each([
+    ['awards', /objective must be one of/],
+    ['brand:', /Invalid objective blend entry: brand:/],
+    [':0.5', /Invalid objective blend entry/],
+    ['brand:high', /Invalid objective blend entry: brand:high/],
+    ['brand:0.5:0.5', /Invalid objective blend entry: brand:0.5:0.5/],
+    ['brand:0.5,awards:0.5', /Unknown objective in blend: awards/],
+    ['brand:-1,conversion:2', /Share for brand must be a non-negative number/],
+    ['brand:0,conversion:0', /must add up to more than 0/]
+  ])('rejects %s', (param, message) => {
+    expect(() => parseObjectiveParam(param)).toThrow(ObjectiveError);
+    expect(() => parseObjectiveParam(param)).toThrow(message);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { BUSINESS_DRIVEN_FEATURES, businessEngine } from '../business-outcome-engine';
+import { optimizeImprovements, OptimizerError, selectImprovements } from '../optimizer';
+
+type Item = { id: number; cost: number; weeks: number; gain: number };
+
+// Best total gain over every subset
+function bruteForce(items: Item[], budget: number, timeline: number, scheduling: 'parallel' | 'sequential'): number {
+  let best = 0;
+  for (let mask = 0; mask < 1 << items.length; mask++) {
+    const subset = items.filter((_, i) => mask & (1 << i));
+    const cost = subset.reduce((sum, item) => sum + item.cost, 0);
+    const weeks = scheduling === 'sequential'
+      ? subset.reduce((sum, item) => sum + item.weeks, 0)
+      : Math.max(0, ...subset.map(item => item.weeks));
+    if (cost <= budget && weeks <= timeline) best = Math.max(best, subset.reduce((sum, item) => sum + item.gain, 0));
+  }
+  return best;
+}
+
+// Deterministic item sets from a linear congruential generator
+function randomItems(seed: number, count: number): Item[] {
+  let state = seed;
+  const next = () => (state = (state * 1103515245 + 12345) % 2 ** 31) / 2 ** 31;
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    cost: [1, 3, 5][Math.floor(next() * 3)],
+    weeks: [0.5, 2, 6, 12][Math.floor(next() * 4)],
+    gain: Math.round(next() * 100) / 10
+  }));
+}
+
+const totalGain = (items: Item[]) => items.reduce((sum, item) => sum + item.gain, 0);
+
+describe('selectImprovements', () => {
+  it('finds the optimum where picking by gain per cost does not', () => {
+    const items = [
+      { id: 0, cost: 1, weeks: 0, gain: 2 },
+      { id: 1, cost: 5, weeks: 0, gain: 9 },
+      { id: 2, cost: 5, weeks: 0, gain: 9 }
+    ];
+    // Greedy takes item 0 first and then only fits one 5-cost item: 11
+    expect(totalGain(selectImprovements(items, 10, 12, 'parallel'))).toBe(18);
+  });
+
+  it('matches brute force under both scheduling modes', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      const items = randomItems(seed, 10);
+      for (const scheduling of ['parallel', 'sequential'] as const) {
+        const chosen = selectImprovements(items, 9, 8, scheduling);
+        const weeks = chosen.map(item => item.weeks);
+
+        expect(totalGain(chosen)).toBeCloseTo(bruteForce(items, 9, 8, scheduling), 9);
+        expect(chosen.reduce((sum, item) => sum + item.cost, 0)).toBeLessThanOrEqual(9);
+        expect(scheduling === 'sequential' ? weeks.reduce((sum, w) => sum + w, 0) : Math.max(0, ...weeks)).toBeLessThanOrEqual(8);
+      }
+    }
+  });
+
+  it('selects nothing when no item fits', () => {
+    expect(selectImprovements([{ id: 0, cost: 5, weeks: 1, gain: 3 }], 4, 12, 'parallel')).toEqual([]);
+  });
+});
+
+describe('optimizeImprovements', () => {
+  const featureScores = Object.fromEntries(BUSINESS_DRIVEN_FEATURES.map((feature, i) => [feature.id, i % 3 === 0 ? 9 : 4]));
+
+  it('plans within the budget and timeline, with gains that add up to the score change', () => {
+    const result = optimizeImprovements(businessEngine, featureScores, { budget: 10, timeline: 6, scheduling: 'sequential' });
+
+    expect(result.plan.length).toBeGreaterThan(0);
+    expect(result.totals.cost).toBeLessThanOrEqual(10);
+    expect(result.totals.weeks).toBeLessThanOrEqual(6);
+    expect(result.after.target - result.before.target).toBeCloseTo(result.totals.expectedGain, 1);
+  });
+
+  it('leaves features already at the target score out of the plan', () => {
+    const result = optimizeImprovements(businessEngine, featureScores, { budget: 100, timeline: 52 });
+    const atTarget = BUSINESS_DRIVEN_FEATURES.filter((_, i) => i % 3 === 0).map(feature => feature.id);
+
+    expect(result.plan.filter(item => atTarget.includes(item.featureId))).toEqual([]);
+    expect(result.excluded.filter(item => item.reason === 'at_target').map(item => item.featureId)).toEqual(atTarget);
+  });
+
+  it('rejects a negative budget and an unknown target', () => {
+    expect(() => optimizeImprovements(businessEngine, featureScores, { budget: -1, timeline: 4 })).toThrow(OptimizerError);
+    expect(() => optimizeImprovements(businessEngine, featureScores, { budget: 5, timeline: 4, target: 'awards' }))
+      .toThrow('Unknown target outcome: awards');
+  });
+});
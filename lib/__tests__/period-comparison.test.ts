@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { tCritical, welchTTest } from '../period-comparison';
+
+describe('tCritical', () => {
+  it('matches two-sided t tables to within 0.01', () => {
+    expect(Math.abs(tCritical(0.95, 5) - 2.571)).toBeLessThan(0.01);
+    expect(Math.abs(tCritical(0.95, 10) - 2.228)).toBeLessThan(0.01);
+    expect(Math.abs(tCritical(0.95, 30) - 2.042)).toBeLessThan(0.01);
+    expect(Math.abs(tCritical(0.99, 10) - 3.169)).toBeLessThan(0.01);
+  });
+
+  it('approaches the normal quantile as df grows', () => {
+    expect(tCritical(0.95, 100000)).toBeCloseTo(1.96, 2);
+  });
+});
+
+describe('welchTTest', () => {
+  it('computes t and Welch-Satterthwaite df for unequal variances', () => {
+    const test = welchTTest([1, 2, 3, 4, 5], [2, 4, 6, 8, 10])!;
+    // means 3 and 6, variances 2.5 and 10, se² = 0.5 + 2
+    expect(test.t).toBeCloseTo(-3 / Math.sqrt(2.5), 6);
+    expect(test.df).toBeCloseTo(6.25 / (0.25 / 4 + 4 / 4), 6);
+  });
+
+  it('is antisymmetric in its arguments', () => {
+    const a = [10, 12, 9, 14, 11];
+    const b = [8, 7, 9, 6];
+    expect(welchTTest(b, a)!.t).toBeCloseTo(-welchTTest(a, b)!.t, 10);
+  });
+
+  it('returns null with fewer than two values on a side', () => {
+    expect(welchTTest([1], [1, 2, 3])).toBeNull();
+    expect(welchTTest([1, 2, 3], [])).toBeNull();
+  });
+
+  it('returns null when neither side varies, even with floating-point noise', () => {
+    expect(welchTTest([5, 5, 5], [7, 7, 7])).toBeNull();
+    expect(welchTTest([0.1 + 0.2, 0.3, 0.3], [0.3, 0.1 + 0.2, 0.3])).toBeNull();
+  });
+});
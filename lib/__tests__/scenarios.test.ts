@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { BUSINESS_DRIVEN_FEATURES, businessEngine } from '../business-outcome-engine';
+import { runScenarios } from '../scenarios';
+
+const everyFeatureAt = (score: number) => Object.fromEntries(BUSINESS_DRIVEN_FEATURES.map(f => [f.id, score]));
+
+// Conversion features a creative team would actually work on
+const conversionLevers = (delta: number) => ({
+  value_proposition_clarity: delta,
+  urgency_scarcity_triggers: delta,
+  action_oriented_language: delta,
+  mobile_optimization: delta,
+  benefit_focused_headlines: delta,
+  visual_hierarchy_optimization: delta
+});
+
+describe('runScenarios', () => {
+  it('reports an outcome reaching and losing its target under realistic deltas', () => {
+    const comparison = runScenarios(businessEngine, everyFeatureAt(7.5), [
+      { name: 'Sharper conversion copy', deltas: conversionLevers(2) },
+      { name: 'Generic refresh', deltas: conversionLevers(-1) }
+    ]);
+    const conversion = (name: string) => [comparison.baseline, ...comparison.scenarios]
+      .find(result => result.name === name)!.outcomes.find(outcome => outcome.outcomeId === 'conversion')!;
+
+    expect(conversion('Baseline').score).toBeLessThan(conversion('Baseline').targetValue);
+    expect(conversion('Sharper conversion copy').crossings).toContain('reached_target');
+
+    const fromTarget = runScenarios(businessEngine, everyFeatureAt(8), [{ name: 'Generic refresh', deltas: conversionLevers(-1) }]);
+    const lost = fromTarget.scenarios[0].outcomes.find(outcome => outcome.outcomeId === 'conversion')!;
+    expect(lost.crossings).toEqual(['lost_target']);
+    expect(lost.score).toBeGreaterThan(lost.threshold);
+  });
+
+  it('reports threshold crossings and diffs in outcome units', () => {
+    const comparison = runScenarios(businessEngine, everyFeatureAt(3), [{ name: 'Rework', deltas: conversionLevers(2) }]);
+    const conversion = comparison.scenarios[0].outcomes.find(outcome => outcome.outcomeId === 'conversion')!;
+    const baseline = comparison.baseline.outcomes.find(outcome => outcome.outcomeId === 'conversion')!;
+
+    expect(baseline.score).toBeLessThan(baseline.threshold);
+    expect(conversion.crossings).toEqual(['above_threshold']);
+    expect(conversion.diff).toBeCloseTo(conversion.score - baseline.score, 1);
+    expect(baseline.crossings).toEqual([]);
+  });
+});
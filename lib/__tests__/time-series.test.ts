@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { setPool } from '../database';
+import {
+  getTimeSeries,
+  MAX_TIME_SERIES_BUCKETS,
+  parseRangeBoundary,
+  resolveAnalyticsWindow,
+  startOfZonedDay,
+  TimeSeriesRangeError,
+  zonedDate
+} from '../time-series';
+
+const iso = (date: Date) => date.toISOString();
+
+describe('startOfZonedDay', () => {
+  it('follows New York across the spring and autumn transitions', () => {
+    // Clocks go forward at 02:00 on 9 March and back at 02:00 on 2 November 2025
+    expect(iso(startOfZonedDay('2025-03-09', 'America/New_York'))).toBe('2025-03-09T05:00:00.000Z');
+    expect(iso(startOfZonedDay('2025-03-10', 'America/New_York'))).toBe('2025-03-10T04:00:00.000Z');
+    expect(iso(startOfZonedDay('2025-11-02', 'America/New_York'))).toBe('2025-11-02T04:00:00.000Z');
+    expect(iso(startOfZonedDay('2025-11-03', 'America/New_York'))).toBe('2025-11-03T05:00:00.000Z');
+  });
+
+  it('follows Sydney across the southern-hemisphere transitions', () => {
+    // Clocks go back at 03:00 on 6 April and forward at 02:00 on 5 October 2025
+    expect(iso(startOfZonedDay('2025-04-06', 'Australia/Sydney'))).toBe('2025-04-05T13:00:00.000Z');
+    expect(iso(startOfZonedDay('2025-04-07', 'Australia/Sydney'))).toBe('2025-04-06T14:00:00.000Z');
+    expect(iso(startOfZonedDay('2025-10-05', 'Australia/Sydney'))).toBe('2025-10-04T14:00:00.000Z');
+    expect(iso(startOfZonedDay('2025-10-06', 'Australia/Sydney'))).toBe('2025-10-05T13:00:00.000Z');
+  });
+
+  it('handles a zone without DST', () => {
+    expect(iso(startOfZonedDay('2025-06-01', 'Asia/Manila'))).toBe('2025-05-31T16:00:00.000Z');
+  });
+});
+
+describe('zonedDate', () => {
+  it('reads the local date on either side of a transition', () => {
+    expect(zonedDate(new Date('2025-11-02T03:59:59.000Z'), 'America/New_York')).toBe('2025-11-01');
+    expect(zonedDate(new Date('2025-11-02T04:00:00.000Z'), 'America/New_York')).toBe('2025-11-02');
+    expect(zonedDate(new Date('2025-10-04T13:59:59.000Z'), 'Australia/Sydney')).toBe('2025-10-04');
+    expect(zonedDate(new Date('2025-10-04T14:00:00.000Z'), 'Australia/Sydney')).toBe('2025-10-05');
+  });
+
+  it('round-trips with startOfZonedDay', () => {
+    for (const date of ['2025-03-09', '2025-11-02', '2025-04-06', '2025-10-05']) {
+      expect(zonedDate(startOfZonedDay(date, 'America/New_York'), 'America/New_York')).toBe(date);
+      expect(zonedDate(startOfZonedDay(date, 'Australia/Sydney'), 'Australia/Sydney')).toBe(date);
+    }
+  });
+});
+
+describe('parseRangeBoundary', () => {
+  it('reads a date-only end as the whole of that day', () => {
+    const start = parseRangeBoundary('2025-03-09', 'America/New_York', 'start');
+    const end = parseRangeBoundary('2025-03-09', 'America/New_York', 'end');
+
+    expect(iso(end)).toBe('2025-03-10T04:00:00.000Z');
+    // The spring-forward day is 23 hours long
+    expect(end.getTime() - start.getTime()).toBe(23 * 60 * 60 * 1000);
+  });
+
+  it('reads a 25-hour autumn day in full', () => {
+    const start = parseRangeBoundary('2025-11-02', 'America/New_York', 'start');
+    const end = parseRangeBoundary('2025-11-02', 'America/New_York', 'end');
+    expect(end.getTime() - start.getTime()).toBe(25 * 60 * 60 * 1000);
+  });
+
+  it('passes full timestamps through unchanged', () => {
+    expect(iso(parseRangeBoundary('2025-06-01T08:30:00Z', 'Asia/Manila', 'end'))).toBe('2025-06-01T08:30:00.000Z');
+  });
+});
+
+describe('resolveAnalyticsWindow', () => {
+  it('makes a date-only range inclusive of its end date', () => {
+    const window = resolveAnalyticsWindow({ timeframe: '30d', start: '2025-06-01', end: '2025-06-07' }, 'Asia/Manila');
+    expect(window).toEqual({ start: '2025-05-31T16:00:00.000Z', end: '2025-06-07T16:00:00.000Z', days: 7 });
+  });
+});
+
+describe('getTimeSeries', () => {
+  const hours = (n: number) => new Date(Date.UTC(2025, 0, 1) + n * 60 * 60 * 1000).toISOString();
+  const stubPool = () => {
+    const query = vi.fn(async () => ({ rows: [], rowCount: 0 }));
+    setPool({ query } as unknown as Parameters<typeof setPool>[0]);
+    return query;
+  };
+
+  afterEach(() => setPool(null));
+
+  it('rejects more than MAX_TIME_SERIES_BUCKETS buckets before querying', async () => {
+    const query = stubPool();
+
+    const error = await getTimeSeries({
+      window: { start: hours(0), end: hours(MAX_TIME_SERIES_BUCKETS + 1), days: 84 },
+      granularity: 'hour',
+      timezone: 'Asia/Manila'
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TimeSeriesRangeError);
+    expect(error.path).toBe('granularity');
+    expect(error.message).toBe(`More than ${MAX_TIME_SERIES_BUCKETS} hour buckets in this range; use a coarser granularity or a shorter range`);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('queries a range of exactly MAX_TIME_SERIES_BUCKETS buckets', async () => {
+    const query = stubPool();
+
+    await getTimeSeries({
+      window: { start: hours(0), end: hours(MAX_TIME_SERIES_BUCKETS), days: 84 },
+      granularity: 'hour',
+      timezone: 'Asia/Manila'
+    });
+
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+});
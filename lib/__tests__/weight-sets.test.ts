@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_WEIGHT_SET, type WeightSet } from '../calibration';
+import { getBusinessEngine, getWeightSetStore, MemoryWeightSetStore, setWeightSetStore } from '../weight-sets';
+
+const calibrated = (version: string): WeightSet => ({
+  ...DEFAULT_WEIGHT_SET,
+  version,
+  source: 'calibrated',
+  createdAt: '2025-06-01T00:00:00.000Z'
+});
+
+describe('weight set stores', () => {
+  afterEach(() => {
+    setWeightSetStore(null, 'ces');
+    setWeightSetStore(null, 'acme');
+  });
+
+  it('keeps a store per tenant', () => {
+    setWeightSetStore(new MemoryWeightSetStore(), 'ces');
+    setWeightSetStore(new MemoryWeightSetStore(), 'acme');
+
+    expect(getWeightSetStore('acme')).toBe(getWeightSetStore('acme'));
+    expect(getWeightSetStore('acme')).not.toBe(getWeightSetStore('ces'));
+  });
+
+  it("runs each tenant's engine on its own active weight set", async () => {
+    setWeightSetStore(new MemoryWeightSetStore(), 'ces');
+    setWeightSetStore(new MemoryWeightSetStore(), 'acme');
+    await getWeightSetStore('acme').save(calibrated('acme-2025-06'), true);
+
+    expect((await getBusinessEngine('active', 'acme'))!.weightSetVersion).toBe('acme-2025-06');
+    expect((await getBusinessEngine('active', 'ces'))!.weightSetVersion).toBe(DEFAULT_WEIGHT_SET.version);
+    expect(await getBusinessEngine('acme-2025-06', 'ces')).toBeNull();
+  });
+});
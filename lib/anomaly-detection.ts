@@ -0,0 +1,290 @@
+/**
+ * Anomaly Detection
+ * Flags unusual days in daily metric series, following the anomaly_detection
+ * stage of pulser/pipelines/ces-campaign-analysis.yaml:
+ * - z_score: distance from the series mean in standard deviations
+ * - seasonal_decomposition: additive trend + weekly seasonal model; the
+ *   residual is scored in standard deviations of all residuals
+ * Scores at or beyond the low/medium/high thresholds (1.0/1.5/2.5 by default)
+ * become anomalies with their expected value, actual value and deviation
+ */
+
+import { loadAskCESConfig } from './config';
+import { isMetricName, runMetricsQuery, type MetricName } from './metrics-query';
+import { customWindow, type PeriodWindow } from './period-comparison';
+import { MAX_TIME_SERIES_BUCKETS, startOfZonedDay, TimeSeriesRangeError, zonedDate } from './time-series';
+
+export const ANOMALY_METHODS = ['z_score', 'seasonal_decomposition'] as const;
+
+export type AnomalyMethod = typeof ANOMALY_METHODS[number];
+
+// Most to least severe
+export const ANOMALY_SEVERITIES = ['high', 'medium', 'low'] as const;
+
+export type AnomalySeverity = typeof ANOMALY_SEVERITIES[number];
+
+export interface DailyPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface Anomaly {
+  metric: string;
+  date: string;
+  // Method whose expected value and score are reported (the higher |z|)
+  method: AnomalyMethod;
+  detectedBy: AnomalyMethod[];
+  expected: number;
+  actual: number;
+  // Percent above (+) or below (-) expected; null when expected is 0
+  deviation: number | null;
+  zScore: number;
+  severity: AnomalySeverity;
+  explanation: string;
+}
+
+export interface AnomalySettings {
+  methods: AnomalyMethod[];
+  thresholds: Record<AnomalySeverity, number>;
+  // Lowest severity reported
+  sensitivity: AnomalySeverity;
+  seasonLength: number;
+  // Days of history the models are fitted on
+  lookbackDays: number;
+  metrics: MetricName[];
+}
+
+export interface AnomalyReport {
+  period: PeriodWindow;
+  history: PeriodWindow;
+  timezone: string;
+  settings: AnomalySettings;
+  anomalies: Anomaly[];
+}
+
+const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  methods: ['z_score', 'seasonal_decomposition'],
+  thresholds: { high: 2.5, medium: 1.5, low: 1.0 },
+  sensitivity: 'medium',
+  seasonLength: 7,
+  lookbackDays: 56,
+  metrics: ['impressions', 'clicks', 'conversions', 'spend', 'ctr', 'cpm', 'roi']
+};
+
+const METHOD_LABELS: Record<AnomalyMethod, string> = {
+  z_score: 'z-score',
+  seasonal_decomposition: 'seasonal decomposition'
+};
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// analytics.anomalies in config/ask-ces.yaml
+export function getAnomalySettings(): AnomalySettings {
+  const configured = loadAskCESConfig().analytics?.anomalies || {};
+  const defaults = DEFAULT_ANOMALY_SETTINGS;
+
+  const methods = (configured.methods ?? defaults.methods).filter((method: string) => {
+    const known = (ANOMALY_METHODS as readonly string[]).includes(method);
+    if (!known) console.error(`analytics.anomalies.methods: unknown method ${method}`);
+    return known;
+  });
+  const metrics = (configured.metrics ?? defaults.metrics).filter((metric: string) => {
+    if (!isMetricName(metric)) console.error(`analytics.anomalies.metrics: unknown metric ${metric}`);
+    return isMetricName(metric);
+  });
+
+  let sensitivity = configured.sensitivity ?? defaults.sensitivity;
+  if (!(ANOMALY_SEVERITIES as readonly string[]).includes(sensitivity)) {
+    console.error(`analytics.anomalies.sensitivity must be one of ${ANOMALY_SEVERITIES.join(', ')}; using ${defaults.sensitivity}`);
+    sensitivity = defaults.sensitivity;
+  }
+
+  return {
+    methods: methods.length > 0 ? methods : defaults.methods,
+    thresholds: { ...defaults.thresholds, ...configured.thresholds },
+    sensitivity,
+    seasonLength: configured.season_length ?? defaults.seasonLength,
+    lookbackDays: configured.lookback_days ?? defaults.lookbackDays,
+    metrics: metrics.length > 0 ? metrics : defaults.metrics
+  };
+}
+
+export function severityFor(zScore: number, thresholds: Record<AnomalySeverity, number>): AnomalySeverity | null {
+  const magnitude = Math.abs(zScore);
+  return ANOMALY_SEVERITIES.find(severity => magnitude >= thresholds[severity]) ?? null;
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1));
+}
+
+// Spread this small relative to the values is floating-point noise from a constant series
+const hasSpread = (sd: number, values: number[]) =>
+  sd > 1e-9 * Math.max(1, ...values.map(Math.abs));
+
+export interface PointScore {
+  expected: number;
+  zScore: number;
+}
+
+// Expected value is the series mean; null when the series has no spread
+export function zScoreModel(values: number[]): PointScore[] | null {
+  const sd = standardDeviation(values);
+  if (!hasSpread(sd, values)) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return values.map(value => ({ expected: mean, zScore: (value - mean) / sd }));
+}
+
+/**
+ * Additive decomposition: centred moving-average trend (extended flat to the
+ * ends), seasonal means of the detrended values per position in the season,
+ * and the residual left over. Null with fewer than two full seasons or when
+ * the residuals have no spread
+ */
+export function seasonalDecompositionModel(values: number[], seasonLength: number): PointScore[] | null {
+  const n = values.length;
+  if (seasonLength < 2 || n < 2 * seasonLength) return null;
+
+  // 2xm moving average for an even season length, plain m for odd
+  const half = Math.floor(seasonLength / 2);
+  const trend: (number | null)[] = values.map((_, i) => {
+    if (i < half || i >= n - half) return null;
+    if (seasonLength % 2 === 1) {
+      return values.slice(i - half, i + half + 1).reduce((sum, v) => sum + v, 0) / seasonLength;
+    }
+    const inner = values.slice(i - half + 1, i + half).reduce((sum, v) => sum + v, 0);
+    return (inner + (values[i - half] + values[i + half]) / 2) / seasonLength;
+  });
+
+  const seasonalSums = new Array(seasonLength).fill(0);
+  const seasonalCounts = new Array(seasonLength).fill(0);
+  trend.forEach((t, i) => {
+    if (t === null) return;
+    seasonalSums[i % seasonLength] += values[i] - t;
+    seasonalCounts[i % seasonLength] += 1;
+  });
+  const rawSeasonal = seasonalSums.map((sum, k) => (seasonalCounts[k] > 0 ? sum / seasonalCounts[k] : 0));
+  const seasonalMean = rawSeasonal.reduce((sum, s) => sum + s, 0) / seasonLength;
+  const seasonal = rawSeasonal.map(s => s - seasonalMean);
+
+  const firstTrend = trend[half] as number;
+  const lastTrend = trend[n - half - 1] as number;
+  const expected = values.map((_, i) => (trend[i] ?? (i < half ? firstTrend : lastTrend)) + seasonal[i % seasonLength]);
+  const residuals = values.map((value, i) => value - expected[i]);
+
+  const sd = standardDeviation(residuals);
+  if (!hasSpread(sd, values)) return null;
+  return values.map((_, i) => ({ expected: expected[i], zScore: residuals[i] / sd }));
+}
+
+function explain(metric: string, actual: number, expected: number, method: AnomalyMethod, zScore: number): string {
+  const direction = actual >= expected ? 'above' : 'below';
+  const percent = expected !== 0 ? `${Math.abs(round(((actual - expected) / expected) * 100, 0))}% ` : '';
+  return `${metric} was ${percent}${direction} the expected ${round(expected)} (${METHOD_LABELS[method]}, z = ${round(zScore)})`;
+}
+
+/**
+ * Anomalies in one daily series at or above the sensitivity. A day flagged by
+ * several methods is reported once, with the method that scored it highest
+ */
+export function detectSeriesAnomalies(
+  metric: string,
+  series: DailyPoint[],
+  settings: Pick<AnomalySettings, 'methods' | 'thresholds' | 'sensitivity' | 'seasonLength'>
+): Anomaly[] {
+  const values = series.map(point => point.value);
+  const reportable = ANOMALY_SEVERITIES.slice(0, ANOMALY_SEVERITIES.indexOf(settings.sensitivity) + 1);
+
+  const byDate = new Map<string, Anomaly>();
+  for (const method of settings.methods) {
+    const scores = method === 'z_score' ? zScoreModel(values) : seasonalDecompositionModel(values, settings.seasonLength);
+    if (!scores) continue;
+
+    scores.forEach(({ expected, zScore }, i) => {
+      const severity = severityFor(zScore, settings.thresholds);
+      if (!severity || !reportable.includes(severity)) return;
+
+      const { date, value: actual } = series[i];
+      const existing = byDate.get(date);
+      if (existing && Math.abs(existing.zScore) >= Math.abs(zScore)) {
+        existing.detectedBy.push(method);
+        return;
+      }
+      byDate.set(date, {
+        metric,
+        date,
+        method,
+        detectedBy: existing ? [...existing.detectedBy, method] : [method],
+        expected: round(expected, 4),
+        actual: round(actual, 4),
+        deviation: expected !== 0 ? round(((actual - expected) / Math.abs(expected)) * 100) : null,
+        zScore: round(zScore),
+        severity,
+        explanation: explain(metric, actual, expected, method, zScore)
+      });
+    });
+  }
+  return [...byDate.values()];
+}
+
+export interface AnomalyDetectionOptions {
+  window: PeriodWindow;
+  timezone: string;
+  campaignId?: string;
+  metrics?: MetricName[];
+  sensitivity?: AnomalySeverity;
+  settings?: AnomalySettings;
+}
+
+/**
+ * Daily series over the lookback history ending with the window (complete
+ * local days only, so a partial today is not read as a drop), with anomalies
+ * reported for days inside the window, most extreme first
+ */
+export async function detectAnomalies(options: AnomalyDetectionOptions): Promise<AnomalyReport> {
+  const { window, timezone, campaignId } = options;
+  const base = options.settings ?? getAnomalySettings();
+  const settings: AnomalySettings = {
+    ...base,
+    metrics: options.metrics ?? base.metrics,
+    sensitivity: options.sensitivity ?? base.sensitivity
+  };
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const windowEnd = new Date(window.end);
+  const historyEnd = startOfZonedDay(zonedDate(windowEnd, timezone), timezone);
+  const lookbackStart = new Date(Math.min(new Date(window.start).getTime(), historyEnd.getTime() - settings.lookbackDays * dayMs));
+  let historyStart = startOfZonedDay(zonedDate(lookbackStart, timezone), timezone);
+  if (historyStart < lookbackStart) {
+    historyStart = startOfZonedDay(zonedDate(new Date(historyStart.getTime() + 1.5 * dayMs), timezone), timezone);
+  }
+  const history = customWindow(historyStart, historyEnd);
+  const firstReportedDate = zonedDate(new Date(window.start), timezone);
+
+  if (historyEnd <= historyStart) {
+    return { period: window, history, timezone, settings, anomalies: [] };
+  }
+  if (history.days > MAX_TIME_SERIES_BUCKETS) {
+    throw new TimeSeriesRangeError(`Anomaly detection covers at most ${MAX_TIME_SERIES_BUCKETS} days; use a shorter range`, 'start');
+  }
+
+  const rows = await runMetricsQuery({
+    metrics: settings.metrics,
+    range: history,
+    groupBy: { kind: 'bucket', granularity: 'day', timezone },
+    campaignId
+  });
+
+  const anomalies = settings.metrics
+    .flatMap(metric => detectSeriesAnomalies(
+      metric,
+      rows.map(row => ({ date: String(row.group).split('T')[0], value: row[metric] })),
+      settings
+    ))
+    .filter(anomaly => anomaly.date >= firstReportedDate)
+    .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore) || a.date.localeCompare(b.date));
+
+  return { period: window, history, timezone, settings, anomalies };
+}
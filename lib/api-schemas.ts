@@ -0,0 +1,786 @@
+/**
+ * API Contracts
+ * zod schemas for the request bodies, query strings and responses of every
+ * route in app/api, and the TypeScript types inferred from them. Routes parse
+ * their input with lib/api-validation.ts; pages import the types only
+ * (`import type`), since some enums come from server modules.
+ * Response schemas are type-only contracts: routes build responses with
+ * NextResponse.json<T>() and nothing parses them at runtime, so the
+ * z.custom<T>() payloads below check types but validate nothing
+ */
+
+import { z } from 'zod';
+import { ANOMALY_SEVERITIES, type AnomalyReport } from './anomaly-detection';
+import {
+  CAMPAIGN_OBJECTIVES,
+  CONFIDENCE_LEVELS,
+  type CampaignObjective,
+  type ScoreUncertainty
+} from './business-outcome-engine';
+import { BENCHMARK_DIMENSIONS, type BenchmarkRanking, type CohortBenchmark } from './benchmarks';
+import type { BacktestReport } from './backtest';
+import { AGGREGATION_STRATEGIES } from './creative-features';
+import type { RuleEvaluation } from './feature-rules';
+import { GRANULARITIES, METRIC_NAMES, type MetricName } from './metrics-query';
+import type { OptimizationResult } from './optimizer';
+import { isValidTimeZone, PERIOD_METRICS, type PeriodMetric } from './period-comparison';
+import { MAX_SCENARIOS, type ScenarioComparison } from './scenarios';
+import { MAX_FEATURE_SCORE, type GradeBand, type ScoreScale } from './score-scale';
+import type { CreativeAnalysisResult } from './types';
+
+// ---------------------------------------------------------------------------
+// Shared pieces
+// ---------------------------------------------------------------------------
+
+export const featureScoresSchema = z.record(z.string(), z.number().min(0).max(MAX_FEATURE_SCORE));
+
+export const businessPrioritiesSchema = z.record(z.string(), z.number().min(0));
+
+export const campaignObjectiveSchema = z.enum(CAMPAIGN_OBJECTIVES as [CampaignObjective, ...CampaignObjective[]]);
+
+// An objective name, or a blend of them with non-negative shares
+export const objectiveSchema = z.union([
+  campaignObjectiveSchema,
+  z.record(campaignObjectiveSchema, z.number().min(0)).refine(
+    blend => Object.values(blend).reduce((sum: number, share) => sum + (share ?? 0), 0) > 0,
+    'Objective blend shares must add up to more than 0'
+  )
+], {
+  errorMap: (issue, ctx) => issue.code === 'invalid_union'
+    ? { message: `Must be one of ${CAMPAIGN_OBJECTIVES.join(', ')}, or a blend such as { brand: 0.6, conversion: 0.4 }` }
+    : { message: ctx.defaultError }
+});
+
+export const aggregationSchema = z.enum(AGGREGATION_STRATEGIES);
+
+export const confidenceLevelSchema = z.number().refine(
+  level => CONFIDENCE_LEVELS.includes(level),
+  `Must be one of ${CONFIDENCE_LEVELS.join(', ')}`
+);
+
+export const benchmarkDimensionSchema = z.enum(BENCHMARK_DIMENSIONS);
+
+export const benchmarkCohortSchema = z.object({
+  industry: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+  channel: z.string().min(1).optional(),
+  brand: z.string().min(1).optional()
+}).strict();
+
+const nonEmpty = z.string().trim().min(1);
+const tenantIdSchema = nonEmpty.optional();
+const weightSetSchema = nonEmpty.default('active');
+// Query string flags: 'true' / 'false'
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true');
+const positiveIntParam = z.coerce.number().int().positive();
+
+// Structured 400 body for invalid input
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationErrorResponse {
+  error: string;
+  errors: ValidationIssue[];
+}
+
+export const scoreScaleSchema: z.ZodType<ScoreScale> = z.object({
+  id: z.string(),
+  min: z.number(),
+  max: z.number(),
+  precision: z.number(),
+  description: z.string()
+});
+
+export const gradeBandSchema: z.ZodType<GradeBand> = z.object({
+  grade: z.string(),
+  min: z.number(),
+  tone: z.enum(['strong', 'moderate', 'weak'])
+});
+
+const resolvedObjectiveSchema = z.object({
+  blend: z.record(campaignObjectiveSchema, z.number()),
+  label: z.string(),
+  source: z.enum(['request', 'campaign_type', 'default']),
+  campaignType: z.string().optional()
+});
+
+// Payloads typed by their lib modules, which stay the source of truth for them.
+// z.custom<T>() without a check accepts any value; use these in response schemas only
+const uncertaintySchema = z.custom<ScoreUncertainty>();
+const backtestReportSchema = z.custom<BacktestReport>();
+const optimizationResultSchema = z.custom<OptimizationResult>();
+const scenarioComparisonSchema = z.custom<ScenarioComparison>();
+const benchmarkRankingSchema = z.custom<BenchmarkRanking>();
+const cohortBenchmarkSchema = z.custom<CohortBenchmark>();
+const creativeAnalysisResultSchema = z.custom<CreativeAnalysisResult>();
+const ruleEvaluationSchema = z.custom<RuleEvaluation>();
+const anomalyReportSchema = z.custom<AnomalyReport>();
+
+// ---------------------------------------------------------------------------
+// /api/creative-analysis
+// ---------------------------------------------------------------------------
+
+export const creativeAnalysisRequestSchema = z.object({
+  creativeScores: featureScoresSchema,
+  businessPriorities: businessPrioritiesSchema.default({}),
+  campaignType: objectiveSchema.default('conversion'),
+  includeBenchmark: z.boolean().optional(),
+  includeAwardBenchmark: z.boolean().optional(), // old name of includeBenchmark
+  benchmarkCohort: benchmarkCohortSchema.default({}),
+  weightSet: weightSetSchema,
+  tenantId: tenantIdSchema,
+  featureUncertainty: z.record(z.string(), z.number().min(0)).default({}),
+  confidenceLevel: confidenceLevelSchema.default(0.9)
+});
+
+export const creativeAnalysisQuerySchema = z.object({
+  format: z.enum(['summary', 'features', 'outcomes']).default('summary'),
+  // Weight set whose impacts format=features reports
+  weightSet: weightSetSchema,
+  tenantId: tenantIdSchema
+});
+
+const featureAnalysisSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  category: z.string(),
+  currentScore: z.number(),
+  contribution: z.number(),
+  measurability: z.string(),
+  topOutcomes: z.array(z.object({ outcome: z.string(), impact: z.number(), score: z.number() })),
+  implementation: z.array(z.string()),
+  businessImpact: z.record(z.string(), z.number()),
+  gap: z.number()
+});
+
+const outcomeInsightSchema = z.object({
+  id: z.string(),
+  outcome: z.string(),
+  metrics: z.array(z.string()),
+  currentScore: z.number(),
+  targetScore: z.number(),
+  threshold: z.number(),
+  weight: z.number(),
+  performance: z.enum(['above_threshold', 'below_threshold']),
+  gapToTarget: z.number(),
+  topFeatures: z.array(z.object({ name: z.string(), impact: z.number(), currentContribution: z.number() })),
+  priority: z.number()
+});
+
+const strategicRecommendationSchema = z.object({
+  type: z.string(),
+  priority: z.enum(['high', 'medium', 'low']),
+  title: z.string(),
+  description: z.string(),
+  impact: z.string(),
+  actions: z.array(z.string()),
+  timeline: z.string()
+});
+
+export const creativeAnalysisResponseSchema = z.object({
+  analysis: z.object({
+    campaignHealth: z.object({
+      overallCES: z.number(),
+      grade: z.string(),
+      gradeTone: z.enum(['strong', 'moderate', 'weak']),
+      strengthAreas: z.array(z.string()),
+      improvementAreas: z.array(z.string()),
+      balanceScore: z.number(),
+      executionReadiness: z.number()
+    }),
+    cesScore: z.number(),
+    outcomeBreakdown: z.record(z.string(), z.number()),
+    outcomeValues: z.record(z.string(), z.number()),
+    featureContributions: z.record(z.string(), z.number()),
+    recommendations: z.array(z.string()),
+    uncertainty: uncertaintySchema.optional()
+  }),
+  insights: z.object({
+    features: z.array(featureAnalysisSchema),
+    outcomes: z.array(outcomeInsightSchema),
+    strategic: z.array(strategicRecommendationSchema)
+  }),
+  benchmarks: z.object({
+    objective: z.string(),
+    dataLoadedAt: z.string(),
+    rankings: z.array(benchmarkRankingSchema)
+  }).nullable(),
+  metadata: z.object({
+    campaignType: objectiveSchema,
+    objective: z.string(),
+    objectiveBlend: z.record(campaignObjectiveSchema, z.number()),
+    tenantId: z.string(),
+    scale: scoreScaleSchema,
+    engineVersion: z.string(),
+    weightSetVersion: z.string(),
+    analysisTimestamp: z.string(),
+    totalFeatures: z.number(),
+    businessOutcomes: z.number()
+  })
+});
+
+export const creativeAnalysisSummaryResponseSchema = z.object({
+  summary: z.object({
+    totalFeatures: z.number(),
+    categories: z.array(z.string()),
+    businessOutcomes: z.number(),
+    businessFocus: z.string()
+  }),
+  usage: z.object({
+    endpoint: z.string(),
+    method: z.string(),
+    requiredFields: z.array(z.string()),
+    optionalFields: z.array(z.string())
+  })
+});
+
+export const featureDefinitionsResponseSchema = z.object({
+  tenantId: z.string(),
+  weightSetVersion: z.string(),
+  features: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    category: z.string(),
+    measurability: z.string(),
+    implementation: z.array(z.string()),
+    businessImpact: z.record(z.string(), z.number()),
+    testability: z.string(),
+    custom: z.boolean()
+  })),
+  categories: z.record(z.string(), z.number())
+});
+
+export const outcomeDefinitionsResponseSchema = z.object({
+  tenantId: z.string(),
+  outcomes: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string(),
+    metrics: z.array(z.string()),
+    weight: z.number(),
+    targetValue: z.number(),
+    threshold: z.number(),
+    category: z.string(),
+    custom: z.boolean()
+  }))
+});
+
+// ---------------------------------------------------------------------------
+// /api/creative-analysis/scenarios
+// ---------------------------------------------------------------------------
+
+export const scenariosRequestSchema = z.object({
+  creativeScores: featureScoresSchema,
+  scenarios: z.array(z.object({
+    name: nonEmpty,
+    deltas: z.record(z.string(), z.number().min(-MAX_FEATURE_SCORE).max(MAX_FEATURE_SCORE))
+  })).min(1).max(MAX_SCENARIOS),
+  campaignType: objectiveSchema.default('conversion'),
+  businessPriorities: businessPrioritiesSchema.default({}),
+  weightSet: weightSetSchema,
+  tenantId: tenantIdSchema
+});
+
+export const scenariosResponseSchema = z.intersection(
+  scenarioComparisonSchema,
+  z.object({
+    metadata: z.object({
+      engineVersion: z.string(),
+      weightSetVersion: z.string(),
+      analysisTimestamp: z.string()
+    })
+  })
+);
+
+// ---------------------------------------------------------------------------
+// /api/optimizer
+// ---------------------------------------------------------------------------
+
+export const optimizerRequestSchema = z.object({
+  creativeScores: featureScoresSchema.optional(),
+  assetId: nonEmpty.optional(),
+  campaignId: nonEmpty.optional(),
+  budget: z.number().min(0),
+  timeline: z.number().min(0),
+  objective: objectiveSchema.optional(),
+  target: nonEmpty.default('totalScore'),
+  scheduling: z.enum(['parallel', 'sequential']).default('parallel'),
+  businessPriorities: businessPrioritiesSchema.default({}),
+  weightSet: weightSetSchema,
+  tenantId: tenantIdSchema
+}).refine(
+  body => body.creativeScores || body.assetId || body.campaignId,
+  { message: 'creativeScores, assetId or campaignId is required', path: ['creativeScores'] }
+);
+
+export const optimizerResponseSchema = z.intersection(
+  optimizationResultSchema,
+  z.object({
+    source: z.object({ type: z.string(), id: z.string().optional() }),
+    engineVersion: z.string(),
+    weightSetVersion: z.string()
+  })
+);
+
+// ---------------------------------------------------------------------------
+// /api/campaign-analysis
+// ---------------------------------------------------------------------------
+
+export const campaignAnalysisQuerySchema = z.object({
+  campaignId: nonEmpty.optional(),
+  limit: positiveIntParam.optional(),
+  type: z.enum(['summary', 'analysis']).optional(),
+  weights: weightSetSchema,
+  aggregation: aggregationSchema.optional(),
+  objective: nonEmpty.optional(), // 'brand' or 'brand:0.6,conversion:0.4'
+  tenantId: tenantIdSchema
+});
+
+export const campaignAnalysisRequestSchema = z.object({
+  campaignIds: z.array(nonEmpty).min(1),
+  analysisType: z.literal('batch').default('batch'),
+  businessPriorities: businessPrioritiesSchema.default({}),
+  weightSet: weightSetSchema,
+  aggregation: aggregationSchema.optional(),
+  objective: objectiveSchema.optional(),
+  tenantId: tenantIdSchema
+});
+
+const campaignRecordSchema = z.object({
+  campaign_id: z.string(),
+  name: z.string(),
+  brand: z.string(),
+  industry: z.string(),
+  region: z.string(),
+  type: z.string().optional(),
+  channel: z.string().optional(),
+  budget: z.number().optional(),
+  status: z.string().optional()
+}).passthrough();
+
+const assetBreakdownSchema = z.array(z.object({
+  assetId: z.string(),
+  name: z.string().optional(),
+  weight: z.number(),
+  totalScore: z.number(),
+  featureScores: z.record(z.string(), z.number())
+}));
+
+export const campaignSummaryResponseSchema = z.object({
+  summary: z.object({
+    totalCampaigns: z.number(),
+    totalCreativeAssets: z.number(),
+    totalPerformanceRecords: z.number(),
+    businessOutcomes: z.number(),
+    businessFeatures: z.number(),
+    industries: z.array(z.string()),
+    regions: z.array(z.string()),
+    brands: z.array(z.string())
+  })
+});
+
+export const campaignDetailResponseSchema = z.object({
+  campaign: campaignRecordSchema,
+  analysis: z.object({
+    businessEffectivenessScore: z.number(),
+    grade: gradeBandSchema,
+    objective: resolvedObjectiveSchema,
+    // The engine's outcomeValues, in the units of outcomeTargets
+    predictedOutcomes: z.record(z.string(), z.number()),
+    outcomeTargets: z.record(z.string(), z.number()),
+    actualOutcomes: z.record(z.string(), z.number()),
+    featureScores: z.record(z.string(), z.number()),
+    recommendations: z.array(z.string()),
+    implementationPlan: z.array(z.unknown()),
+    assetBreakdown: assetBreakdownSchema,
+    engineVersion: z.string(),
+    weightSetVersion: z.string()
+  }),
+  assets: z.number(),
+  performanceRecords: z.number(),
+  metadata: z.object({
+    scale: scoreScaleSchema,
+    aggregationStrategy: aggregationSchema,
+    fallbackToMean: z.boolean()
+  })
+});
+
+export const analyzedCampaignSchema = campaignRecordSchema.extend({
+  analysis: z.object({
+    businessEffectivenessScore: z.number(),
+    grade: gradeBandSchema,
+    objective: resolvedObjectiveSchema,
+    topBusinessOutcome: z.tuple([z.string(), z.number()]),
+    actualPerformance: z.object({ roi: z.number(), engagement: z.number(), conversion: z.number() })
+  }).nullable(),
+  assets: z.number(),
+  performanceRecords: z.number()
+});
+
+export const campaignListResponseSchema = z.object({
+  campaigns: z.array(analyzedCampaignSchema),
+  total: z.number(),
+  analyzed: z.number(),
+  engineVersion: z.string(),
+  weightSetVersion: z.string(),
+  metadata: z.object({ scale: scoreScaleSchema, aggregationStrategy: aggregationSchema })
+});
+
+const batchAnalysisEntrySchema = z.object({
+  campaignId: z.string(),
+  campaignName: z.string(),
+  brand: z.string(),
+  businessEffectivenessScore: z.number(),
+  grade: gradeBandSchema,
+  objective: resolvedObjectiveSchema,
+  topRecommendation: z.string().optional(),
+  businessOutcomes: z.record(z.string(), z.number()),
+  assetBreakdown: assetBreakdownSchema
+});
+
+export const campaignBatchResponseSchema = z.object({
+  batchAnalysis: z.array(batchAnalysisEntrySchema),
+  engineVersion: z.string(),
+  weightSetVersion: z.string(),
+  metadata: z.object({ scale: scoreScaleSchema, aggregationStrategy: aggregationSchema }),
+  summary: z.object({
+    totalAnalyzed: z.number(),
+    averageScore: z.number(),
+    topPerformers: z.array(batchAnalysisEntrySchema)
+  })
+});
+
+// ---------------------------------------------------------------------------
+// /api/campaign-analysis/backtest
+// ---------------------------------------------------------------------------
+
+export const backtestQuerySchema = z.object({
+  weights: weightSetSchema,
+  buckets: positiveIntParam.default(5)
+});
+
+export const backtestResponseSchema = z.object({ backtest: backtestReportSchema });
+
+// ---------------------------------------------------------------------------
+// /api/assets/:assetId/analysis
+// ---------------------------------------------------------------------------
+
+export const assetAnalysisQuerySchema = z.object({
+  weights: weightSetSchema,
+  objective: nonEmpty.optional()
+});
+
+export const assetAnalysisResponseSchema = z.object({
+  asset: z.object({
+    asset_id: z.string(),
+    campaign_id: z.string(),
+    name: z.string().optional(),
+    format: z.string().optional(),
+    dimensions: z.string().optional()
+  }).passthrough(),
+  campaign: z.object({ campaign_id: z.string(), name: z.string(), brand: z.string() }).nullable(),
+  analysis: z.object({
+    businessEffectivenessScore: z.number(),
+    grade: gradeBandSchema,
+    featureScores: z.record(z.string(), z.number()),
+    derivation: z.array(z.intersection(
+      ruleEvaluationSchema,
+      z.object({ featureName: z.string(), contribution: z.number() })
+    )),
+    outcomeBreakdown: z.record(z.string(), z.number()),
+    recommendations: z.array(z.string()),
+    implementationPlan: z.array(z.unknown()),
+    uncertainty: uncertaintySchema.optional(),
+    engineVersion: z.string(),
+    weightSetVersion: z.string()
+  }),
+  metadata: z.object({
+    scale: scoreScaleSchema,
+    objective: resolvedObjectiveSchema,
+    featureRulesVersion: z.string(),
+    analysisTimestamp: z.string()
+  })
+});
+
+// ---------------------------------------------------------------------------
+// /api/benchmarks and /api/creative-insights
+// ---------------------------------------------------------------------------
+
+export const benchmarksQuerySchema = z.object({
+  dimension: benchmarkDimensionSchema.optional(),
+  weights: weightSetSchema,
+  tenantId: tenantIdSchema,
+  objective: nonEmpty.default('conversion'),
+  refresh: booleanParam.default('false'),
+  industry: nonEmpty.optional(),
+  region: nonEmpty.optional(),
+  channel: nonEmpty.optional(),
+  brand: nonEmpty.optional()
+});
+
+const benchmarkMetadataSchema = z.object({
+  objective: z.string(),
+  weightSetVersion: z.string(),
+  dataSource: z.string(),
+  dataLoadedAt: z.string(),
+  builtAt: z.string(),
+  scale: scoreScaleSchema
+});
+
+export const benchmarksResponseSchema = z.union([
+  z.object({
+    dimension: benchmarkDimensionSchema,
+    cohorts: z.array(cohortBenchmarkSchema),
+    metadata: benchmarkMetadataSchema
+  }),
+  z.object({ cohort: cohortBenchmarkSchema, metadata: benchmarkMetadataSchema }),
+  z.object({
+    overall: cohortBenchmarkSchema,
+    dimensions: z.record(benchmarkDimensionSchema, z.array(cohortBenchmarkSchema)),
+    metadata: benchmarkMetadataSchema
+  })
+]);
+
+export const creativeInsightsQuerySchema = z.object({
+  campaignId: nonEmpty.optional(),
+  weights: weightSetSchema,
+  tenantId: tenantIdSchema
+});
+
+export const creativeInsightsResponseSchema = z.array(creativeAnalysisResultSchema);
+
+// ---------------------------------------------------------------------------
+// /api/ask-ces and /api/ask-scout
+// ---------------------------------------------------------------------------
+
+export const askCESRoleSchema = z.enum(['exec', 'strategist', 'creative', 'analyst']);
+
+export const askCESRequestSchema = z.object({
+  query: nonEmpty,
+  role: askCESRoleSchema.default('analyst'),
+  includeContext: z.boolean().default(true),
+  conversationHistory: z.array(z.object({
+    role: z.enum(['user', 'assistant', 'system']),
+    content: z.string()
+  })).default([]),
+  stream: z.boolean().default(false),
+  campaignId: nonEmpty.optional(),
+  campaignIds: z.array(nonEmpty).optional(),
+  filters: z.object({ campaignId: nonEmpty.optional() }).passthrough().optional(),
+  tenantId: tenantIdSchema
+});
+
+export const askCESQuerySchema = z.object({
+  info: z.enum(['roles', 'data']).optional()
+});
+
+export const askCESBusinessScoreSchema = z.object({
+  totalScore: z.number(),
+  topOutcome: z.tuple([z.string(), z.number()]),
+  engineVersion: z.string(),
+  campaigns: z.array(z.object({
+    campaignId: z.string(),
+    campaignName: z.string(),
+    brand: z.string(),
+    totalScore: z.number(),
+    objective: z.string(),
+    topOutcome: z.tuple([z.string(), z.number()]),
+    assetsAnalyzed: z.number(),
+    engineVersion: z.string()
+  }))
+});
+
+export const askCESResponseSchema = z.object({
+  response: z.string(),
+  metadata: z.object({
+    role: askCESRoleSchema,
+    timestamp: z.string(),
+    model: z.string().optional(),
+    provider: z.string().optional(),
+    usage: z.unknown().optional(),
+    businessScore: askCESBusinessScoreSchema.nullable(),
+    dataStats: z.object({ totalCampaigns: z.number(), totalMetrics: z.number() })
+  })
+});
+
+export const askScoutRequestSchema = z.object({
+  query: nonEmpty,
+  role_id: nonEmpty.default('brand_manager'),
+  widget_context: z.string().optional(),
+  data_context: z.record(z.string(), z.unknown()).optional(),
+  response_type: z.enum(['insight', 'question', 'alert']).default('question')
+});
+
+export const askScoutResponseSchema = z.object({
+  response: z.string(),
+  metadata: z.object({
+    generated_by: z.string(),
+    timestamp: z.string(),
+    source: z.string(),
+    confidence: z.number(),
+    role_context: z.string(),
+    data_sources: z.array(z.string()),
+    processing_time_ms: z.number()
+  }),
+  suggestions: z.array(z.string()).optional(),
+  related_widgets: z.array(z.string()).optional()
+});
+
+// ---------------------------------------------------------------------------
+// Registry, calibration and feature rules
+// ---------------------------------------------------------------------------
+
+export const tenantQuerySchema = z.object({ tenantId: tenantIdSchema });
+
+export const businessRegistryRequestSchema = z.object({
+  type: z.enum(['outcome', 'feature']),
+  // Checked field by field by the registry's own validators
+  definition: z.record(z.string(), z.any()),
+  tenantId: tenantIdSchema
+});
+
+export const businessRegistryDeleteQuerySchema = z.object({
+  type: z.enum(['outcome', 'feature']),
+  id: nonEmpty,
+  tenantId: tenantIdSchema
+});
+
+export const calibrationQuerySchema = z.object({ version: nonEmpty.optional(), tenantId: tenantIdSchema });
+
+// A body without an action is a fit
+export const calibrationRequestSchema = z.preprocess(
+  body => body && typeof body === 'object' && !('action' in body) ? { ...body, action: 'fit' } : body,
+  z.discriminatedUnion('action', [
+    z.object({ action: z.literal('activate'), version: nonEmpty, tenantId: tenantIdSchema }),
+    z.object({
+      action: z.literal('fit'),
+      lambda: z.number().min(0).optional(),
+      minSamples: z.number().int().positive().optional(),
+      version: nonEmpty.optional(),
+      activate: z.boolean().default(false),
+      tenantId: tenantIdSchema
+    })
+  ])
+);
+
+export const featureRulesDryRunRequestSchema = z.object({
+  assetId: nonEmpty.optional(),
+  asset: z.record(z.string(), z.unknown()).optional(),
+  // A candidate rule set, checked by validateFeatureRuleSet
+  rules: z.unknown().optional(),
+  tenantId: tenantIdSchema
+}).refine(body => body.assetId || body.asset, { message: 'assetId or asset is required', path: ['assetId'] });
+
+// ---------------------------------------------------------------------------
+// /api/campaigns and /api/analytics
+// ---------------------------------------------------------------------------
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be a date (YYYY-MM-DD)');
+
+export const campaignsQuerySchema = z.object({
+  status: nonEmpty.optional(),
+  start_date: isoDate.optional(),
+  end_date: isoDate.optional(),
+  limit: positiveIntParam.default(10),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+export const createCampaignRequestSchema = z.object({
+  campaign_name: nonEmpty,
+  channel: nonEmpty,
+  budget: z.coerce.number().positive(),
+  start_date: isoDate,
+  end_date: isoDate,
+  status: z.enum(['draft', 'active', 'paused', 'completed']).default('draft'),
+  brand: nonEmpty.default('TBWA'),
+  campaign_type: nonEmpty.default('brand_awareness')
+}).refine(body => body.end_date >= body.start_date, {
+  message: 'end_date must not be before start_date',
+  path: ['end_date']
+});
+
+// YYYY-MM-DD (read in the reporting time zone) or an ISO timestamp with an offset
+const rangeBoundaryParam = z.string().refine(
+  value => z.string().date().safeParse(value).success || z.string().datetime({ offset: true }).safeParse(value).success,
+  'Must be a date (YYYY-MM-DD) or an ISO timestamp such as 2025-06-01T00:00:00+08:00'
+);
+
+// Reporting window shared by the analytics routes
+const analyticsRangeFields = {
+  // Ignored when start/end are given
+  timeframe: z.enum(['7d', '30d', '90d', '365d']).default('30d'),
+  start: rangeBoundaryParam.optional(),
+  end: rangeBoundaryParam.optional(),
+  timezone: nonEmpty.refine(isValidTimeZone, 'Must be an IANA time zone such as Asia/Manila').optional(),
+  campaign_id: nonEmpty.optional()
+};
+
+const startWithEnd = {
+  check: (query: { start?: string; end?: string }) => (query.start === undefined) === (query.end === undefined),
+  message: { message: 'start and end must be given together', path: ['end'] }
+};
+
+export const analyticsQuerySchema = z.object({
+  ...analyticsRangeFields,
+  granularity: z.enum(GRANULARITIES).default('day'),
+  metric: z.enum(['all', ...PERIOD_METRICS] as ['all', ...PeriodMetric[]]).default('all'),
+  // Also compare against the same window a year earlier
+  yearOverYear: booleanParam.default('false')
+}).refine(startWithEnd.check, startWithEnd.message);
+
+export const anomaliesQuerySchema = z.object({
+  ...analyticsRangeFields,
+  // Comma-separated metric names; defaults to analytics.anomalies.metrics
+  metrics: nonEmpty
+    .transform(value => value.split(',').map(name => name.trim()))
+    .pipe(z.array(z.enum(METRIC_NAMES as [MetricName, ...MetricName[]])))
+    .optional(),
+  sensitivity: z.enum(ANOMALY_SEVERITIES).optional()
+}).refine(startWithEnd.check, startWithEnd.message);
+
+export const anomaliesResponseSchema = z.object({ report: anomalyReportSchema });
+
+// ---------------------------------------------------------------------------
+// Inferred types
+// ---------------------------------------------------------------------------
+
+export type ObjectiveRequest = z.input<typeof objectiveSchema>;
+export type BenchmarkCohortRequest = z.input<typeof benchmarkCohortSchema>;
+
+export type CreativeAnalysisRequest = z.input<typeof creativeAnalysisRequestSchema>;
+export type CreativeAnalysisResponse = z.infer<typeof creativeAnalysisResponseSchema>;
+export type CreativeAnalysisSummaryResponse = z.infer<typeof creativeAnalysisSummaryResponseSchema>;
+export type FeatureDefinitionsResponse = z.infer<typeof featureDefinitionsResponseSchema>;
+export type OutcomeDefinitionsResponse = z.infer<typeof outcomeDefinitionsResponseSchema>;
+export type ScenariosRequest = z.input<typeof scenariosRequestSchema>;
+export type ScenariosResponse = z.infer<typeof scenariosResponseSchema>;
+export type OptimizerRequest = z.input<typeof optimizerRequestSchema>;
+export type OptimizerResponse = z.infer<typeof optimizerResponseSchema>;
+
+export type CampaignAnalysisRequest = z.input<typeof campaignAnalysisRequestSchema>;
+export type CampaignSummaryResponse = z.infer<typeof campaignSummaryResponseSchema>;
+export type CampaignDetailResponse = z.infer<typeof campaignDetailResponseSchema>;
+export type AnalyzedCampaign = z.infer<typeof analyzedCampaignSchema>;
+export type CampaignListResponse = z.infer<typeof campaignListResponseSchema>;
+export type CampaignBatchResponse = z.infer<typeof campaignBatchResponseSchema>;
+export type BacktestResponse = z.infer<typeof backtestResponseSchema>;
+export type AnomaliesResponse = z.infer<typeof anomaliesResponseSchema>;
+export type AssetAnalysisResponse = z.infer<typeof assetAnalysisResponseSchema>;
+
+export type BenchmarksResponse = z.infer<typeof benchmarksResponseSchema>;
+export type CreativeInsightsResponse = z.infer<typeof creativeInsightsResponseSchema>;
+
+export type AskCESRole = z.infer<typeof askCESRoleSchema>;
+export type AskCESRequest = z.input<typeof askCESRequestSchema>;
+export type AskCESBusinessScore = z.infer<typeof askCESBusinessScoreSchema>;
+export type AskCESResponse = z.infer<typeof askCESResponseSchema>;
+export type AskScoutRequest = z.input<typeof askScoutRequestSchema>;
+export type AskScoutResponse = z.infer<typeof askScoutResponseSchema>;
+
+export type BusinessRegistryRequest = z.input<typeof businessRegistryRequestSchema>;
+export type CalibrationRequest = z.input<typeof calibrationRequestSchema>;
+export type FeatureRulesDryRunRequest = z.input<typeof featureRulesDryRunRequestSchema>;
+export type CreateCampaignRequest = z.input<typeof createCampaignRequestSchema>;
@@ -0,0 +1,57 @@
+/**
+ * API Validation
+ * Parses route input with the schemas in lib/api-schemas.ts. Invalid input
+ * becomes a 400 listing every failing field by path, e.g.
+ * { error: 'Invalid request', errors: [{ path: 'creativeScores.visual_clarity', message }] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { z } from 'zod';
+import type { ValidationErrorResponse, ValidationIssue } from './api-schemas';
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; response: NextResponse<ValidationErrorResponse> };
+
+export function formatIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    message: issue.message
+  }));
+}
+
+export function validationError(errors: ValidationIssue[], error = 'Invalid request') {
+  return NextResponse.json<ValidationErrorResponse>({ error, errors }, { status: 400 });
+}
+
+export function parseInput<S extends z.ZodTypeAny>(schema: S, input: unknown): ParseResult<z.output<S>> {
+  const parsed = schema.safeParse(input);
+  return parsed.success
+    ? { success: true, data: parsed.data }
+    : { success: false, response: validationError(formatIssues(parsed.error)) };
+}
+
+export async function parseJsonBody<S extends z.ZodTypeAny>(
+  request: Pick<NextRequest, 'json'>,
+  schema: S
+): Promise<ParseResult<z.output<S>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: validationError([{ path: '(root)', message: 'Request body must be valid JSON' }])
+    };
+  }
+  return parseInput(schema, body);
+}
+
+// Repeated keys keep their last value
+export function parseSearchParams<S extends z.ZodTypeAny>(
+  request: Pick<NextRequest, 'url'>,
+  schema: S
+): ParseResult<z.output<S>> {
+  const { searchParams } = new URL(request.url);
+  return parseInput(schema, Object.fromEntries(searchParams.entries()));
+}
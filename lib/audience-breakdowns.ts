@@ -0,0 +1,153 @@
+/**
+ * Audience Breakdowns
+ * Delivery split by a key of campaign_events.metadata (age band, gender,
+ * device, region, ...), with the breakdowns defined under
+ * analytics.breakdowns in config/ask-ces.yaml. Each segment is labelled by
+ * how its rate compares with the rate over all events (one-proportion z-test)
+ */
+
+import { Z_SCORES } from './business-outcome-engine';
+import { loadAskCESConfig } from './config';
+import { runMetricsQuery } from './metrics-query';
+import { getAnalyticsSettings, type AnalyticsSettings, type PeriodWindow } from './period-comparison';
+
+// Rates a segment is judged on: successes / trials
+const PERFORMANCE_METRICS = {
+  ctr: { successes: 'clicks', trials: 'impressions' },
+  conversion_rate: { successes: 'conversions', trials: 'clicks' }
+} as const;
+
+export type BreakdownPerformanceMetric = keyof typeof PERFORMANCE_METRICS;
+
+export interface BreakdownDefinition {
+  name: string;
+  metadataKey: string;
+  performanceMetric: BreakdownPerformanceMetric;
+  // Segments kept, by impressions
+  limit: number;
+}
+
+export type PerformanceLabel = 'excellent' | 'above_average' | 'average' | 'below_average' | 'poor';
+
+export interface BreakdownSegment {
+  segment: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  // Percent of all impressions in the window
+  share: number;
+  ctr: number;
+  conversion_rate: number;
+  roi: number;
+  performance: PerformanceLabel;
+  // Segment rate against the overall rate; null without trials
+  zScore: number | null;
+}
+
+export type AudienceBreakdowns = Record<string, BreakdownSegment[]>;
+
+const DEFAULT_BREAKDOWNS: BreakdownDefinition[] = [
+  { name: 'age', metadataKey: 'age_band', performanceMetric: 'conversion_rate', limit: 10 },
+  { name: 'gender', metadataKey: 'gender', performanceMetric: 'conversion_rate', limit: 10 },
+  { name: 'region', metadataKey: 'region', performanceMetric: 'conversion_rate', limit: 10 },
+  { name: 'device', metadataKey: 'device', performanceMetric: 'ctr', limit: 10 }
+];
+
+// analytics.breakdowns in config/ask-ces.yaml, else the defaults above
+export function getBreakdownDefinitions(): BreakdownDefinition[] {
+  const configured: Record<string, any> | undefined = loadAskCESConfig().analytics?.breakdowns;
+  if (!configured) return DEFAULT_BREAKDOWNS;
+
+  return Object.entries(configured).map(([name, definition]) => {
+    let performanceMetric = definition?.performance_metric ?? 'ctr';
+    if (!Object.prototype.hasOwnProperty.call(PERFORMANCE_METRICS, performanceMetric)) {
+      console.error(`analytics.breakdowns.${name}.performance_metric must be one of ${Object.keys(PERFORMANCE_METRICS).join(', ')}; using ctr`);
+      performanceMetric = 'ctr';
+    }
+    return {
+      name,
+      metadataKey: definition?.metadata_key ?? name,
+      performanceMetric,
+      limit: definition?.limit ?? 10
+    };
+  });
+}
+
+/**
+ * z for a segment's rate against the overall rate. Null when the segment has
+ * no trials or the overall rate is 0 or 1
+ */
+export function proportionZScore(successes: number, trials: number, overallRate: number): number | null {
+  if (trials === 0 || overallRate <= 0 || overallRate >= 1) return null;
+  return (successes / trials - overallRate) / Math.sqrt((overallRate * (1 - overallRate)) / trials);
+}
+
+/**
+ * Significant at the configured level: above or below average; significant at
+ * 0.99 as well: excellent or poor
+ */
+export function performanceLabel(zScore: number | null, confidenceLevel: number): PerformanceLabel {
+  if (zScore === null) return 'average';
+  const critical = Z_SCORES[String(confidenceLevel)];
+  const strong = Math.max(critical, Z_SCORES['0.99']);
+  if (zScore >= strong) return 'excellent';
+  if (zScore >= critical) return 'above_average';
+  if (zScore <= -strong) return 'poor';
+  if (zScore <= -critical) return 'below_average';
+  return 'average';
+}
+
+type SegmentTotals = Pick<BreakdownSegment, 'impressions' | 'clicks' | 'conversions' | 'spend' | 'ctr' | 'conversion_rate' | 'roi'> & {
+  segment: string;
+};
+
+// Segments sorted by impressions, each labelled against the rate over all segments
+export function summarizeBreakdown(
+  definition: BreakdownDefinition,
+  segments: SegmentTotals[],
+  confidenceLevel: number
+): BreakdownSegment[] {
+  const { successes, trials } = PERFORMANCE_METRICS[definition.performanceMetric];
+  const total = (key: 'impressions' | 'clicks' | 'conversions') => segments.reduce((sum, s) => sum + s[key], 0);
+  const totalImpressions = total('impressions');
+  const totalTrials = total(trials);
+  const overallRate = totalTrials > 0 ? total(successes) / totalTrials : 0;
+
+  return [...segments]
+    .sort((a, b) => b.impressions - a.impressions)
+    .slice(0, definition.limit)
+    .map(segment => {
+      const zScore = proportionZScore(segment[successes], segment[trials], overallRate);
+      return {
+        ...segment,
+        share: totalImpressions > 0 ? Math.round((segment.impressions / totalImpressions) * 10000) / 100 : 0,
+        performance: performanceLabel(zScore, confidenceLevel),
+        zScore: zScore === null ? null : Math.round(zScore * 100) / 100
+      };
+    });
+}
+
+export interface AudienceBreakdownOptions {
+  window: PeriodWindow;
+  campaignId?: string;
+  definitions?: BreakdownDefinition[];
+  settings?: AnalyticsSettings;
+}
+
+export async function getAudienceBreakdowns(options: AudienceBreakdownOptions): Promise<AudienceBreakdowns> {
+  const { window, campaignId, definitions = getBreakdownDefinitions(), settings = getAnalyticsSettings() } = options;
+
+  const breakdowns = await Promise.all(definitions.map(async definition => {
+    const rows = await runMetricsQuery({
+      metrics: ['impressions', 'clicks', 'conversions', 'spend', 'ctr', 'conversion_rate', 'roi'],
+      range: window,
+      groupBy: { kind: 'metadata', key: definition.metadataKey },
+      campaignId
+    });
+    const segments = rows.map(({ group, ...totals }) => ({ segment: String(group), ...totals }));
+    return [definition.name, summarizeBreakdown(definition, segments, settings.confidenceLevel)] as const;
+  }));
+
+  return Object.fromEntries(breakdowns);
+}
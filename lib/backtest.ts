@@ -0,0 +1,177 @@
+/**
+ * Prediction vs Actual Backtesting
+ * Runs the business outcome engine over every campaign and compares its
+ * predicted outcome values with the outcomes observed in performance_metrics
+ */
+
+import { BUSINESS_ENGINE_VERSION, BUSINESS_OUTCOMES, type BusinessOutcomeEngine } from './business-outcome-engine';
+import { buildCalibrationSamples } from './calibration';
+import type { CampaignDataset } from './campaign-data';
+import { resolveCampaignObjective } from './objectives';
+
+export interface CalibrationBucket {
+  bucket: number; // 1 = lowest predicted scores
+  samples: number;
+  meanPredicted: number;
+  meanActual: number;
+}
+
+export interface OutcomeBacktest {
+  outcome: string;
+  samples: number;
+  mae: number; // on the actual outcome's scale, after mean alignment
+  relativeMae: number; // mae / mean actual
+  rankCorrelation: number; // Spearman's rho, -1..1
+  predictionScale: number; // factor mapping predicted outcome values onto the actual scale
+  buckets: CalibrationBucket[];
+}
+
+export interface CampaignBacktest {
+  campaignId: string;
+  campaignName: string;
+  brand: string;
+  objective: string;
+  totalScore: number;
+  predicted: Record<string, number>;
+  actual: Record<string, number>;
+}
+
+export interface BacktestReport {
+  engineVersion: string;
+  weightSetVersion: string;
+  dataSource: string;
+  generatedAt: string;
+  samples: number;
+  summary: {
+    meanRankCorrelation: number;
+    meanRelativeMae: number;
+    scoreRankCorrelation: number; // CES totalScore vs average actual outcome rank
+  };
+  outcomes: OutcomeBacktest[];
+  campaigns: CampaignBacktest[];
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const round = (value: number, places = 4) => Math.round(value * 10 ** places) / 10 ** places;
+
+// 1-based ranks, ties share their average rank
+export function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array(values.length).fill(0);
+
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+// Spearman's rho as the Pearson correlation of ranks; 0 when either side is constant
+export function rankCorrelation(x: number[], y: number[]): number {
+  if (x.length < 2) return 0;
+  const rx = rank(x);
+  const ry = rank(y);
+  const mx = mean(rx);
+  const my = mean(ry);
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mx) * (ry[i] - my);
+    varianceX += (rx[i] - mx) ** 2;
+    varianceY += (ry[i] - my) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
+
+/**
+ * Equal-count buckets ordered by prediction, so a well calibrated engine
+ * shows mean actual rising alongside mean predicted
+ */
+export function calibrationBuckets(predicted: number[], actual: number[], bucketCount: number): CalibrationBucket[] {
+  const pairs = predicted.map((p, i) => ({ p, a: actual[i] })).sort((x, y) => x.p - y.p);
+  const count = Math.max(1, Math.min(bucketCount, pairs.length));
+
+  return Array.from({ length: count }, (_, b) => {
+    const slice = pairs.slice(Math.floor((b * pairs.length) / count), Math.floor(((b + 1) * pairs.length) / count));
+    return {
+      bucket: b + 1,
+      samples: slice.length,
+      meanPredicted: round(mean(slice.map(s => s.p))),
+      meanActual: round(mean(slice.map(s => s.a)))
+    };
+  });
+}
+
+export function runBacktest(
+  dataset: CampaignDataset,
+  engine: BusinessOutcomeEngine,
+  options: { buckets?: number } = {}
+): BacktestReport {
+  const bucketCount = options.buckets ?? 5;
+  const campaignsById = new Map(dataset.campaigns.map(c => [c.campaign_id, c]));
+
+  const campaigns: CampaignBacktest[] = buildCalibrationSamples(dataset).map(sample => {
+    const campaign = campaignsById.get(sample.campaignId)!;
+    const objective = resolveCampaignObjective(campaign);
+    const result = engine.calculateBusinessEffectiveness(sample.features, {}, objective.blend);
+    return {
+      campaignId: sample.campaignId,
+      campaignName: campaign.name,
+      brand: campaign.brand,
+      objective: objective.label,
+      totalScore: result.totalScore,
+      // Outcome values do not depend on the objective, so campaign types compare like for like
+      predicted: result.outcomeValues,
+      actual: sample.outcomes
+    };
+  });
+
+  const outcomes: OutcomeBacktest[] = Object.keys(BUSINESS_OUTCOMES).map(outcomeId => {
+    const predictedRaw = campaigns.map(c => c.predicted[outcomeId] || 0);
+    const actual = campaigns.map(c => c.actual[outcomeId] || 0);
+
+    // Outcome values use the engine's target units; align means with the actuals before measuring error
+    const predictedMean = mean(predictedRaw);
+    const actualMean = mean(actual);
+    const predictionScale = predictedMean > 0 ? actualMean / predictedMean : 1;
+    const predicted = predictedRaw.map(p => p * predictionScale);
+    const mae = mean(predicted.map((p, i) => Math.abs(p - actual[i])));
+
+    return {
+      outcome: outcomeId,
+      samples: campaigns.length,
+      mae: round(mae),
+      relativeMae: round(actualMean !== 0 ? mae / Math.abs(actualMean) : 0),
+      rankCorrelation: round(rankCorrelation(predictedRaw, actual)),
+      predictionScale: round(predictionScale, 6),
+      buckets: calibrationBuckets(predicted, actual, bucketCount)
+    };
+  });
+
+  // Average each campaign's actual rank across outcomes as a single "how well did it do" measure
+  const actualRanks = outcomes.map(o => rank(campaigns.map(c => c.actual[o.outcome] || 0)));
+  const compositeActual = campaigns.map((_, i) => mean(actualRanks.map(r => r[i])));
+
+  return {
+    engineVersion: BUSINESS_ENGINE_VERSION,
+    weightSetVersion: engine.weightSetVersion,
+    dataSource: dataset.source,
+    generatedAt: new Date().toISOString(),
+    samples: campaigns.length,
+    summary: {
+      meanRankCorrelation: round(mean(outcomes.map(o => o.rankCorrelation))),
+      meanRelativeMae: round(mean(outcomes.map(o => o.relativeMae))),
+      scoreRankCorrelation: round(rankCorrelation(campaigns.map(c => c.totalScore), compositeActual))
+    },
+    outcomes,
+    campaigns
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * CES Benchmarks
+ * Percentile distributions of the CES score and each outcome across the
+ * loaded campaigns, per industry, region, channel and brand. Benchmarks are
+ * cached per loaded dataset, so they are rebuilt whenever the data reloads
+ */
+
+import { loadAskCESConfig } from './config';
+import {
+  describeObjective,
+  normalizeObjective,
+  type BusinessEffectivenessResult,
+  type BusinessOutcomeEngine,
+  type ObjectiveInput
+} from './business-outcome-engine';
+import type { CampaignDataset } from './campaign-data';
+import { aggregateCampaignFeatures, getDefaultAggregationStrategy } from './creative-features';
+
+export const BENCHMARK_DIMENSIONS = ['industry', 'region', 'channel', 'brand'] as const;
+
+export type BenchmarkDimension = typeof BENCHMARK_DIMENSIONS[number];
+
+// Campaigns matching every given dimension value; {} is every campaign
+export type BenchmarkCohort = Partial<Record<BenchmarkDimension, string>>;
+
+export interface DistributionSummary {
+  count: number;
+  mean: number;
+  min: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  max: number;
+}
+
+export interface CohortBenchmark {
+  cohort: BenchmarkCohort;
+  label: string;
+  sampleSize: number;
+  totalScore: DistributionSummary;
+  outcomes: Record<string, DistributionSummary>;
+}
+
+export interface BenchmarkRanking {
+  cohort: BenchmarkCohort;
+  label: string;
+  sampleSize: number;
+  insufficientData: boolean;
+  // Percentile ranks (0-100) of the scored creative within the cohort; null when insufficientData
+  totalScore: { score: number; percentile: number | null; median: number | null };
+  outcomes: Record<string, number | null>;
+}
+
+interface ScoredCampaign {
+  campaignId: string;
+  dimensions: BenchmarkCohort;
+  totalScore: number;
+  outcomes: Record<string, number>;
+}
+
+export interface BenchmarkSet {
+  objective: string;
+  weightSetVersion: string;
+  datasetLoadedAt: string;
+  builtAt: string;
+  campaigns: ScoredCampaign[];
+  // Sorted score arrays per cohort key, filled on first use
+  sorted: Map<string, { totalScore: number[]; outcomes: Record<string, number[]> }>;
+}
+
+export interface BenchmarkSettings {
+  minSampleSize: number;
+}
+
+// benchmarks block in config/ask-ces.yaml
+export function getBenchmarkSettings(): BenchmarkSettings {
+  const configured = loadAskCESConfig().benchmarks || {};
+  return { minSampleSize: configured.min_sample_size ?? 3 };
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Linear interpolation between closest ranks, on an ascending array
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Percentile rank of a value in an ascending array: the share of values
+ * below it, counting ties as half, on 0-100
+ */
+export function percentileRank(sorted: number[], value: number): number {
+  if (sorted.length === 0) return 0;
+  const below = sorted.filter(v => v < value).length;
+  const equal = sorted.filter(v => v === value).length;
+  return round(((below + equal / 2) / sorted.length) * 100);
+}
+
+export function summarizeDistribution(sorted: number[]): DistributionSummary {
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, v) => sum + v, 0) / (sorted.length || 1)),
+    min: round(sorted[0] ?? 0),
+    p10: round(quantile(sorted, 0.1)),
+    p25: round(quantile(sorted, 0.25)),
+    p50: round(quantile(sorted, 0.5)),
+    p75: round(quantile(sorted, 0.75)),
+    p90: round(quantile(sorted, 0.9)),
+    max: round(sorted[sorted.length - 1] ?? 0)
+  };
+}
+
+export function describeCohort(cohort: BenchmarkCohort): string {
+  const { industry, region, channel, brand } = cohort;
+  const parts = [
+    brand ?? industry ?? 'Campaigns',
+    brand && industry ? `(${industry})` : undefined,
+    channel ? `on ${channel}` : undefined,
+    region ? `in ${region}` : undefined
+  ].filter(Boolean);
+  return parts.length > 1 || brand || industry ? parts.join(' ') : 'All campaigns';
+}
+
+const cohortKey = (cohort: BenchmarkCohort) =>
+  BENCHMARK_DIMENSIONS.map(d => `${d}=${cohort[d] ?? '*'}`).join('|');
+
+/**
+ * Score every campaign that has creative assets, under one objective and
+ * without business priorities, so creatives are compared like for like
+ */
+export function buildBenchmarks(
+  dataset: CampaignDataset,
+  engine: BusinessOutcomeEngine,
+  objective: ObjectiveInput,
+  tenantId?: string
+): BenchmarkSet {
+  const blend = normalizeObjective(objective);
+  const strategy = getDefaultAggregationStrategy();
+
+  const campaigns = dataset.campaigns.flatMap(campaign => {
+    const assets = dataset.creativeAssets.filter(a => a.campaign_id === campaign.campaign_id);
+    const aggregated = aggregateCampaignFeatures(assets, strategy, engine, blend, tenantId);
+    if (!aggregated) return [];
+
+    const result = engine.calculateBusinessEffectiveness(aggregated.featureScores, {}, blend);
+    const dimensions: BenchmarkCohort = {};
+    for (const dimension of BENCHMARK_DIMENSIONS) {
+      if (campaign[dimension] !== undefined && campaign[dimension] !== null) {
+        dimensions[dimension] = String(campaign[dimension]);
+      }
+    }
+    return [{
+      campaignId: campaign.campaign_id,
+      dimensions,
+      totalScore: result.totalScore,
+      outcomes: result.outcomeBreakdown
+    }];
+  });
+
+  return {
+    objective: describeObjective(blend),
+    weightSetVersion: engine.weightSetVersion,
+    datasetLoadedAt: dataset.loadedAt,
+    builtAt: new Date().toISOString(),
+    campaigns,
+    sorted: new Map()
+  };
+}
+
+// A new dataset object on every load, so entries for stale data are dropped with it
+const benchmarkCache = new WeakMap<CampaignDataset, Map<string, BenchmarkSet>>();
+
+export function getBenchmarks(
+  dataset: CampaignDataset,
+  engine: BusinessOutcomeEngine,
+  objective: ObjectiveInput,
+  tenantId: string
+): BenchmarkSet {
+  const blend = normalizeObjective(objective);
+  const key = `${tenantId}:${engine.weightSetVersion}:${JSON.stringify(Object.entries(blend).sort())}`;
+
+  let sets = benchmarkCache.get(dataset);
+  if (!sets) {
+    sets = new Map();
+    benchmarkCache.set(dataset, sets);
+  }
+  let set = sets.get(key);
+  if (!set) {
+    set = buildBenchmarks(dataset, engine, blend, tenantId);
+    sets.set(key, set);
+  }
+  return set;
+}
+
+function sortedScores(set: BenchmarkSet, cohort: BenchmarkCohort) {
+  const key = cohortKey(cohort);
+  let scores = set.sorted.get(key);
+  if (!scores) {
+    const members = set.campaigns.filter(c =>
+      BENCHMARK_DIMENSIONS.every(d => cohort[d] === undefined || c.dimensions[d] === cohort[d])
+    );
+    const outcomeIds = [...new Set(members.flatMap(c => Object.keys(c.outcomes)))];
+    scores = {
+      totalScore: members.map(c => c.totalScore).sort((a, b) => a - b),
+      outcomes: Object.fromEntries(
+        outcomeIds.map(id => [id, members.map(c => c.outcomes[id] || 0).sort((a, b) => a - b)])
+      )
+    };
+    set.sorted.set(key, scores);
+  }
+  return scores;
+}
+
+export function getCohortBenchmark(set: BenchmarkSet, cohort: BenchmarkCohort = {}): CohortBenchmark {
+  const scores = sortedScores(set, cohort);
+  return {
+    cohort,
+    label: describeCohort(cohort),
+    sampleSize: scores.totalScore.length,
+    totalScore: summarizeDistribution(scores.totalScore),
+    outcomes: Object.fromEntries(
+      Object.entries(scores.outcomes).map(([id, values]) => [id, summarizeDistribution(values)])
+    )
+  };
+}
+
+// Benchmarks for every value of one dimension
+export function getDimensionBenchmarks(set: BenchmarkSet, dimension: BenchmarkDimension): CohortBenchmark[] {
+  const values = [...new Set(set.campaigns.map(c => c.dimensions[dimension]).filter(Boolean))] as string[];
+  return values.sort().map(value => getCohortBenchmark(set, { [dimension]: value }));
+}
+
+/**
+ * Rank a scored creative against all campaigns, each dimension of the cohort
+ * on its own, and the full cohort (e.g. FMCG in NCR). The result must come
+ * from the benchmark's objective with no business priorities
+ */
+export function rankAgainstBenchmarks(
+  set: BenchmarkSet,
+  result: Pick<BusinessEffectivenessResult, 'totalScore' | 'outcomeBreakdown'>,
+  cohort: BenchmarkCohort = {},
+  settings: BenchmarkSettings = getBenchmarkSettings()
+): BenchmarkRanking[] {
+  const given = BENCHMARK_DIMENSIONS.filter(d => cohort[d] !== undefined);
+  const cohorts: BenchmarkCohort[] = [{}, ...given.map(d => ({ [d]: cohort[d] }))];
+  if (given.length > 1) cohorts.push(cohort);
+
+  return cohorts.map(c => {
+    const scores = sortedScores(set, c);
+    const insufficientData = scores.totalScore.length < settings.minSampleSize;
+    return {
+      cohort: c,
+      label: describeCohort(c),
+      sampleSize: scores.totalScore.length,
+      insufficientData,
+      totalScore: {
+        score: result.totalScore,
+        percentile: insufficientData ? null : percentileRank(scores.totalScore, result.totalScore),
+        median: insufficientData ? null : round(quantile(scores.totalScore, 0.5))
+      },
+      outcomes: Object.fromEntries(
+        Object.entries(result.outcomeBreakdown).map(([id, score]) => [
+          id,
+          insufficientData || !scores.outcomes[id] ? null : percentileRank(scores.outcomes[id], score)
+        ])
+      )
+    };
+  });
+}
+
+export function isBenchmarkCohort(value: unknown): value is BenchmarkCohort {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(
+    ([key, v]) => (BENCHMARK_DIMENSIONS as readonly string[]).includes(key) && typeof v === 'string'
+  );
+}
@@ -4,6 +4,9 @@
  * NOT tied to award-winning patterns
  */
 
+import type { WeightSet } from './calibration';
+import { CES_SCORE_SCALE, MAX_FEATURE_SCORE, clampToScale, type ScoreScale } from './score-scale';
+
 export interface BusinessOutcome {
   id: string;
   name: string;
@@ -28,6 +31,188 @@ export interface CreativeFeature {
   timeToImplement: 'immediate' | 'short' | 'medium' | 'long';
 }
 
+export type CampaignObjective = 'conversion' | 'brand' | 'engagement' | 'efficiency';
+
+export const CAMPAIGN_OBJECTIVES: CampaignObjective[] = ['conversion', 'brand', 'engagement', 'efficiency'];
+
+// Share of each objective in a blended objective, e.g. { brand: 0.6, conversion: 0.4 }
+export type ObjectiveBlend = Partial<Record<CampaignObjective, number>>;
+
+export type ObjectiveInput = CampaignObjective | ObjectiveBlend;
+
+export class ObjectiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ObjectiveError';
+  }
+}
+
+// Multiplier per outcome category under each pure objective
+export const OBJECTIVE_WEIGHTS: Record<CampaignObjective, Record<BusinessOutcome['category'], number>> = {
+  conversion: {
+    engagement: 0.8,
+    conversion: 1.5,
+    brand: 0.7,
+    efficiency: 1.2,
+    behavioral: 1.3
+  },
+  brand: {
+    engagement: 1.1,
+    conversion: 0.8,
+    brand: 1.5,
+    efficiency: 0.9,
+    behavioral: 1.0
+  },
+  engagement: {
+    engagement: 1.5,
+    conversion: 0.9,
+    brand: 1.1,
+    efficiency: 1.0,
+    behavioral: 1.2
+  },
+  efficiency: {
+    engagement: 0.9,
+    conversion: 1.2,
+    brand: 0.8,
+    efficiency: 1.5,
+    behavioral: 1.0
+  }
+};
+
+/**
+ * Turn an objective name or blend into a blend whose shares sum to 1.
+ * Unknown objectives are an error rather than a silent fall back to conversion
+ */
+export function normalizeObjective(input: unknown): ObjectiveBlend {
+  if (typeof input === 'string') {
+    if (!CAMPAIGN_OBJECTIVES.includes(input as CampaignObjective)) {
+      throw new ObjectiveError(`objective must be one of ${CAMPAIGN_OBJECTIVES.join(', ')} or a blend of them`);
+    }
+    return { [input]: 1 };
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ObjectiveError('objective must be an objective name or a { objective: share } blend');
+  }
+
+  const entries = Object.entries(input);
+  for (const [objective, share] of entries) {
+    if (!CAMPAIGN_OBJECTIVES.includes(objective as CampaignObjective)) {
+      throw new ObjectiveError(`Unknown objective in blend: ${objective}`);
+    }
+    if (typeof share !== 'number' || !Number.isFinite(share) || share < 0) {
+      throw new ObjectiveError(`Share for ${objective} must be a non-negative number`);
+    }
+  }
+  const total = entries.reduce((sum, [, share]) => sum + (share as number), 0);
+  if (total <= 0) {
+    throw new ObjectiveError('Objective blend shares must add up to more than 0');
+  }
+  return Object.fromEntries(
+    entries.filter(([, share]) => (share as number) > 0).map(([objective, share]) => [objective, (share as number) / total])
+  );
+}
+
+// The objective with the largest share
+export function primaryObjective(blend: ObjectiveBlend): CampaignObjective {
+  return (Object.entries(blend).sort(([, a], [, b]) => (b ?? 0) - (a ?? 0))[0]?.[0] ?? 'conversion') as CampaignObjective;
+}
+
+export function describeObjective(blend: ObjectiveBlend): string {
+  const entries = Object.entries(blend).sort(([, a], [, b]) => (b ?? 0) - (a ?? 0));
+  if (entries.length === 1) return entries[0][0];
+  return entries.map(([objective, share]) => `${Math.round((share ?? 0) * 100)}% ${objective}`).join(' + ');
+}
+
+export interface ImplementationPlanItem {
+  feature: string;
+  currentScore: number;
+  targetScore: number;
+  gap: number;
+  costToImplement: CreativeFeature['costToImplement'];
+  timeToImplement: CreativeFeature['timeToImplement'];
+  testability: CreativeFeature['testability'];
+  expectedROI: 'Very High' | 'High' | 'Medium' | 'Low';
+  implementation: string[];
+  priority: 'high' | 'medium' | 'low';
+}
+
+// Outcomes and features an engine scores against; built-ins plus any tenant additions
+export interface BusinessDefinitions {
+  outcomes: Record<string, BusinessOutcome>;
+  features: CreativeFeature[];
+}
+
+// Bumped whenever scoring changes in a way that makes results incomparable
+export const BUSINESS_ENGINE_VERSION = '3.0.0';
+
+// Before 3.0.0 totalScore was the summed outcome scores / 100, with no upper bound
+export const LEGACY_SCORE_ENGINE_MAJOR = 2;
+
+// Feature score the implementation plan aims for, and at which an outcome is predicted to meet its targetValue
+export const TARGET_FEATURE_SCORE = 8;
+
+/**
+ * Result of a business effectiveness calculation, shared by every API route
+ */
+export interface BusinessEffectivenessResult {
+  engineVersion: string;
+  weightSetVersion: string;
+  objective: CampaignObjective; // primary objective of the blend
+  objectiveBlend: ObjectiveBlend;
+  scale: ScoreScale;
+  totalScore: number; // on scale
+  // Weighted contribution of each outcome to totalScore; not in the outcome's units
+  outcomeBreakdown: Record<string, number>;
+  // Predicted value of each outcome in the units of its threshold and targetValue
+  outcomeValues: Record<string, number>;
+  featureROI: Record<string, number>;
+  implementationPlan: ImplementationPlanItem[];
+  businessRecommendations: string[];
+  uncertainty?: ScoreUncertainty;
+}
+
+export interface ScoreInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+  stdDev: number;
+}
+
+// One bar of a tornado chart: the score at each end of a feature's plausible range
+export interface FeatureSensitivity {
+  featureId: string;
+  featureName: string;
+  lowInput: number;
+  highInput: number;
+  lowScore: number;
+  highScore: number;
+  swing: number;
+}
+
+export interface ScoreUncertainty {
+  method: 'analytic';
+  confidenceLevel: number;
+  totalScore: ScoreInterval;
+  outcomeBreakdown: Record<string, ScoreInterval>;
+  outcomeValues: Record<string, ScoreInterval>;
+  sensitivity: FeatureSensitivity[];
+}
+
+export interface UncertaintyOptions {
+  featureUncertainty?: Record<string, number>; // standard deviation on the 0-10 feature scale
+  confidenceLevel?: number;
+}
+
+// Standard deviation assumed for a feature without explicit uncertainty
+export const FEATURE_UNCERTAINTY = {
+  scored: 1.0,
+  missing: 2.5
+};
+
+export const Z_SCORES: Record<string, number> = { '0.8': 1.2816, '0.9': 1.6449, '0.95': 1.96, '0.99': 2.5758 };
+
+export const CONFIDENCE_LEVELS = Object.keys(Z_SCORES).map(Number);
+
 // Business Outcomes Framework (NOT award-based)
 export const BUSINESS_OUTCOMES: Record<string, BusinessOutcome> = {
   engagement: {
@@ -519,46 +704,88 @@ export const BUSINESS_DRIVEN_FEATURES: CreativeFeature[] = [
  * Focuses purely on business outcomes, not awards
  */
 export class BusinessOutcomeEngine {
-  
+
+  // Without a weight set, each feature's hand-tuned businessImpact is used
+  constructor(
+    private readonly weightSet?: WeightSet,
+    private readonly definitions: BusinessDefinitions = { outcomes: BUSINESS_OUTCOMES, features: BUSINESS_DRIVEN_FEATURES }
+  ) {}
+
+  get weightSetVersion(): string {
+    return this.weightSet?.version ?? 'default';
+  }
+
+  get outcomes(): Record<string, BusinessOutcome> {
+    return this.definitions.outcomes;
+  }
+
+  get features(): CreativeFeature[] {
+    return this.definitions.features;
+  }
+
+  withWeightSet(weightSet: WeightSet): BusinessOutcomeEngine {
+    return new BusinessOutcomeEngine(weightSet, this.definitions);
+  }
+
+  withDefinitions(definitions: BusinessDefinitions): BusinessOutcomeEngine {
+    return new BusinessOutcomeEngine(this.weightSet, definitions);
+  }
+
+  // Calibrated weights cover built-in pairs; anything else keeps its declared impact
+  getImpacts(feature: CreativeFeature): Record<string, number> {
+    return { ...feature.businessImpact, ...this.weightSet?.weights[feature.id] };
+  }
+
+  /**
+   * Factor turning an outcome's impact-weighted feature sum into its own units:
+   * every feature at TARGET_FEATURE_SCORE predicts exactly targetValue.
+   * Objective and priority weights scale importance, not the predicted value
+   */
+  private getOutcomeValueFactor(outcomeId: string): number {
+    const impactSum = this.features.reduce((sum, feature) => sum + (this.getImpacts(feature)[outcomeId] || 0), 0);
+    return impactSum > 0 ? this.outcomes[outcomeId].targetValue / (TARGET_FEATURE_SCORE * impactSum) : 0;
+  }
+
   calculateBusinessEffectiveness(
     featureScores: Record<string, number>,
     businessPriorities: Record<string, number> = {},
-    campaignObjective: 'conversion' | 'brand' | 'engagement' | 'efficiency' = 'conversion'
-  ): {
-    totalScore: number;
-    outcomeBreakdown: Record<string, number>;
-    featureROI: Record<string, number>;
-    implementationPlan: any[];
-    businessRecommendations: string[];
-  } {
+    campaignObjective: ObjectiveInput = 'conversion',
+    uncertaintyOptions?: UncertaintyOptions
+  ): BusinessEffectivenessResult {
     
     // Apply objective weights
-    const objectiveWeights = this.getObjectiveWeights(campaignObjective);
+    const objectiveBlend = normalizeObjective(campaignObjective);
+    const objectiveWeights = this.getObjectiveWeights(objectiveBlend);
     
     // Calculate outcome scores
     const outcomeBreakdown: Record<string, number> = {};
+    const outcomeValues: Record<string, number> = {};
     const featureROI: Record<string, number> = {};
     
-    for (const [outcomeId, outcome] of Object.entries(BUSINESS_OUTCOMES)) {
+    for (const [outcomeId, outcome] of Object.entries(this.outcomes)) {
       let outcomeScore = 0;
+      let impactWeightedScore = 0;
       
-      for (const feature of BUSINESS_DRIVEN_FEATURES) {
+      for (const feature of this.features) {
         const featureScore = featureScores[feature.id] || 0;
-        const impact = feature.businessImpact[outcomeId] || 0;
+        const impact = this.getImpacts(feature)[outcomeId] || 0;
         const weight = objectiveWeights[outcome.category] || 1;
         const contribution = featureScore * impact * weight;
         
         outcomeScore += contribution;
+        impactWeightedScore += featureScore * impact;
         featureROI[feature.id] = (featureROI[feature.id] || 0) + contribution;
       }
       
       // Apply business priority weight
       const priorityWeight = businessPriorities[outcomeId] || 1;
       outcomeBreakdown[outcomeId] = outcomeScore * priorityWeight * outcome.weight;
+      outcomeValues[outcomeId] = impactWeightedScore * this.getOutcomeValueFactor(outcomeId);
     }
     
-    // Calculate total business score
-    const totalScore = Object.values(outcomeBreakdown).reduce((sum, score) => sum + score, 0) / 100;
+    // Calculate total business score, normalised onto the CES score scale
+    const rawTotal = Object.values(outcomeBreakdown).reduce((sum, score) => sum + score, 0);
+    const totalScore = clampToScale(rawTotal * this.getScoreNormalizer(businessPriorities, campaignObjective));
     
     // Generate implementation plan
     const implementationPlan = this.generateImplementationPlan(featureScores);
@@ -566,63 +793,167 @@ export class BusinessOutcomeEngine {
     // Generate business-focused recommendations
     const businessRecommendations = this.generateBusinessRecommendations(
       featureScores, 
-      outcomeBreakdown, 
-      campaignObjective
+      outcomeValues
     );
     
     return {
+      engineVersion: BUSINESS_ENGINE_VERSION,
+      weightSetVersion: this.weightSetVersion,
+      objective: primaryObjective(objectiveBlend),
+      objectiveBlend,
+      scale: CES_SCORE_SCALE,
       totalScore: Math.round(totalScore * 100) / 100,
       outcomeBreakdown,
+      outcomeValues,
       featureROI,
       implementationPlan,
-      businessRecommendations
+      businessRecommendations,
+      ...(uncertaintyOptions && {
+        uncertainty: this.calculateUncertainty(featureScores, businessPriorities, campaignObjective, uncertaintyOptions)
+      })
     };
   }
-  
-  private getObjectiveWeights(objective: string): Record<string, number> {
-    const weights = {
-      conversion: {
-        engagement: 0.8,
-        conversion: 1.5,
-        brand: 0.7,
-        efficiency: 1.2,
-        behavioral: 1.3
-      },
-      brand: {
-        engagement: 1.1,
-        conversion: 0.8,
-        brand: 1.5,
-        efficiency: 0.9,
-        behavioral: 1.0
-      },
-      engagement: {
-        engagement: 1.5,
-        conversion: 0.9,
-        brand: 1.1,
-        efficiency: 1.0,
-        behavioral: 1.2
-      },
-      efficiency: {
-        engagement: 0.9,
-        conversion: 1.2,
-        brand: 0.8,
-        efficiency: 1.5,
-        behavioral: 1.0
+
+  /**
+   * Factor turning summed outcome scores into the CES scale: the scale maximum
+   * over the sum with every feature at MAX_FEATURE_SCORE
+   */
+  getScoreNormalizer(
+    businessPriorities: Record<string, number> = {},
+    campaignObjective: ObjectiveInput = 'conversion'
+  ): number {
+    const objectiveWeights = this.getObjectiveWeights(campaignObjective);
+    let rawMax = 0;
+    for (const [outcomeId, outcome] of Object.entries(this.outcomes)) {
+      const scale = (objectiveWeights[outcome.category] || 1) * (businessPriorities[outcomeId] || 1) * outcome.weight;
+      for (const feature of this.features) {
+        rawMax += MAX_FEATURE_SCORE * (this.getImpacts(feature)[outcomeId] || 0) * scale;
       }
+    }
+    return rawMax > 0 ? CES_SCORE_SCALE.max / rawMax : 0;
+  }
+
+  /**
+   * Convert a totalScore produced by engine 2.x (summed outcomes / 100) to the
+   * current scale. Exact only with the same weights, definitions, objective and priorities
+   */
+  migrateLegacyTotalScore(
+    legacyScore: number,
+    campaignObjective: ObjectiveInput = 'conversion',
+    businessPriorities: Record<string, number> = {}
+  ): number {
+    const score = clampToScale(legacyScore * 100 * this.getScoreNormalizer(businessPriorities, campaignObjective));
+    return Math.round(score * 100) / 100;
+  }
+
+  /**
+   * Confidence bands and tornado sensitivity. Scores are linear in the feature
+   * inputs, so with independent normal feature errors the bands are exact
+   */
+  calculateUncertainty(
+    featureScores: Record<string, number>,
+    businessPriorities: Record<string, number> = {},
+    campaignObjective: ObjectiveInput = 'conversion',
+    { featureUncertainty = {}, confidenceLevel = 0.9 }: UncertaintyOptions = {}
+  ): ScoreUncertainty {
+    const z = Z_SCORES[String(confidenceLevel)];
+    if (!z) {
+      throw new Error(`confidenceLevel must be one of: ${CONFIDENCE_LEVELS.join(', ')}`);
+    }
+
+    const objectiveWeights = this.getObjectiveWeights(campaignObjective);
+    const normalizer = this.getScoreNormalizer(businessPriorities, campaignObjective);
+    const sigma = (featureId: string) => featureUncertainty[featureId]
+      ?? (featureId in featureScores ? FEATURE_UNCERTAINTY.scored : FEATURE_UNCERTAINTY.missing);
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const interval = (estimate: number, variance: number, max = Infinity): ScoreInterval => {
+      const stdDev = Math.sqrt(variance);
+      return {
+        estimate: round(estimate),
+        lower: round(Math.max(0, estimate - z * stdDev)),
+        upper: round(Math.min(max, estimate + z * stdDev)),
+        stdDev: round(stdDev)
+      };
     };
-    
-    return weights[objective as keyof typeof weights] || weights.conversion;
+
+    // d(score)/d(feature) for every outcome, and for the normalised total
+    const totalGradient: Record<string, number> = {};
+    const outcomeBreakdown: Record<string, ScoreInterval> = {};
+    const outcomeValues: Record<string, ScoreInterval> = {};
+    let totalEstimate = 0;
+
+    for (const [outcomeId, outcome] of Object.entries(this.outcomes)) {
+      const scale = (objectiveWeights[outcome.category] || 1) * (businessPriorities[outcomeId] || 1) * outcome.weight;
+      let estimate = 0;
+      let variance = 0;
+
+      for (const feature of this.features) {
+        const gradient = (this.getImpacts(feature)[outcomeId] || 0) * scale;
+        estimate += (featureScores[feature.id] || 0) * gradient;
+        variance += Math.pow(gradient * sigma(feature.id), 2);
+        totalGradient[feature.id] = (totalGradient[feature.id] || 0) + gradient * normalizer;
+      }
+
+      outcomeBreakdown[outcomeId] = interval(estimate, variance);
+      // The outcome value is the same linear combination, rescaled
+      const valueScale = scale > 0 ? this.getOutcomeValueFactor(outcomeId) / scale : 0;
+      outcomeValues[outcomeId] = interval(estimate * valueScale, variance * valueScale ** 2);
+      totalEstimate += estimate * normalizer;
+    }
+
+    const totalVariance = this.features.reduce(
+      (sum, feature) => sum + Math.pow(totalGradient[feature.id] * sigma(feature.id), 2), 0
+    );
+
+    // Each feature swings across its band (clipped to 0-10) with the others held fixed
+    const sensitivity = this.features.map(feature => {
+      const score = featureScores[feature.id] || 0;
+      const lowInput = Math.max(0, score - z * sigma(feature.id));
+      const highInput = Math.min(10, score + z * sigma(feature.id));
+      const lowScore = totalEstimate + totalGradient[feature.id] * (lowInput - score);
+      const highScore = totalEstimate + totalGradient[feature.id] * (highInput - score);
+
+      return {
+        featureId: feature.id,
+        featureName: feature.name,
+        lowInput: round(lowInput),
+        highInput: round(highInput),
+        lowScore: round(lowScore),
+        highScore: round(highScore),
+        swing: round(Math.abs(highScore - lowScore))
+      };
+    }).sort((a, b) => b.swing - a.swing);
+
+    return {
+      method: 'analytic',
+      confidenceLevel,
+      totalScore: interval(totalEstimate, totalVariance, CES_SCORE_SCALE.max),
+      outcomeBreakdown,
+      outcomeValues,
+      sensitivity
+    };
+  }
+  
+  // Category multipliers for a blend: the share-weighted mix of each objective's weights
+  private getObjectiveWeights(objective: ObjectiveInput): Record<string, number> {
+    const weights: Record<string, number> = {};
+    for (const [name, share] of Object.entries(normalizeObjective(objective))) {
+      for (const [category, weight] of Object.entries(OBJECTIVE_WEIGHTS[name as CampaignObjective])) {
+        weights[category] = (weights[category] || 0) + weight * (share ?? 0);
+      }
+    }
+    return weights;
   }
   
-  private generateImplementationPlan(featureScores: Record<string, number>): any[] {
-    const plan = [];
+  private generateImplementationPlan(featureScores: Record<string, number>): ImplementationPlanItem[] {
+    const plan: ImplementationPlanItem[] = [];
     
     // Sort features by ROI potential and implementation ease
-    const sortedFeatures = BUSINESS_DRIVEN_FEATURES
+    const sortedFeatures = this.features
       .map(feature => ({
         ...feature,
         currentScore: featureScores[feature.id] || 0,
-        gap: Math.max(0, 8 - (featureScores[feature.id] || 0)),
+        gap: Math.max(0, TARGET_FEATURE_SCORE - (featureScores[feature.id] || 0)),
         priority: this.calculateImplementationPriority(feature, featureScores[feature.id] || 0)
       }))
       .filter(f => f.gap > 1)
@@ -633,7 +964,7 @@ export class BusinessOutcomeEngine {
       plan.push({
         feature: feature.name,
         currentScore: feature.currentScore,
-        targetScore: 8,
+        targetScore: TARGET_FEATURE_SCORE,
         gap: feature.gap,
         costToImplement: feature.costToImplement,
         timeToImplement: feature.timeToImplement,
@@ -648,8 +979,9 @@ export class BusinessOutcomeEngine {
   }
   
   private calculateImplementationPriority(feature: CreativeFeature, currentScore: number): number {
-    const gap = Math.max(0, 8 - currentScore);
-    const businessImpact = Object.values(feature.businessImpact).reduce((sum, impact) => sum + impact, 0) / Object.keys(feature.businessImpact).length;
+    const gap = Math.max(0, TARGET_FEATURE_SCORE - currentScore);
+    const impacts = this.getImpacts(feature);
+    const businessImpact = Object.values(impacts).reduce((sum, impact) => sum + impact, 0) / Object.keys(impacts).length;
     
     const costMultiplier = feature.costToImplement === 'low' ? 1.2 : feature.costToImplement === 'medium' ? 1.0 : 0.7;
     const timeMultiplier = feature.timeToImplement === 'immediate' ? 1.3 : feature.timeToImplement === 'short' ? 1.1 : 0.8;
@@ -657,8 +989,9 @@ export class BusinessOutcomeEngine {
     return gap * businessImpact * costMultiplier * timeMultiplier;
   }
   
-  private calculateExpectedROI(feature: any): string {
-    const avgImpact = Object.values(feature.businessImpact).reduce((sum: number, impact: unknown) => sum + (impact as number), 0) / Object.keys(feature.businessImpact).length;
+  private calculateExpectedROI(feature: CreativeFeature & { gap: number }): ImplementationPlanItem['expectedROI'] {
+    const impacts = this.getImpacts(feature);
+    const avgImpact = Object.values(impacts).reduce((sum, impact) => sum + impact, 0) / Object.keys(impacts).length;
     const roi = (avgImpact * feature.gap * 100) / (feature.costToImplement === 'low' ? 1 : feature.costToImplement === 'medium' ? 3 : 5);
     
     if (roi > 50) return 'Very High';
@@ -669,21 +1002,21 @@ export class BusinessOutcomeEngine {
   
   private generateBusinessRecommendations(
     featureScores: Record<string, number>,
-    outcomeBreakdown: Record<string, number>,
-    objective: string
+    outcomeValues: Record<string, number>
   ): string[] {
     const recommendations = [];
     
-    // Find lowest performing business outcomes
-    const sortedOutcomes = Object.entries(outcomeBreakdown)
-      .sort(([,a], [,b]) => a - b)
+    // Find the business outcomes furthest below their thresholds
+    const attainment = ([outcomeId, value]: [string, number]) => value / (this.outcomes[outcomeId]?.threshold || 1);
+    const sortedOutcomes = Object.entries(outcomeValues)
+      .sort((a, b) => attainment(a) - attainment(b))
       .slice(0, 2);
     
     for (const [outcomeId, score] of sortedOutcomes) {
-      const outcome = BUSINESS_OUTCOMES[outcomeId];
+      const outcome = this.outcomes[outcomeId];
       if (outcome && score < outcome.threshold) {
-        const bestFeatures = BUSINESS_DRIVEN_FEATURES
-          .filter(f => f.businessImpact[outcomeId] && f.businessImpact[outcomeId] > 0.8)
+        const bestFeatures = this.features
+          .filter(f => (this.getImpacts(f)[outcomeId] || 0) > 0.8)
           .slice(0, 2);
         
         recommendations.push(
@@ -693,7 +1026,7 @@ export class BusinessOutcomeEngine {
     }
     
     // Quick wins (low cost, high impact)
-    const quickWins = BUSINESS_DRIVEN_FEATURES
+    const quickWins = this.features
       .filter(f => 
         f.costToImplement === 'low' && 
         f.timeToImplement === 'immediate' &&
@@ -0,0 +1,330 @@
+/**
+ * Tenant Business Registry
+ * Tenant-defined business outcomes and creative features, stored in Azure
+ * PostgreSQL (tenant_business_outcomes / tenant_creative_features) or, without
+ * a database, in process memory, and merged over the built-in definitions
+ */
+
+import { executeQuery, isDatabaseConfigured } from './database';
+import { loadAskCESConfig } from './config';
+import {
+  BUSINESS_DRIVEN_FEATURES,
+  BUSINESS_OUTCOMES,
+  type BusinessDefinitions,
+  type BusinessOutcome,
+  type CreativeFeature
+} from './business-outcome-engine';
+
+export interface CustomOutcomeDefinition extends BusinessOutcome {
+  // Impact of existing features on this outcome, so built-ins can drive it
+  featureImpacts?: Record<string, number>;
+}
+
+export type CustomFeatureDefinition = CreativeFeature;
+
+export interface RegistryValidationError {
+  path: string;
+  message: string;
+}
+
+export interface BusinessRegistryStore {
+  readonly name: string;
+  listOutcomes(tenantId: string): Promise<CustomOutcomeDefinition[]>;
+  listFeatures(tenantId: string): Promise<CustomFeatureDefinition[]>;
+  saveOutcome(tenantId: string, outcome: CustomOutcomeDefinition): Promise<void>;
+  saveFeature(tenantId: string, feature: CustomFeatureDefinition): Promise<void>;
+  delete(tenantId: string, type: 'outcome' | 'feature', id: string): Promise<boolean>;
+}
+
+const OUTCOME_CATEGORIES: BusinessOutcome['category'][] = ['engagement', 'conversion', 'brand', 'efficiency', 'behavioral'];
+const FEATURE_CATEGORIES: CreativeFeature['category'][] = ['content', 'design', 'messaging', 'targeting', 'channel'];
+const ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function validateImpactMap(value: unknown, fieldPath: string, knownIds: Set<string>): RegistryValidationError[] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return [{ path: fieldPath, message: 'must map ids to impacts between 0 and 1' }];
+  }
+  return Object.entries(value).flatMap(([id, impact]) => {
+    const errors: RegistryValidationError[] = [];
+    if (!knownIds.has(id)) errors.push({ path: `${fieldPath}.${id}`, message: 'unknown id' });
+    if (!isNumber(impact) || impact < 0 || impact > 1) {
+      errors.push({ path: `${fieldPath}.${id}`, message: 'must be a number between 0 and 1' });
+    }
+    return errors;
+  });
+}
+
+function validateCommon(definition: any, builtInIds: string[]): RegistryValidationError[] {
+  const errors: RegistryValidationError[] = [];
+  if (typeof definition.id !== 'string' || !ID_PATTERN.test(definition.id)) {
+    errors.push({ path: 'id', message: 'must be lower_snake_case' });
+  } else if (builtInIds.includes(definition.id)) {
+    errors.push({ path: 'id', message: 'clashes with a built-in definition' });
+  }
+  for (const key of ['name', 'description']) {
+    if (typeof definition[key] !== 'string' || !definition[key]) {
+      errors.push({ path: key, message: 'must be a non-empty string' });
+    }
+  }
+  return errors;
+}
+
+export function validateOutcomeDefinition(
+  definition: any,
+  knownFeatureIds: Set<string>
+): RegistryValidationError[] {
+  if (!definition || typeof definition !== 'object') return [{ path: '', message: 'must be an object' }];
+
+  const errors = validateCommon(definition, Object.keys(BUSINESS_OUTCOMES));
+  if (!Array.isArray(definition.metrics) || definition.metrics.some((m: unknown) => typeof m !== 'string')) {
+    errors.push({ path: 'metrics', message: 'must be a list of metric names' });
+  }
+  if (!isNumber(definition.weight) || definition.weight <= 0) {
+    errors.push({ path: 'weight', message: 'must be a positive number' });
+  }
+  for (const key of ['targetValue', 'threshold']) {
+    if (!isNumber(definition[key])) errors.push({ path: key, message: 'must be a number' });
+  }
+  if (!OUTCOME_CATEGORIES.includes(definition.category)) {
+    errors.push({ path: 'category', message: `must be one of ${OUTCOME_CATEGORIES.join(', ')}` });
+  }
+  if (definition.featureImpacts !== undefined) {
+    errors.push(...validateImpactMap(definition.featureImpacts, 'featureImpacts', knownFeatureIds));
+  }
+  return errors;
+}
+
+/**
+ * A custom feature also needs an extraction rule (tenants.<tenant_id>.custom_features
+ * in config/feature-rules.yaml), or every asset-scored campaign would score it 0
+ */
+export function validateFeatureDefinition(
+  definition: any,
+  knownOutcomeIds: Set<string>,
+  ruledFeatureIds: Set<string>
+): RegistryValidationError[] {
+  if (!definition || typeof definition !== 'object') return [{ path: '', message: 'must be an object' }];
+
+  const errors = validateCommon(definition, BUSINESS_DRIVEN_FEATURES.map(f => f.id));
+  if (!errors.some(e => e.path === 'id') && !ruledFeatureIds.has(definition.id)) {
+    errors.push({ path: 'id', message: 'has no extraction rule under tenants.<tenant_id>.custom_features in config/feature-rules.yaml' });
+  }
+  if (!FEATURE_CATEGORIES.includes(definition.category)) {
+    errors.push({ path: 'category', message: `must be one of ${FEATURE_CATEGORIES.join(', ')}` });
+  }
+  errors.push(...validateImpactMap(definition.businessImpact, 'businessImpact', knownOutcomeIds));
+
+  const enums: Record<string, string[]> = {
+    measurability: ['high', 'medium', 'low'],
+    testability: ['A/B_testable', 'multivariate', 'qualitative'],
+    costToImplement: ['low', 'medium', 'high'],
+    timeToImplement: ['immediate', 'short', 'medium', 'long']
+  };
+  for (const [key, allowed] of Object.entries(enums)) {
+    if (!allowed.includes(definition[key])) {
+      errors.push({ path: key, message: `must be one of ${allowed.join(', ')}` });
+    }
+  }
+  if (!Array.isArray(definition.implementation) || definition.implementation.some((i: unknown) => typeof i !== 'string')) {
+    errors.push({ path: 'implementation', message: 'must be a list of steps' });
+  }
+  return errors;
+}
+
+export class MemoryBusinessRegistryStore implements BusinessRegistryStore {
+  readonly name = 'memory';
+  private readonly outcomes = new Map<string, Map<string, CustomOutcomeDefinition>>();
+  private readonly features = new Map<string, Map<string, CustomFeatureDefinition>>();
+
+  private tenantMap<T>(maps: Map<string, Map<string, T>>, tenantId: string): Map<string, T> {
+    if (!maps.has(tenantId)) maps.set(tenantId, new Map());
+    return maps.get(tenantId)!;
+  }
+
+  async listOutcomes(tenantId: string) {
+    return [...this.tenantMap(this.outcomes, tenantId).values()];
+  }
+
+  async listFeatures(tenantId: string) {
+    return [...this.tenantMap(this.features, tenantId).values()];
+  }
+
+  async saveOutcome(tenantId: string, outcome: CustomOutcomeDefinition) {
+    this.tenantMap(this.outcomes, tenantId).set(outcome.id, outcome);
+  }
+
+  async saveFeature(tenantId: string, feature: CustomFeatureDefinition) {
+    this.tenantMap(this.features, tenantId).set(feature.id, feature);
+  }
+
+  async delete(tenantId: string, type: 'outcome' | 'feature', id: string) {
+    return this.tenantMap<unknown>(type === 'outcome' ? this.outcomes : this.features, tenantId).delete(id);
+  }
+}
+
+export class PostgresBusinessRegistryStore implements BusinessRegistryStore {
+  readonly name = 'azure_sql';
+
+  async listOutcomes(tenantId: string) {
+    const result = await executeQuery(
+      'SELECT * FROM tenant_business_outcomes WHERE tenant_id = $1 ORDER BY outcome_id',
+      [tenantId]
+    );
+    return result.rows.map((row): CustomOutcomeDefinition => ({
+      id: row.outcome_id,
+      name: row.name,
+      description: row.description,
+      metrics: row.metrics,
+      weight: row.weight,
+      targetValue: row.target_value,
+      threshold: row.threshold,
+      category: row.category,
+      featureImpacts: row.feature_impacts ?? undefined
+    }));
+  }
+
+  async listFeatures(tenantId: string) {
+    const result = await executeQuery(
+      'SELECT * FROM tenant_creative_features WHERE tenant_id = $1 ORDER BY feature_id',
+      [tenantId]
+    );
+    return result.rows.map((row): CustomFeatureDefinition => ({
+      id: row.feature_id,
+      name: row.name,
+      description: row.description,
+      category: row.category,
+      businessImpact: row.business_impact,
+      measurability: row.measurability,
+      implementation: row.implementation,
+      testability: row.testability,
+      costToImplement: row.cost_to_implement,
+      timeToImplement: row.time_to_implement
+    }));
+  }
+
+  async saveOutcome(tenantId: string, outcome: CustomOutcomeDefinition) {
+    await executeQuery(
+      `INSERT INTO tenant_business_outcomes
+         (tenant_id, outcome_id, name, description, metrics, weight, target_value, threshold, category, feature_impacts)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (tenant_id, outcome_id) DO UPDATE SET
+         name = EXCLUDED.name, description = EXCLUDED.description, metrics = EXCLUDED.metrics,
+         weight = EXCLUDED.weight, target_value = EXCLUDED.target_value, threshold = EXCLUDED.threshold,
+         category = EXCLUDED.category, feature_impacts = EXCLUDED.feature_impacts, updated_at = CURRENT_TIMESTAMP`,
+      [
+        tenantId, outcome.id, outcome.name, outcome.description, JSON.stringify(outcome.metrics),
+        outcome.weight, outcome.targetValue, outcome.threshold, outcome.category,
+        JSON.stringify(outcome.featureImpacts ?? null)
+      ]
+    );
+  }
+
+  async saveFeature(tenantId: string, feature: CustomFeatureDefinition) {
+    await executeQuery(
+      `INSERT INTO tenant_creative_features
+         (tenant_id, feature_id, name, description, category, business_impact, measurability,
+          implementation, testability, cost_to_implement, time_to_implement)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (tenant_id, feature_id) DO UPDATE SET
+         name = EXCLUDED.name, description = EXCLUDED.description, category = EXCLUDED.category,
+         business_impact = EXCLUDED.business_impact, measurability = EXCLUDED.measurability,
+         implementation = EXCLUDED.implementation, testability = EXCLUDED.testability,
+         cost_to_implement = EXCLUDED.cost_to_implement, time_to_implement = EXCLUDED.time_to_implement,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        tenantId, feature.id, feature.name, feature.description, feature.category,
+        JSON.stringify(feature.businessImpact), feature.measurability, JSON.stringify(feature.implementation),
+        feature.testability, feature.costToImplement, feature.timeToImplement
+      ]
+    );
+  }
+
+  async delete(tenantId: string, type: 'outcome' | 'feature', id: string) {
+    const result = type === 'outcome'
+      ? await executeQuery('DELETE FROM tenant_business_outcomes WHERE tenant_id = $1 AND outcome_id = $2', [tenantId, id])
+      : await executeQuery('DELETE FROM tenant_creative_features WHERE tenant_id = $1 AND feature_id = $2', [tenantId, id]);
+    return result.rowCount > 0;
+  }
+}
+
+let store: BusinessRegistryStore | null = null;
+const cache = new Map<string, BusinessDefinitions>();
+
+export function getBusinessRegistryStore(): BusinessRegistryStore {
+  if (!store) {
+    store = isDatabaseConfigured() ? new PostgresBusinessRegistryStore() : new MemoryBusinessRegistryStore();
+  }
+  return store;
+}
+
+export function setBusinessRegistryStore(next: BusinessRegistryStore | null): void {
+  store = next;
+  cache.clear();
+}
+
+export function getDefaultTenantId(): string {
+  return loadAskCESConfig().tenant?.id || 'ces';
+}
+
+/**
+ * Merge custom definitions over the built-ins: custom outcomes gain the
+ * featureImpacts they declare on existing features
+ */
+export function mergeBusinessDefinitions(
+  customOutcomes: CustomOutcomeDefinition[],
+  customFeatures: CustomFeatureDefinition[]
+): BusinessDefinitions {
+  const outcomes: Record<string, BusinessOutcome> = { ...BUSINESS_OUTCOMES };
+  for (const { featureImpacts, ...outcome } of customOutcomes) {
+    outcomes[outcome.id] = outcome;
+  }
+
+  const features = [...BUSINESS_DRIVEN_FEATURES, ...customFeatures].map(feature => {
+    const extraImpacts = Object.fromEntries(
+      customOutcomes
+        .filter(o => o.featureImpacts?.[feature.id] !== undefined)
+        .map(o => [o.id, o.featureImpacts![feature.id]])
+    );
+    return Object.keys(extraImpacts).length > 0
+      ? { ...feature, businessImpact: { ...feature.businessImpact, ...extraImpacts } }
+      : feature;
+  });
+
+  return { outcomes, features };
+}
+
+/**
+ * Built-in plus tenant-defined outcomes and features, cached per tenant until
+ * the tenant's registry changes
+ */
+export async function loadBusinessDefinitions(tenantId: string = getDefaultTenantId()): Promise<BusinessDefinitions> {
+  const cached = cache.get(tenantId);
+  if (cached) return cached;
+
+  const registry = getBusinessRegistryStore();
+  let customOutcomes: CustomOutcomeDefinition[];
+  let customFeatures: CustomFeatureDefinition[];
+  try {
+    [customOutcomes, customFeatures] = await Promise.all([
+      registry.listOutcomes(tenantId),
+      registry.listFeatures(tenantId)
+    ]);
+  } catch (error) {
+    // Scoring should not break when the registry is unreachable; not cached
+    console.error('Business registry unavailable, using built-in definitions:', error);
+    return { outcomes: BUSINESS_OUTCOMES, features: BUSINESS_DRIVEN_FEATURES };
+  }
+
+  const definitions = mergeBusinessDefinitions(customOutcomes, customFeatures);
+  cache.set(tenantId, definitions);
+  return definitions;
+}
+
+export function invalidateBusinessDefinitions(tenantId: string): void {
+  cache.delete(tenantId);
+}
+
+export const isCustomOutcome = (id: string) => !(id in BUSINESS_OUTCOMES);
+export const isCustomFeature = (id: string) => !BUSINESS_DRIVEN_FEATURES.some(f => f.id === id);
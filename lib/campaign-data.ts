@@ -0,0 +1,271 @@
+/**
+ * Campaign Data Sources
+ * Loads campaigns, creative assets and performance metrics from a file
+ * directory, Azure PostgreSQL or Supabase, selected by data.sources in
+ * config/ask-ces.yaml
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseCSVRecords } from './csv';
+import { executeQuery, isDatabaseConfigured } from './database';
+import { loadAskCESConfig } from './config';
+
+export interface CampaignRecord {
+  campaign_id: string;
+  name: string;
+  brand: string;
+  industry: string;
+  region: string;
+  [key: string]: any;
+}
+
+export interface CreativeAssetRecord {
+  asset_id: string;
+  campaign_id: string;
+  [key: string]: any;
+}
+
+export interface PerformanceMetricRecord {
+  metric_id: string;
+  campaign_id: string;
+  date: string;
+  roi: number;
+  brand_recall: number;
+  engagement_rate: number;
+  reach: number;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  conversion_rate: number;
+  cost_per_acquisition: number;
+  sentiment_score: number;
+  video_completion_rate: number;
+  share_rate: number;
+  save_rate: number;
+  tenant_id: string;
+}
+
+export interface CampaignDataset {
+  campaigns: CampaignRecord[];
+  creativeAssets: CreativeAssetRecord[];
+  performanceMetrics: PerformanceMetricRecord[];
+  source: string;
+  loadedAt: string;
+}
+
+export interface CampaignDataSource {
+  readonly name: string;
+  isAvailable(): boolean;
+  load(): Promise<Omit<CampaignDataset, 'source' | 'loadedAt'>>;
+}
+
+const INTEGER_METRICS = ['reach', 'impressions', 'clicks'] as const;
+const DECIMAL_METRICS = [
+  'roi', 'brand_recall', 'engagement_rate', 'ctr', 'conversion_rate', 'cost_per_acquisition',
+  'sentiment_score', 'video_completion_rate', 'share_rate', 'save_rate'
+] as const;
+
+/**
+ * Normalise a raw metrics row (CSV strings or database values) by column name
+ */
+export function toPerformanceMetric(row: Record<string, any>): PerformanceMetricRecord {
+  const metric: Record<string, any> = {
+    metric_id: String(row.metric_id ?? ''),
+    campaign_id: String(row.campaign_id ?? ''),
+    date: row.date instanceof Date ? row.date.toISOString().split('T')[0] : String(row.date ?? ''),
+    tenant_id: String(row.tenant_id ?? '')
+  };
+
+  for (const key of INTEGER_METRICS) {
+    const value = parseInt(String(row[key] ?? ''), 10);
+    metric[key] = Number.isFinite(value) ? value : 0;
+  }
+  for (const key of DECIMAL_METRICS) {
+    const value = parseFloat(String(row[key] ?? ''));
+    metric[key] = Number.isFinite(value) ? value : 0;
+  }
+
+  return metric as PerformanceMetricRecord;
+}
+
+function withStringIds<T extends Record<string, any>>(row: T, ...keys: string[]): T {
+  const copy: Record<string, any> = { ...row };
+  for (const key of keys) {
+    if (copy[key] !== undefined && copy[key] !== null) {
+      copy[key] = String(copy[key]);
+    }
+  }
+  return copy as T;
+}
+
+/**
+ * campaigns.json, creative_assets.json and performance_metrics.csv in one directory
+ */
+export class FileCampaignDataSource implements CampaignDataSource {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.directory) && fs.existsSync(path.join(this.directory, 'campaigns.json'));
+  }
+
+  async load() {
+    const readJSON = async (file: string) =>
+      JSON.parse(await fs.promises.readFile(path.join(this.directory, file), 'utf8'));
+
+    const [campaigns, creativeAssets, performanceCSV] = await Promise.all([
+      readJSON('campaigns.json'),
+      readJSON('creative_assets.json'),
+      fs.promises.readFile(path.join(this.directory, 'performance_metrics.csv'), 'utf8')
+    ]);
+
+    return {
+      campaigns: (campaigns as CampaignRecord[]).map(c => withStringIds(c, 'campaign_id')),
+      creativeAssets: (creativeAssets as CreativeAssetRecord[]).map(a => withStringIds(a, 'asset_id', 'campaign_id')),
+      performanceMetrics: parseCSVRecords(performanceCSV).map(toPerformanceMetric)
+    };
+  }
+}
+
+/**
+ * Azure PostgreSQL tables from sql/azure-postgres-schema.sql
+ */
+export class PostgresCampaignDataSource implements CampaignDataSource {
+  readonly name = 'azure_sql';
+
+  constructor(private readonly tenantId: string) {}
+
+  isAvailable(): boolean {
+    return isDatabaseConfigured();
+  }
+
+  async load() {
+    const [campaigns, creativeAssets, performanceMetrics] = await Promise.all([
+      executeQuery<CampaignRecord>(
+        `SELECT *, campaign_name AS name, campaign_type AS type
+         FROM campaigns WHERE tenant_id = $1 ORDER BY campaign_id`,
+        [this.tenantId]
+      ),
+      executeQuery<CreativeAssetRecord>(
+        'SELECT * FROM creative_assets WHERE tenant_id = $1 ORDER BY asset_id',
+        [this.tenantId]
+      ),
+      executeQuery(
+        'SELECT * FROM performance_metrics WHERE tenant_id = $1 ORDER BY date',
+        [this.tenantId]
+      )
+    ]);
+
+    return {
+      campaigns: campaigns.rows.map(c => withStringIds(c, 'campaign_id')),
+      creativeAssets: creativeAssets.rows.map(a => withStringIds(a, 'asset_id', 'campaign_id')),
+      performanceMetrics: performanceMetrics.rows.map(toPerformanceMetric)
+    };
+  }
+}
+
+/**
+ * Supabase tables with the same layout, read through the PostgREST API
+ */
+export class SupabaseCampaignDataSource implements CampaignDataSource {
+  readonly name = 'supabase';
+
+  constructor(
+    private readonly url: string | undefined,
+    private readonly key: string | undefined,
+    private readonly tenantId: string
+  ) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.url && this.key);
+  }
+
+  private async select<T>(table: string): Promise<T[]> {
+    const endpoint = `${this.url!.replace(/\/$/, '')}/rest/v1/${table}?select=*&tenant_id=eq.${encodeURIComponent(this.tenantId)}`;
+    const response = await fetch(endpoint, {
+      headers: {
+        apikey: this.key!,
+        Authorization: `Bearer ${this.key}`
+      },
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Supabase ${table} request failed: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async load() {
+    const [campaigns, creativeAssets, performanceMetrics] = await Promise.all([
+      this.select<CampaignRecord>('campaigns'),
+      this.select<CreativeAssetRecord>('creative_assets'),
+      this.select<Record<string, any>>('performance_metrics')
+    ]);
+
+    return {
+      campaigns: campaigns.map(c => withStringIds({ ...c, name: c.name ?? c.campaign_name }, 'campaign_id')),
+      creativeAssets: creativeAssets.map(a => withStringIds(a, 'asset_id', 'campaign_id')),
+      performanceMetrics: performanceMetrics.map(toPerformanceMetric)
+    };
+  }
+}
+
+/**
+ * Instantiate the sources named in data.sources, in priority order
+ */
+export function createCampaignDataSources(): CampaignDataSource[] {
+  const config = loadAskCESConfig();
+  const tenantId = config.tenant?.id || 'ces';
+  const dataPath = config.data.campaign_data_path || path.join(process.cwd(), 'data');
+
+  return (config.data.sources || []).map(sourceName => {
+    switch (sourceName) {
+      case 'file':
+        return new FileCampaignDataSource(dataPath);
+      case 'azure_sql':
+      case 'postgres':
+        return new PostgresCampaignDataSource(tenantId);
+      case 'supabase':
+        return new SupabaseCampaignDataSource(process.env.CES_SUPABASE_URL, process.env.CES_SUPABASE_KEY, tenantId);
+      default:
+        throw new Error(`Unknown campaign data source: ${sourceName}`);
+    }
+  });
+}
+
+let cache: { dataset: CampaignDataset; expiresAt: number } | null = null;
+
+/**
+ * Load campaign data from the first available source, cached in memory for
+ * data.cache_ttl_seconds. Returns null when no source could be loaded.
+ */
+export async function loadCampaignData(options: { refresh?: boolean } = {}): Promise<CampaignDataset | null> {
+  if (!options.refresh && cache && cache.expiresAt > Date.now()) {
+    return cache.dataset;
+  }
+
+  const ttlSeconds = loadAskCESConfig().data.cache_ttl_seconds ?? 300;
+
+  for (const source of createCampaignDataSources()) {
+    if (!source.isAvailable()) continue;
+
+    try {
+      const data = await source.load();
+      const dataset: CampaignDataset = { ...data, source: source.name, loadedAt: new Date().toISOString() };
+      cache = { dataset, expiresAt: Date.now() + ttlSeconds * 1000 };
+      return dataset;
+    } catch (error) {
+      console.error(`Error loading campaign data from ${source.name}:`, error);
+    }
+  }
+
+  console.error('No campaign data source could be loaded');
+  return null;
+}
+
+export function clearCampaignDataCache(): void {
+  cache = null;
+}
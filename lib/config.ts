@@ -0,0 +1,59 @@
+/**
+ * Ask CES configuration loader
+ * Reads config/ask-ces.yaml and expands ${ENV_VAR} placeholders
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+
+export interface AskCESConfig {
+  project: string;
+  version: string;
+  llm: Record<string, any>;
+  roles: string[];
+  features: string[];
+  data: {
+    sources: string[];
+    campaign_data_path?: string;
+    cache_ttl_seconds?: number;
+    [key: string]: any;
+  };
+  tenant: {
+    id: string;
+    name: string;
+    [key: string]: any;
+  };
+  [key: string]: any;
+}
+
+const CONFIG_PATH = path.join(process.cwd(), 'config', 'ask-ces.yaml');
+
+let cachedConfig: AskCESConfig | null = null;
+
+function expandEnv(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] || '');
+  }
+  if (Array.isArray(value)) {
+    return value.map(expandEnv);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, expandEnv(nested)]));
+  }
+  return value;
+}
+
+export function loadAskCESConfig(configPath: string = CONFIG_PATH): AskCESConfig {
+  if (cachedConfig && configPath === CONFIG_PATH) {
+    return cachedConfig;
+  }
+
+  const raw = yaml.load(fs.readFileSync(configPath, 'utf8')) as AskCESConfig;
+  const config = expandEnv(raw) as AskCESConfig;
+
+  if (configPath === CONFIG_PATH) {
+    cachedConfig = config;
+  }
+  return config;
+}
@@ -0,0 +1,188 @@
+/**
+ * Creative Feature Mapping
+ * Translates real creative assets and performance metrics into the
+ * business-driven feature and outcome spaces of the outcome engine
+ */
+
+import type { CreativeAssetRecord, PerformanceMetricRecord } from './campaign-data';
+import { businessEngine, type BusinessOutcomeEngine, type ObjectiveInput } from './business-outcome-engine';
+import { loadAskCESConfig } from './config';
+import { evaluateFeatureRules, loadFeatureRuleSet, type RuleEvaluation } from './feature-rules';
+
+export const AGGREGATION_STRATEGIES = ['spend_weighted', 'impression_weighted', 'best_asset', 'mean'] as const;
+
+export type AggregationStrategy = typeof AGGREGATION_STRATEGIES[number];
+
+export interface AssetScoreBreakdown {
+  assetId: string;
+  name?: string;
+  weight: number; // share of the campaign's aggregated features, sums to 1
+  totalScore: number;
+  featureScores: Record<string, number>;
+}
+
+export interface CampaignFeatureAggregation {
+  strategy: AggregationStrategy;
+  fallbackToMean: boolean; // weighted strategy had no spend/impression data
+  featureScores: Record<string, number>;
+  assets: AssetScoreBreakdown[];
+}
+
+const defaultTenantId = () => loadAskCESConfig().tenant?.id;
+
+// Map real creative asset data to business-driven features using the declarative rule set
+export const mapCreativeAssetToBusinessFeatures = (
+  asset: CreativeAssetRecord,
+  tenantId: string | undefined = defaultTenantId()
+): Record<string, number> => {
+  return Object.fromEntries(
+    evaluateFeatureRules(asset, loadFeatureRuleSet(), tenantId).map(result => [result.featureId, result.score])
+  );
+};
+
+// Each feature score alongside the asset fields and rule branch that produced it
+export const explainCreativeAssetFeatures = (
+  asset: CreativeAssetRecord,
+  tenantId: string | undefined = defaultTenantId()
+): RuleEvaluation[] => {
+  return evaluateFeatureRules(asset, loadFeatureRuleSet(), tenantId);
+};
+
+// Feature score standard deviation by provenance: observed field, rule default, or no asset data at all
+const PROVENANCE_UNCERTAINTY = {
+  observed: 0.75,
+  default: 1.5,
+  constant: 2.5
+};
+
+export const deriveFeatureUncertainty = (evaluations: RuleEvaluation[]): Record<string, number> => {
+  return Object.fromEntries(evaluations.map(result => [
+    result.featureId,
+    result.ruleType === 'constant'
+      ? PROVENANCE_UNCERTAINTY.constant
+      : result.matched === 'default'
+        ? PROVENANCE_UNCERTAINTY.default
+        : PROVENANCE_UNCERTAINTY.observed
+  ]));
+};
+
+// Map real performance metrics to business outcomes
+export const mapPerformanceToBusinessOutcomes = (metrics: PerformanceMetricRecord[]): Record<string, number> => {
+  if (metrics.length === 0) return {};
+  
+  // Average the metrics across all performance records for this campaign
+  const avgMetrics = metrics.reduce((acc, metric) => {
+    acc.roi += metric.roi;
+    acc.brand_recall += metric.brand_recall;
+    acc.engagement_rate += metric.engagement_rate;
+    acc.conversion_rate += metric.conversion_rate;
+    acc.sentiment_score += metric.sentiment_score;
+    acc.ctr += metric.ctr;
+    acc.video_completion_rate += metric.video_completion_rate;
+    acc.share_rate += metric.share_rate;
+    acc.save_rate += metric.save_rate;
+    acc.cost_per_acquisition += metric.cost_per_acquisition;
+    return acc;
+  }, {
+    roi: 0, brand_recall: 0, engagement_rate: 0, conversion_rate: 0,
+    sentiment_score: 0, ctr: 0, video_completion_rate: 0, share_rate: 0, save_rate: 0,
+    cost_per_acquisition: 0
+  } as Record<string, number>);
+  
+  const count = metrics.length;
+  Object.keys(avgMetrics).forEach(key => {
+    avgMetrics[key] /= count;
+  });
+  
+  return {
+    engagement: avgMetrics.engagement_rate * 7.5, // Scale to match our target ranges
+    brand_recall: avgMetrics.brand_recall,
+    conversion: avgMetrics.conversion_rate * 6, // Scale up conversion rate
+    roi_sales: Math.min(avgMetrics.roi * 60, 500), // Scale ROI to our range
+    brand_sentiment: avgMetrics.sentiment_score * 100, // Convert to percentage
+    acquisition: avgMetrics.ctr * 12, // Scale CTR to acquisition rate
+    media_efficiency: Math.max(100 - (avgMetrics.cost_per_acquisition / 10), 50), // Inverse of cost
+    behavioral_response: (avgMetrics.video_completion_rate / 100) * 60, // Scale completion rate
+    brand_equity: (avgMetrics.brand_recall + avgMetrics.sentiment_score * 100) / 2 // Combined metric
+  };
+};
+
+export const isAggregationStrategy = (value: unknown): value is AggregationStrategy =>
+  typeof value === 'string' && (AGGREGATION_STRATEGIES as readonly string[]).includes(value);
+
+// scoring.asset_aggregation in config/ask-ces.yaml, spend-weighted if unset
+export const getDefaultAggregationStrategy = (): AggregationStrategy => {
+  const configured = loadAskCESConfig().scoring?.asset_aggregation;
+  return isAggregationStrategy(configured) ? configured : 'spend_weighted';
+};
+
+const assetWeightBasis = (asset: CreativeAssetRecord, strategy: AggregationStrategy): number => {
+  const value = Number(strategy === 'spend_weighted' ? asset.spend : asset.impressions);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+/**
+ * Aggregate feature scores across all of a campaign's creative assets.
+ * Features come from the tenant's rules and each asset is scored under the
+ * campaign's objective, which decides the best asset. Weighted strategies
+ * fall back to the mean when no asset has spend or impressions recorded.
+ */
+export const aggregateCampaignFeatures = (
+  campaignAssets: CreativeAssetRecord[],
+  strategy: AggregationStrategy = getDefaultAggregationStrategy(),
+  engine: BusinessOutcomeEngine = businessEngine,
+  objective: ObjectiveInput = 'conversion',
+  tenantId: string | undefined = defaultTenantId()
+): CampaignFeatureAggregation | null => {
+  if (campaignAssets.length === 0) return null;
+
+  const scored = campaignAssets.map(asset => {
+    const featureScores = mapCreativeAssetToBusinessFeatures(asset, tenantId);
+    const { totalScore } = engine.calculateBusinessEffectiveness(featureScores, {}, objective);
+    return { asset, featureScores, totalScore };
+  });
+
+  let weights: number[];
+  let fallbackToMean = false;
+
+  if (strategy === 'best_asset') {
+    const best = scored.reduce((top, current, i) => (current.totalScore > scored[top].totalScore ? i : top), 0);
+    weights = scored.map((_, i) => (i === best ? 1 : 0));
+  } else {
+    const basis = strategy === 'mean' ? scored.map(() => 1) : scored.map(s => assetWeightBasis(s.asset, strategy));
+    const total = basis.reduce((sum, w) => sum + w, 0);
+    fallbackToMean = total === 0;
+    weights = fallbackToMean ? scored.map(() => 1 / scored.length) : basis.map(w => w / total);
+  }
+
+  const featureScores: Record<string, number> = {};
+  scored.forEach(({ featureScores: assetFeatures }, i) => {
+    for (const [featureId, score] of Object.entries(assetFeatures)) {
+      featureScores[featureId] = (featureScores[featureId] || 0) + (Number(score) || 0) * weights[i];
+    }
+  });
+
+  return {
+    strategy,
+    fallbackToMean,
+    featureScores,
+    assets: scored.map(({ asset, featureScores: assetFeatures, totalScore }, i) => ({
+      assetId: asset.asset_id,
+      name: asset.name,
+      weight: Math.round(weights[i] * 10000) / 10000,
+      totalScore,
+      featureScores: assetFeatures
+    }))
+  };
+};
+
+// Feature scores for a whole campaign, aggregated across all of its creative assets
+export const getCampaignFeatureScores = (
+  campaignAssets: CreativeAssetRecord[],
+  strategy?: AggregationStrategy,
+  engine?: BusinessOutcomeEngine,
+  objective?: ObjectiveInput,
+  tenantId?: string
+): Record<string, number> | null => {
+  return aggregateCampaignFeatures(campaignAssets, strategy, engine, objective, tenantId)?.featureScores ?? null;
+};
@@ -0,0 +1,180 @@
+/**
+ * Creative Insights
+ * Builds the CreativeAnalysisResult objects in lib/types.ts (campaign,
+ * feature scores, predicted outcomes, composition) from the loaded dataset
+ */
+
+import type { BusinessOutcomeEngine } from './business-outcome-engine';
+import type {
+  CampaignDataset,
+  CampaignRecord,
+  CreativeAssetRecord,
+  PerformanceMetricRecord
+} from './campaign-data';
+import { aggregateCampaignFeatures } from './creative-features';
+import { resolveCampaignObjective } from './objectives';
+import type {
+  BusinessOutcomeScores,
+  Campaign,
+  CampaignAsset,
+  CampaignPerformanceMetrics,
+  CreativeAnalysisResult,
+  CreativeFeatureScores
+} from './types';
+
+const ASSET_TYPES: Record<CampaignAsset['type'], string[]> = {
+  video: ['mp4', 'mov', 'webm', 'avi', 'm4v'],
+  image: ['jpg', 'jpeg', 'png', 'gif', 'svg', 'webp', 'bmp'],
+  presentation: ['ppt', 'pptx', 'key', 'odp'],
+  document: ['pdf', 'doc', 'docx', 'txt', 'md']
+};
+
+// Thresholds for compositionAnalysis
+const VIDEO_HEAVY_SHARE = 0.5; // at least half of the assets are video
+const IMAGE_RICH_COUNT = 3; // at least this many image assets
+const COMPREHENSIVE_TYPE_COUNT = 3; // at least this many asset types
+
+const num = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+// Asset type from an explicit type field, else from the file format or extension
+export function classifyAsset(asset: CreativeAssetRecord): CampaignAsset['type'] {
+  if (Object.keys(ASSET_TYPES).includes(asset.type)) return asset.type;
+  const format = String(asset.format ?? asset.file_path ?? '').toLowerCase().split('.').pop() ?? '';
+  const match = (Object.entries(ASSET_TYPES) as Array<[CampaignAsset['type'], string[]]>)
+    .find(([, formats]) => formats.includes(format));
+  return match ? match[0] : 'image';
+}
+
+export function toCampaignAsset(asset: CreativeAssetRecord): CampaignAsset {
+  const { asset_id, campaign_id, name, file_path, content_text, ...metadata } = asset;
+  return {
+    id: asset_id,
+    campaign_id,
+    name: name ?? asset_id,
+    type: classifyAsset(asset),
+    file_path: file_path ?? '',
+    content_text,
+    metadata
+  };
+}
+
+export function toCampaignPerformanceMetrics(metric: PerformanceMetricRecord): CampaignPerformanceMetrics {
+  return {
+    metric_id: metric.metric_id,
+    campaign_id: metric.campaign_id,
+    date: metric.date,
+    roi: metric.roi,
+    brand_recall: metric.brand_recall,
+    engagement_rate: metric.engagement_rate,
+    conversion_rate: metric.conversion_rate,
+    sentiment_score: metric.sentiment_score,
+    ctr: metric.ctr,
+    video_completion_rate: metric.video_completion_rate,
+    share_rate: metric.share_rate,
+    save_rate: metric.save_rate,
+    cost_per_acquisition: metric.cost_per_acquisition
+  };
+}
+
+/**
+ * A campaign record in the Campaign shape. Delivery totals missing from the
+ * record are rolled up from its performance metrics and asset spend; revenue
+ * treats roi as a return multiple on spend
+ */
+export function toCampaign(
+  record: CampaignRecord,
+  assets: CreativeAssetRecord[],
+  metrics: PerformanceMetricRecord[],
+  loadedAt: string
+): Campaign {
+  const dates = metrics.map(m => m.date).filter(Boolean).sort();
+  const spent = num(record.spent) ?? sum(assets.map(a => num(a.spend) ?? 0));
+  const roi = num(record.roi) ?? (metrics.length > 0 ? sum(metrics.map(m => m.roi)) / metrics.length : 0);
+
+  return {
+    campaign_id: record.campaign_id,
+    campaign_name: record.campaign_name ?? record.name,
+    status: record.status ?? 'active',
+    channel: record.channel ?? '',
+    budget: num(record.budget) ?? 0,
+    spent,
+    revenue: num(record.revenue) ?? Math.round(spent * roi * 100) / 100,
+    impressions: num(record.impressions) ?? sum(metrics.map(m => m.impressions)),
+    clicks: num(record.clicks) ?? sum(metrics.map(m => m.clicks)),
+    conversions: num(record.conversions) ?? Math.round(sum(metrics.map(m => (m.clicks * m.conversion_rate) / 100))),
+    roi: Math.round(roi * 100) / 100,
+    reach: num(record.reach) ?? sum(metrics.map(m => m.reach)),
+    start_date: record.start_date ?? dates[0] ?? '',
+    end_date: record.end_date ?? dates[dates.length - 1] ?? '',
+    brand: record.brand,
+    campaign_type: record.campaign_type ?? record.type ?? '',
+    industry: record.industry,
+    region: record.region,
+    created_at: record.created_at ?? loadedAt,
+    updated_at: record.updated_at ?? loadedAt,
+    assets: assets.map(toCampaignAsset),
+    metrics: metrics.map(toCampaignPerformanceMetrics)
+  };
+}
+
+export function analyzeComposition(assets: CampaignAsset[]): CreativeAnalysisResult['compositionAnalysis'] {
+  const counts = assets.reduce<Record<string, number>>((acc, asset) => {
+    acc[asset.type] = (acc[asset.type] || 0) + 1;
+    return acc;
+  }, {});
+
+  return {
+    videoHeavy: assets.length > 0 && (counts.video || 0) / assets.length >= VIDEO_HEAVY_SHARE,
+    imageRich: (counts.image || 0) >= IMAGE_RICH_COUNT,
+    // Decks or briefs alongside the creatives
+    strategicFocus: (counts.presentation || 0) + (counts.document || 0) > 0,
+    comprehensiveCampaign: Object.keys(counts).length >= COMPREHENSIVE_TYPE_COUNT
+  };
+}
+
+/**
+ * One result per campaign with creative assets, with features from the
+ * tenant's rules, scored against the campaign's own objective
+ */
+export function buildCreativeInsights(
+  dataset: CampaignDataset,
+  engine: BusinessOutcomeEngine,
+  campaignId?: string,
+  tenantId?: string
+): CreativeAnalysisResult[] {
+  const campaigns = campaignId
+    ? dataset.campaigns.filter(c => c.campaign_id === campaignId)
+    : dataset.campaigns;
+
+  return campaigns.flatMap(record => {
+    const assets = dataset.creativeAssets.filter(a => a.campaign_id === record.campaign_id);
+    const objective = resolveCampaignObjective(record).blend;
+    const aggregated = aggregateCampaignFeatures(assets, undefined, engine, objective, tenantId);
+    if (!aggregated) return [];
+
+    const metrics = dataset.performanceMetrics.filter(m => m.campaign_id === record.campaign_id);
+    const campaign = toCampaign(record, assets, metrics, dataset.loadedAt);
+    const result = engine.calculateBusinessEffectiveness(aggregated.featureScores, {}, objective);
+
+    // Every engine feature and outcome gets an entry, including unscored ones
+    const creativeFeatureScores = Object.fromEntries(
+      engine.features.map(f => [f.id, aggregated.featureScores[f.id] ?? 0])
+    ) as CreativeFeatureScores;
+    const businessOutcomePredictions = Object.fromEntries(
+      Object.keys(engine.outcomes).map(id => [id, Math.round((result.outcomeValues[id] || 0) * 100) / 100])
+    ) as BusinessOutcomeScores;
+
+    return [{
+      campaign,
+      creativeFeatureScores,
+      businessOutcomePredictions,
+      recommendations: result.businessRecommendations,
+      compositionAnalysis: analyzeComposition(campaign.assets ?? [])
+    }];
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * RFC 4180 CSV parsing
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes
+ */
+
+export function parseCSV(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  // Strip UTF-8 byte order mark written by Excel exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+        i++;
+        continue;
+      }
+      field += char;
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+      i++;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += char === '\r' && input[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Malformed CSV: unterminated quoted field');
+  }
+
+  // Flush the last record when the file has no trailing newline
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => !(r.length === 1 && r[0].trim() === ''));
+}
+
+/**
+ * Parse CSV text into objects keyed by the header row
+ */
+export function parseCSVRecords(text: string, delimiter = ','): Record<string, string>[] {
+  const [header, ...records] = parseCSV(text, delimiter);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+
+  return records.map(values => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      record[column] = values[index] ?? '';
+    });
+    return record;
+  });
+}
@@ -1,43 +1,191 @@
-// Standalone database implementation for deployment
-
-export async function checkDatabaseConnection() {
-  // Mock database health check for deployment
-  return {
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    version: '1.0.0'
-  };
+/**
+ * CES Azure PostgreSQL access layer
+ * Pooled connections, parameter binding and transactions over the
+ * schema in sql/azure-postgres-schema.sql
+ */
+
+import { Pool, PoolClient, PoolConfig, QueryResultRow, types } from 'pg';
+
+// Return DECIMAL and BIGINT columns as numbers instead of strings
+types.setTypeParser(types.builtins.NUMERIC, (value: string) => parseFloat(value));
+types.setTypeParser(types.builtins.INT8, (value: string) => parseInt(value, 10));
+
+export interface QueryResult<T extends QueryResultRow = QueryResultRow> {
+  rows: T[];
+  rowCount: number;
 }
 
-export async function executeQuery(query: string, params: any[] = []) {
-  // For deployment, return mock data based on query type
-  console.log('Executing query:', query);
-  
-  if (query.includes('campaigns')) {
+export interface QueryOptions {
+  timeoutMs?: number;
+}
+
+export interface DatabaseHealth {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  version: string | null;
+  latencyMs?: number;
+  error?: string;
+}
+
+export class DatabaseConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseConfigError';
+  }
+}
+
+const DEFAULT_QUERY_TIMEOUT_MS = 10000;
+
+let pool: Pool | null = null;
+
+/**
+ * Build pool configuration from CES_AZURE_POSTGRES_URL or the CES_AZURE_PG_* variables
+ */
+export function getDatabaseConfig(env: NodeJS.ProcessEnv = process.env): PoolConfig {
+  const poolSettings: PoolConfig = {
+    max: parseInt(env.CES_AZURE_PG_POOL_MAX || '10', 10),
+    idleTimeoutMillis: parseInt(env.CES_AZURE_PG_IDLE_TIMEOUT_MS || '30000', 10),
+    connectionTimeoutMillis: parseInt(env.CES_AZURE_PG_CONNECT_TIMEOUT_MS || '5000', 10),
+    statement_timeout: parseInt(env.CES_AZURE_PG_STATEMENT_TIMEOUT_MS || String(DEFAULT_QUERY_TIMEOUT_MS), 10),
+    application_name: 'ces-standalone'
+  };
+
+  // Azure Database for PostgreSQL requires TLS; local containers usually do not
+  const ssl = env.CES_AZURE_PG_SSL === 'false' ? false : { rejectUnauthorized: env.CES_AZURE_PG_SSL_STRICT === 'true' };
+
+  if (env.CES_AZURE_POSTGRES_URL) {
+    const disableSsl = env.CES_AZURE_PG_SSL === 'false' || /sslmode=disable/.test(env.CES_AZURE_POSTGRES_URL);
     return {
-      rows: [
-        {
-          id: "camp_001",
-          name: "Q4 Holiday Campaign", 
-          budget: 150000,
-          spent: 89000,
-          status: "active"
-        }
-      ]
+      ...poolSettings,
+      connectionString: env.CES_AZURE_POSTGRES_URL,
+      ssl: disableSsl ? false : ssl
     };
   }
-  
-  if (query.includes('analytics')) {
+
+  if (env.CES_AZURE_PG_HOST) {
     return {
-      rows: [
-        {
-          metric: "impressions",
-          value: 2500000,
-          date: "2025-06-09"
-        }
-      ]
+      ...poolSettings,
+      host: env.CES_AZURE_PG_HOST,
+      port: parseInt(env.CES_AZURE_PG_PORT || '5432', 10),
+      database: env.CES_AZURE_PG_DB,
+      user: env.CES_AZURE_PG_USER,
+      password: env.CES_AZURE_PG_PASS,
+      ssl
     };
   }
-  
-  return { rows: [] };
-}
\ No newline at end of file
+
+  throw new DatabaseConfigError(
+    'Database not configured: set CES_AZURE_POSTGRES_URL or CES_AZURE_PG_HOST/CES_AZURE_PG_DB/CES_AZURE_PG_USER/CES_AZURE_PG_PASS'
+  );
+}
+
+export function isDatabaseConfigured(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.CES_AZURE_POSTGRES_URL || env.CES_AZURE_PG_HOST);
+}
+
+/**
+ * Lazily create the shared connection pool
+ */
+export function getPool(): Pool {
+  if (!pool) {
+    pool = new Pool(getDatabaseConfig());
+    pool.on('error', (error) => {
+      console.error('Idle PostgreSQL client error:', error);
+    });
+  }
+  return pool;
+}
+
+/**
+ * Replace the shared pool, e.g. with a pg-mem adapter or a pool pointed at a
+ * local container. Pass null to fall back to environment configuration.
+ */
+export function setPool(customPool: Pool | null): void {
+  pool = customPool;
+}
+
+export async function closePool(): Promise<void> {
+  if (pool) {
+    const current = pool;
+    pool = null;
+    await current.end();
+  }
+}
+
+type Queryable = Pick<Pool, 'query'> | PoolClient;
+
+async function runQuery<T extends QueryResultRow>(
+  target: Queryable,
+  query: string,
+  params: unknown[],
+  options: QueryOptions
+): Promise<QueryResult<T>> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Query timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([target.query<T>(query, params), timeout]);
+    return { rows: result.rows, rowCount: result.rowCount ?? result.rows.length };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Execute a parameterised query ($1, $2, ...) on the shared pool
+ */
+export async function executeQuery<T extends QueryResultRow = any>(
+  query: string,
+  params: unknown[] = [],
+  options: QueryOptions = {}
+): Promise<QueryResult<T>> {
+  return runQuery<T>(getPool(), query, params, options);
+}
+
+/**
+ * Run a callback inside BEGIN/COMMIT, rolling back if it throws
+ */
+export async function withTransaction<T>(
+  callback: (query: <R extends QueryResultRow = any>(sql: string, params?: unknown[], options?: QueryOptions) => Promise<QueryResult<R>>) => Promise<T>
+): Promise<T> {
+  const client = await getPool().connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await callback((sql, params = [], options = {}) => runQuery(client, sql, params, options));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch((rollbackError) => {
+      console.error('Transaction rollback failed:', rollbackError);
+    });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function checkDatabaseConnection(): Promise<DatabaseHealth> {
+  const startedAt = Date.now();
+
+  try {
+    const result = await executeQuery<{ version: string }>('SELECT version() AS version', [], { timeoutMs: 5000 });
+    return {
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      version: result.rows[0]?.version ?? null,
+      latencyMs: Date.now() - startedAt
+    };
+  } catch (error) {
+    return {
+      status: 'unhealthy',
+      timestamp: new Date().toISOString(),
+      version: null,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
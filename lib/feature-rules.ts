@@ -0,0 +1,310 @@
+/**
+ * Declarative Feature Extraction Rules
+ * Loads the versioned rule set in config/feature-rules.yaml that scores each
+ * business-driven feature from creative asset fields, validates it and
+ * evaluates it with per-tenant overrides and rules for tenant-defined features
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { BUSINESS_DRIVEN_FEATURES } from './business-outcome-engine';
+import type { CreativeAssetRecord } from './campaign-data';
+
+export type FeatureRule =
+  | { type: 'scale'; field: string; factor: number; default?: number }
+  | { type: 'lookup'; field: string; values: Record<string, number>; default: number }
+  | { type: 'contains'; field: string; patterns: Array<{ match: string; score: number }>; default: number }
+  | { type: 'presence'; field: string; present: number; absent: number }
+  | { type: 'constant'; value: number };
+
+export interface FeatureRuleSet {
+  version: string;
+  features: Record<string, FeatureRule>;
+  tenants?: Record<string, {
+    features: Record<string, FeatureRule>;
+    custom_features?: Record<string, FeatureRule>; // rules for the tenant's registered custom features
+  }>;
+}
+
+export interface RuleEvaluation {
+  featureId: string;
+  score: number;
+  ruleType: FeatureRule['type'];
+  matched: string; // which branch of the rule fired
+  sourceFields: string[];
+  sourceValues: Record<string, unknown>;
+  rule: string;
+  overridden: boolean; // rule came from a tenant override
+}
+
+export interface RuleValidationError {
+  path: string;
+  message: string;
+}
+
+export class FeatureRuleValidationError extends Error {
+  constructor(public readonly errors: RuleValidationError[]) {
+    super(`Invalid feature rule set: ${errors.map(e => `${e.path}: ${e.message}`).join('; ')}`);
+    this.name = 'FeatureRuleValidationError';
+  }
+}
+
+const RULES_PATH = path.join(process.cwd(), 'config', 'feature-rules.yaml');
+
+const FEATURE_IDS = BUSINESS_DRIVEN_FEATURES.map(f => f.id);
+const CUSTOM_FEATURE_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function validateRule(rule: unknown, rulePath: string): RuleValidationError[] {
+  if (!isRecord(rule)) {
+    return [{ path: rulePath, message: 'must be an object' }];
+  }
+
+  const errors: RuleValidationError[] = [];
+  const requireNumber = (key: string, optional = false) => {
+    if (rule[key] === undefined && optional) return;
+    if (!isNumber(rule[key])) errors.push({ path: `${rulePath}.${key}`, message: 'must be a number' });
+  };
+  const requireField = () => {
+    if (typeof rule.field !== 'string' || !rule.field) {
+      errors.push({ path: `${rulePath}.field`, message: 'must be a non-empty string' });
+    }
+  };
+
+  switch (rule.type) {
+    case 'scale':
+      requireField();
+      requireNumber('factor');
+      requireNumber('default', true);
+      break;
+    case 'lookup':
+      requireField();
+      requireNumber('default');
+      if (!isRecord(rule.values)) {
+        errors.push({ path: `${rulePath}.values`, message: 'must map field values to scores' });
+      } else {
+        for (const [key, score] of Object.entries(rule.values)) {
+          if (!isNumber(score)) errors.push({ path: `${rulePath}.values.${key}`, message: 'must be a number' });
+        }
+      }
+      break;
+    case 'contains':
+      requireField();
+      requireNumber('default');
+      if (!Array.isArray(rule.patterns)) {
+        errors.push({ path: `${rulePath}.patterns`, message: 'must be a list of { match, score }' });
+      } else {
+        rule.patterns.forEach((pattern: unknown, i: number) => {
+          const { match, score } = isRecord(pattern) ? pattern : { match: undefined, score: undefined };
+          if (typeof match !== 'string' || !match) {
+            errors.push({ path: `${rulePath}.patterns[${i}].match`, message: 'must be a non-empty string' });
+          }
+          if (!isNumber(score)) {
+            errors.push({ path: `${rulePath}.patterns[${i}].score`, message: 'must be a number' });
+          }
+        });
+      }
+      break;
+    case 'presence':
+      requireField();
+      requireNumber('present');
+      requireNumber('absent');
+      break;
+    case 'constant':
+      requireNumber('value');
+      break;
+    default:
+      errors.push({ path: `${rulePath}.type`, message: 'must be one of scale, lookup, contains, presence, constant' });
+  }
+
+  return errors;
+}
+
+/**
+ * Check a raw (parsed YAML/JSON) rule set: every business-driven feature needs
+ * a well-formed rule, tenant overrides may only name known features and
+ * tenant custom_features may not reuse a built-in id
+ */
+export function validateFeatureRuleSet(raw: unknown): RuleValidationError[] {
+  if (!isRecord(raw)) {
+    return [{ path: '', message: 'rule set must be an object' }];
+  }
+
+  const errors: RuleValidationError[] = [];
+  const { version, features } = raw;
+  const tenants = raw.tenants ?? {};
+  if (typeof version !== 'string' || !version) {
+    errors.push({ path: 'version', message: 'must be a non-empty string' });
+  }
+  if (!isRecord(features)) {
+    return [...errors, { path: 'features', message: 'must map feature ids to rules' }];
+  }
+
+  for (const featureId of FEATURE_IDS) {
+    if (!features[featureId]) {
+      errors.push({ path: `features.${featureId}`, message: 'missing rule' });
+    }
+  }
+  for (const [featureId, rule] of Object.entries(features)) {
+    if (!FEATURE_IDS.includes(featureId)) {
+      errors.push({ path: `features.${featureId}`, message: 'unknown feature' });
+      continue;
+    }
+    errors.push(...validateRule(rule, `features.${featureId}`));
+  }
+
+  if (!isRecord(tenants)) {
+    return [...errors, { path: 'tenants', message: 'must map tenant ids to { features }' }];
+  }
+  for (const [tenantId, override] of Object.entries(tenants)) {
+    const overrideFeatures = isRecord(override) ? override.features ?? {} : override ?? {};
+    if (!isRecord(overrideFeatures)) {
+      errors.push({ path: `tenants.${tenantId}.features`, message: 'must map feature ids to rules' });
+      continue;
+    }
+    for (const [featureId, rule] of Object.entries(overrideFeatures)) {
+      const rulePath = `tenants.${tenantId}.features.${featureId}`;
+      if (!FEATURE_IDS.includes(featureId)) {
+        errors.push({ path: rulePath, message: 'unknown feature' });
+        continue;
+      }
+      errors.push(...validateRule(rule, rulePath));
+    }
+
+    const customFeatures = isRecord(override) ? override.custom_features ?? {} : {};
+    if (!isRecord(customFeatures)) {
+      errors.push({ path: `tenants.${tenantId}.custom_features`, message: 'must map feature ids to rules' });
+      continue;
+    }
+    for (const [featureId, rule] of Object.entries(customFeatures)) {
+      const rulePath = `tenants.${tenantId}.custom_features.${featureId}`;
+      if (!CUSTOM_FEATURE_ID_PATTERN.test(featureId)) {
+        errors.push({ path: rulePath, message: 'must be lower_snake_case' });
+        continue;
+      }
+      if (FEATURE_IDS.includes(featureId)) {
+        errors.push({ path: rulePath, message: 'clashes with a built-in feature; override it under features' });
+        continue;
+      }
+      errors.push(...validateRule(rule, rulePath));
+    }
+  }
+
+  return errors;
+}
+
+export function parseFeatureRuleSet(raw: unknown): FeatureRuleSet {
+  const errors = validateFeatureRuleSet(raw);
+  if (errors.length > 0) {
+    throw new FeatureRuleValidationError(errors);
+  }
+  return raw as FeatureRuleSet;
+}
+
+let cachedRuleSet: FeatureRuleSet | null = null;
+
+// Accepts .yaml/.yml or .json; the default path is cached for the process
+export function loadFeatureRuleSet(rulesPath: string = RULES_PATH): FeatureRuleSet {
+  if (cachedRuleSet && rulesPath === RULES_PATH) {
+    return cachedRuleSet;
+  }
+
+  const text = fs.readFileSync(rulesPath, 'utf8');
+  const raw = rulesPath.endsWith('.json') ? JSON.parse(text) : yaml.load(text);
+  const ruleSet = parseFeatureRuleSet(raw);
+
+  if (rulesPath === RULES_PATH) {
+    cachedRuleSet = ruleSet;
+  }
+  return ruleSet;
+}
+
+export function clearFeatureRuleCache(): void {
+  cachedRuleSet = null;
+}
+
+/**
+ * The rules in effect for a tenant, with the names of overridden features and
+ * of the tenant's custom features that have a rule
+ */
+export function resolveTenantRules(ruleSet: FeatureRuleSet, tenantId?: string) {
+  const tenant = tenantId ? ruleSet.tenants?.[tenantId] : undefined;
+  const overrides = tenant?.features || {};
+  const customRules = tenant?.custom_features || {};
+  return {
+    rules: { ...ruleSet.features, ...overrides, ...customRules },
+    overridden: new Set(Object.keys(overrides)),
+    custom: new Set(Object.keys(customRules))
+  };
+}
+
+export function describeRule(rule: FeatureRule): string {
+  switch (rule.type) {
+    case 'scale':
+      return `${rule.field} × ${rule.factor}${rule.default !== undefined ? `, otherwise ${rule.default}` : ''}`;
+    case 'lookup':
+      return [...Object.entries(rule.values).map(([value, score]) => `${value} → ${score}`), `otherwise ${rule.default}`].join(', ');
+    case 'contains':
+      return [...rule.patterns.map(p => `${p.match}… → ${p.score}`), `otherwise ${rule.default}`].join(', ');
+    case 'presence':
+      return `${rule.field} set → ${rule.present}, otherwise ${rule.absent}`;
+    case 'constant':
+      return `No asset data; default ${rule.value}`;
+  }
+}
+
+export function evaluateRule(rule: FeatureRule, asset: CreativeAssetRecord): { score: number; matched: string } {
+  switch (rule.type) {
+    case 'scale': {
+      const value = parseFloat(String(asset[rule.field]));
+      if (Number.isFinite(value)) return { score: value * rule.factor, matched: 'scaled' };
+      return { score: rule.default ?? 0, matched: 'default' };
+    }
+    case 'lookup': {
+      const key = asset[rule.field];
+      if (key !== undefined && key !== null && Object.prototype.hasOwnProperty.call(rule.values, String(key))) {
+        return { score: rule.values[String(key)], matched: `value:${key}` };
+      }
+      return { score: rule.default, matched: 'default' };
+    }
+    case 'contains': {
+      const value = String(asset[rule.field] ?? '');
+      const pattern = rule.patterns.find(p => value.includes(p.match));
+      return pattern ? { score: pattern.score, matched: `match:${pattern.match}` } : { score: rule.default, matched: 'default' };
+    }
+    case 'presence':
+      return asset[rule.field] ? { score: rule.present, matched: 'present' } : { score: rule.absent, matched: 'absent' };
+    case 'constant':
+      return { score: rule.value, matched: 'constant' };
+  }
+}
+
+export function evaluateFeatureRules(
+  asset: CreativeAssetRecord,
+  ruleSet: FeatureRuleSet,
+  tenantId?: string
+): RuleEvaluation[] {
+  const { rules, overridden, custom } = resolveTenantRules(ruleSet, tenantId);
+
+  return [...FEATURE_IDS, ...custom].map(featureId => {
+    const rule = rules[featureId];
+    const { score, matched } = evaluateRule(rule, asset);
+    const sourceFields = rule.type === 'constant' ? [] : [rule.field];
+
+    return {
+      featureId,
+      score,
+      ruleType: rule.type,
+      matched,
+      sourceFields,
+      sourceValues: Object.fromEntries(sourceFields.map(field => [field, asset[field] ?? null])),
+      rule: describeRule(rule),
+      overridden: overridden.has(featureId)
+    };
+  });
+}
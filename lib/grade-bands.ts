@@ -0,0 +1,25 @@
+/**
+ * Grade Bands
+ * Per-tenant grade bands from config/ask-ces.yaml (scoring.grade_bands and
+ * scoring.tenant_grade_bands.<tenant_id>), over the defaults in score-scale
+ */
+
+import { loadAskCESConfig } from './config';
+import { DEFAULT_GRADE_BANDS, validateGradeBands, type GradeBand } from './score-scale';
+
+export function getGradeBands(tenantId: string = loadAskCESConfig().tenant?.id): GradeBand[] {
+  const scoring = loadAskCESConfig().scoring || {};
+  const candidates: Array<[string, unknown]> = [
+    [`scoring.tenant_grade_bands.${tenantId}`, scoring.tenant_grade_bands?.[tenantId]],
+    ['scoring.grade_bands', scoring.grade_bands]
+  ];
+
+  for (const [configPath, bands] of candidates) {
+    if (bands === undefined) continue;
+    const errors = validateGradeBands(bands);
+    if (errors.length === 0) return bands as GradeBand[];
+    // A bad config should not take scoring down; fall through to the next level
+    console.error(`Invalid grade bands at ${configPath}:`, errors);
+  }
+  return DEFAULT_GRADE_BANDS;
+}
@@ -0,0 +1,227 @@
+/**
+ * Metrics Query Builder
+ * Builds parameterised SQL over campaign_events from a whitelist of metric
+ * definitions. Metrics are aggregated from additive components (event counts
+ * and sums), so ratios and averages are computed from the totals of each
+ * group rather than averaged across rows. Only the fixed SQL below is ever
+ * written into a query; ranges, filters, time zones and granularities are
+ * bound as parameters
+ */
+
+import { executeQuery } from './database';
+
+// Additive aggregates of campaign_events
+const COMPONENTS = {
+  impressions: "COUNT(*) FILTER (WHERE event_type = 'impression')",
+  clicks: "COUNT(*) FILTER (WHERE event_type = 'click')",
+  conversions: "COUNT(*) FILTER (WHERE event_type = 'conversion')",
+  spend: 'COALESCE(SUM(cost), 0)',
+  revenue: 'COALESCE(SUM(value), 0)',
+  conversion_value: "COALESCE(SUM(value) FILTER (WHERE event_type = 'conversion'), 0)"
+} as const;
+
+export type MetricComponent = keyof typeof COMPONENTS;
+
+export type MetricDefinition =
+  | { kind: 'sum'; component: MetricComponent; description: string }
+  // numerator / denominator * scale; 0 when the denominator is 0
+  | { kind: 'ratio'; numerator: MetricComponent; denominator: MetricComponent; scale: number; description: string }
+  // total / count, e.g. value per conversion; 0 when the count is 0
+  | { kind: 'average'; total: MetricComponent; count: MetricComponent; description: string };
+
+export const METRIC_DEFINITIONS = {
+  impressions: { kind: 'sum', component: 'impressions', description: 'Impression events' },
+  clicks: { kind: 'sum', component: 'clicks', description: 'Click events' },
+  conversions: { kind: 'sum', component: 'conversions', description: 'Conversion events' },
+  spend: { kind: 'sum', component: 'spend', description: 'Cost of all events' },
+  revenue: { kind: 'sum', component: 'revenue', description: 'Value of all events' },
+  ctr: { kind: 'ratio', numerator: 'clicks', denominator: 'impressions', scale: 100, description: 'Clicks per 100 impressions' },
+  conversion_rate: { kind: 'ratio', numerator: 'conversions', denominator: 'clicks', scale: 100, description: 'Conversions per 100 clicks' },
+  cpc: { kind: 'ratio', numerator: 'spend', denominator: 'clicks', scale: 1, description: 'Spend per click' },
+  cpm: { kind: 'ratio', numerator: 'spend', denominator: 'impressions', scale: 1000, description: 'Spend per 1000 impressions' },
+  cpa: { kind: 'ratio', numerator: 'spend', denominator: 'conversions', scale: 1, description: 'Spend per conversion' },
+  roi: { kind: 'ratio', numerator: 'revenue', denominator: 'spend', scale: 1, description: 'Revenue per unit of spend' },
+  avg_order_value: { kind: 'average', total: 'conversion_value', count: 'conversions', description: 'Value per conversion' }
+} as const satisfies Record<string, MetricDefinition>;
+
+export type MetricName = keyof typeof METRIC_DEFINITIONS;
+
+export const METRIC_NAMES = Object.keys(METRIC_DEFINITIONS) as MetricName[];
+
+export const GRANULARITIES = ['hour', 'day', 'week', 'month'] as const;
+
+export type Granularity = typeof GRANULARITIES[number];
+
+// Grouping columns of campaign_events
+const DIMENSIONS = {
+  platform: "COALESCE(platform, 'unknown')",
+  campaign: 'campaign_id'
+} as const;
+
+export type MetricDimension = keyof typeof DIMENSIONS;
+
+export type MetricsGroupBy =
+  // Whole days since range.start, from 0
+  | { kind: 'dayIndex' }
+  // Local bucket start in the time zone, with a row for every bucket of the range
+  | { kind: 'bucket'; granularity: Granularity; timezone: string }
+  | { kind: 'dimension'; dimension: MetricDimension }
+  // A key of the metadata JSONB column; events without it group as 'unknown'
+  | { kind: 'metadata'; key: string };
+
+export interface MetricsQuery<M extends MetricName = MetricName> {
+  metrics: M[];
+  // Half-open [start, end) ISO timestamps
+  range: { start: string; end: string };
+  groupBy?: MetricsGroupBy;
+  campaignId?: string;
+  // Sort groups by this metric, highest first; otherwise by group
+  orderBy?: M;
+}
+
+export interface BuiltQuery {
+  text: string;
+  values: unknown[];
+}
+
+export type MetricsRow<M extends MetricName> = { group: string | number | null } & Record<M, number>;
+
+export class MetricsQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetricsQueryError';
+  }
+}
+
+export function isMetricName(name: string): name is MetricName {
+  return Object.prototype.hasOwnProperty.call(METRIC_DEFINITIONS, name);
+}
+
+function componentsOf(definition: MetricDefinition): MetricComponent[] {
+  switch (definition.kind) {
+    case 'sum': return [definition.component];
+    case 'ratio': return [definition.numerator, definition.denominator];
+    case 'average': return [definition.total, definition.count];
+  }
+}
+
+// Metric from the aggregated components; groups without events count as zero
+function metricExpression(definition: MetricDefinition): string {
+  switch (definition.kind) {
+    case 'sum':
+      return `COALESCE(totals.${definition.component}, 0)`;
+    case 'ratio': {
+      const scale = definition.scale === 1 ? '' : ` * ${definition.scale}`;
+      return `ROUND(COALESCE(totals.${definition.numerator}::numeric / NULLIF(totals.${definition.denominator}, 0), 0)${scale}, 4)`;
+    }
+    case 'average':
+      return `ROUND(COALESCE(totals.${definition.total}::numeric / NULLIF(totals.${definition.count}, 0), 0), 4)`;
+  }
+}
+
+export function buildMetricsQuery<M extends MetricName>(query: MetricsQuery<M>): BuiltQuery {
+  const { metrics, range, groupBy, campaignId, orderBy } = query;
+  if (metrics.length === 0) {
+    throw new MetricsQueryError('At least one metric is required');
+  }
+  const unknown = metrics.filter(name => !isMetricName(name));
+  if (unknown.length > 0) {
+    throw new MetricsQueryError(`Unknown metrics: ${unknown.join(', ')}. Available: ${METRIC_NAMES.join(', ')}`);
+  }
+  if (orderBy !== undefined && !metrics.includes(orderBy)) {
+    throw new MetricsQueryError(`orderBy must be one of the requested metrics: ${orderBy}`);
+  }
+  if (groupBy?.kind === 'dimension' && !Object.prototype.hasOwnProperty.call(DIMENSIONS, groupBy.dimension)) {
+    throw new MetricsQueryError(`Unknown dimension: ${groupBy.dimension}`);
+  }
+
+  const values: unknown[] = [];
+  const param = (value: unknown) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  const start = param(range.start);
+  const end = param(range.end);
+  // "timestamp" is the event time column, quoted as it is also a type name
+  const conditions = [`"timestamp" >= ${start}::timestamptz`, `"timestamp" < ${end}::timestamptz`];
+  if (campaignId) {
+    conditions.push(`campaign_id = ${param(campaignId)}`);
+  }
+
+  const definitions: [M, MetricDefinition][] = metrics.map(name => [name, METRIC_DEFINITIONS[name]]);
+  const components = [...new Set(definitions.flatMap(([, definition]) => componentsOf(definition)))];
+  const componentColumns = components.map(component => `${COMPONENTS[component]} AS ${component}`);
+  const metricColumns = definitions.map(([name, definition]) => `${metricExpression(definition)} AS ${name}`);
+
+  if (!groupBy) {
+    return {
+      text: `
+        WITH totals AS (
+          SELECT ${componentColumns.join(', ')}
+          FROM campaign_events
+          WHERE ${conditions.join(' AND ')}
+        )
+        SELECT NULL AS group_key, ${metricColumns.join(', ')} FROM totals
+      `,
+      values
+    };
+  }
+
+  if (groupBy.kind === 'bucket') {
+    const granularity = param(groupBy.granularity);
+    const timezone = param(groupBy.timezone);
+    // Buckets are local timestamps (timestamp without time zone) in the time zone
+    return {
+      text: `
+        WITH buckets AS (
+          SELECT generate_series(
+            date_trunc(${granularity}, ${start}::timestamptz AT TIME ZONE ${timezone}),
+            date_trunc(${granularity}, (${end}::timestamptz - INTERVAL '1 microsecond') AT TIME ZONE ${timezone}),
+            ('1 ' || ${granularity})::interval
+          ) AS bucket
+        ),
+        totals AS (
+          SELECT date_trunc(${granularity}, "timestamp" AT TIME ZONE ${timezone}) AS bucket, ${componentColumns.join(', ')}
+          FROM campaign_events
+          WHERE ${conditions.join(' AND ')}
+          GROUP BY 1
+        )
+        SELECT to_char(buckets.bucket, 'YYYY-MM-DD"T"HH24:MI:SS') AS group_key, ${metricColumns.join(', ')}
+        FROM buckets
+        LEFT JOIN totals ON totals.bucket = buckets.bucket
+        ORDER BY ${orderBy ? `${orderBy} DESC` : 'buckets.bucket'}
+      `,
+      values
+    };
+  }
+
+  const groupExpression = groupBy.kind === 'dayIndex'
+    ? `FLOOR(EXTRACT(EPOCH FROM ("timestamp" - ${start}::timestamptz)) / 86400)::int`
+    : groupBy.kind === 'metadata'
+      ? `COALESCE(NULLIF(metadata ->> ${param(groupBy.key)}, ''), 'unknown')`
+      : DIMENSIONS[groupBy.dimension];
+
+  return {
+    text: `
+      WITH totals AS (
+        SELECT ${groupExpression} AS group_key, ${componentColumns.join(', ')}
+        FROM campaign_events
+        WHERE ${conditions.join(' AND ')}
+        GROUP BY 1
+      )
+      SELECT group_key, ${metricColumns.join(', ')} FROM totals
+      ORDER BY ${orderBy ? `${orderBy} DESC` : 'group_key'}
+    `,
+    values
+  };
+}
+
+export async function runMetricsQuery<M extends MetricName>(query: MetricsQuery<M>): Promise<MetricsRow<M>[]> {
+  const { text, values } = buildMetricsQuery(query);
+  const result = await executeQuery<Record<string, unknown>>(text, values);
+  return result.rows.map(row => {
+    const metrics = Object.fromEntries(query.metrics.map(name => [name, Number(row[name])])) as Record<M, number>;
+    return { group: row.group_key as string | number | null, ...metrics };
+  });
+}
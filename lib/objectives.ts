@@ -0,0 +1,73 @@
+/**
+ * Campaign Objectives
+ * Maps campaign_type values to objective blends (objectives.campaign_types in
+ * config/ask-ces.yaml) so each campaign is scored against its real objective
+ */
+
+import { loadAskCESConfig } from './config';
+import {
+  ObjectiveError,
+  describeObjective,
+  normalizeObjective,
+  type ObjectiveBlend
+} from './business-outcome-engine';
+
+export interface ResolvedObjective {
+  blend: ObjectiveBlend;
+  label: string;
+  source: 'request' | 'campaign_type' | 'default';
+  campaignType?: string;
+}
+
+function getDefaultObjective(): ObjectiveBlend {
+  const configured = loadAskCESConfig().objectives?.default ?? 'conversion';
+  try {
+    return normalizeObjective(configured);
+  } catch (error) {
+    console.error('Invalid objectives.default, using conversion:', error);
+    return { conversion: 1 };
+  }
+}
+
+// Objective for a campaign from its campaign_type, or the configured default
+export function resolveCampaignObjective(campaign: Record<string, any>): ResolvedObjective {
+  const campaignType: string | undefined = campaign.type ?? campaign.campaign_type;
+  const mapped = campaignType ? loadAskCESConfig().objectives?.campaign_types?.[campaignType] : undefined;
+
+  if (mapped !== undefined) {
+    try {
+      const blend = normalizeObjective(mapped);
+      return { blend, label: describeObjective(blend), source: 'campaign_type', campaignType };
+    } catch (error) {
+      // A bad mapping should not take scoring down; fall back to the default
+      console.error(`Invalid objective mapping for campaign type ${campaignType}:`, error);
+    }
+  }
+
+  const blend = getDefaultObjective();
+  return { blend, label: describeObjective(blend), source: 'default', campaignType };
+}
+
+// An explicit objective from a request, which overrides the campaign's own
+export function resolveRequestedObjective(objective: unknown): ResolvedObjective {
+  const blend = normalizeObjective(objective);
+  return { blend, label: describeObjective(blend), source: 'request' };
+}
+
+/**
+ * Parse an objective query parameter: either a name ('brand') or a blend
+ * written as 'brand:0.6,conversion:0.4'
+ */
+export function parseObjectiveParam(param: string): ObjectiveBlend {
+  if (!param.includes(':')) return normalizeObjective(param);
+
+  const blend: Record<string, number> = {};
+  for (const part of param.split(',')) {
+    const [objective, share, ...rest] = part.split(':').map(s => s.trim());
+    if (!objective || share === undefined || share === '' || rest.length > 0 || Number.isNaN(Number(share))) {
+      throw new ObjectiveError(`Invalid objective blend entry: ${part}`);
+    }
+    blend[objective] = Number(share);
+  }
+  return normalizeObjective(blend);
+}
@@ -0,0 +1,235 @@
+/**
+ * Budget-Constrained Improvement Optimizer
+ * Picks the set of creative feature improvements that maximises the expected
+ * gain in totalScore (or one outcome) within a cost budget and a timeline
+ */
+
+import { loadAskCESConfig } from './config';
+import {
+  normalizeObjective,
+  primaryObjective,
+  type BusinessOutcomeEngine,
+  type CampaignObjective,
+  type CreativeFeature,
+  type ObjectiveBlend,
+  type ObjectiveInput
+} from './business-outcome-engine';
+
+export interface OptimizerSettings {
+  costUnits: Record<CreativeFeature['costToImplement'], number>;
+  timeWeeks: Record<CreativeFeature['timeToImplement'], number>;
+  targetFeatureScore: number;
+}
+
+export interface OptimizationOptions {
+  budget: number; // in cost units
+  timeline: number; // in weeks
+  objective?: ObjectiveInput;
+  target?: string; // 'totalScore' or an outcome id
+  // parallel: every improvement must fit in the timeline; sequential: their durations add up
+  scheduling?: 'parallel' | 'sequential';
+  businessPriorities?: Record<string, number>;
+  settings?: OptimizerSettings;
+}
+
+export interface OptimizedImprovement {
+  featureId: string;
+  featureName: string;
+  currentScore: number;
+  targetScore: number;
+  cost: number;
+  weeks: number;
+  expectedGain: number;
+  implementation: string[];
+}
+
+export interface ScoreSnapshot {
+  totalScore: number;
+  target: number;
+  outcomeBreakdown: Record<string, number>;
+}
+
+export interface OptimizationResult {
+  target: string;
+  objective: CampaignObjective;
+  objectiveBlend: ObjectiveBlend;
+  budget: number;
+  timeline: number;
+  scheduling: 'parallel' | 'sequential';
+  plan: OptimizedImprovement[];
+  totals: { cost: number; weeks: number; expectedGain: number };
+  before: ScoreSnapshot;
+  after: ScoreSnapshot;
+  excluded: Array<{ featureId: string; reason: 'at_target' | 'exceeds_timeline' | 'exceeds_budget' | 'no_gain' }>;
+  settings: OptimizerSettings;
+}
+
+export class OptimizerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptimizerError';
+  }
+}
+
+const DEFAULT_SETTINGS: OptimizerSettings = {
+  costUnits: { low: 1, medium: 3, high: 5 },
+  timeWeeks: { immediate: 0.5, short: 2, medium: 6, long: 12 },
+  targetFeatureScore: 8
+};
+
+// optimizer block in config/ask-ces.yaml, over the defaults
+export function getOptimizerSettings(): OptimizerSettings {
+  const configured = loadAskCESConfig().optimizer || {};
+  return {
+    costUnits: { ...DEFAULT_SETTINGS.costUnits, ...configured.cost_units },
+    timeWeeks: { ...DEFAULT_SETTINGS.timeWeeks, ...configured.time_weeks },
+    targetFeatureScore: configured.target_feature_score ?? DEFAULT_SETTINGS.targetFeatureScore
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Exact 0/1 knapsack by branch and bound. Items are sorted by gain per cost
+ * unit, and the fractional (LP) relaxation of the remaining items bounds
+ * each branch, so sizes seen here (tens of features) resolve quickly
+ */
+export function selectImprovements<T extends { cost: number; weeks: number; gain: number }>(
+  items: T[],
+  budget: number,
+  timeline: number,
+  scheduling: 'parallel' | 'sequential'
+): T[] {
+  const sorted = [...items].sort((a, b) => b.gain / Math.max(b.cost, 1e-9) - a.gain / Math.max(a.cost, 1e-9));
+  let best: { gain: number; chosen: number[] } = { gain: 0, chosen: [] };
+  const chosen: number[] = [];
+
+  const bound = (index: number, cost: number, gain: number) => {
+    let remaining = budget - cost;
+    let estimate = gain;
+    for (let i = index; i < sorted.length && remaining > 0; i++) {
+      const take = Math.min(1, sorted[i].cost > 0 ? remaining / sorted[i].cost : 1);
+      estimate += sorted[i].gain * take;
+      remaining -= sorted[i].cost * take;
+    }
+    return estimate;
+  };
+
+  const search = (index: number, cost: number, weeks: number, gain: number) => {
+    if (gain > best.gain) best = { gain, chosen: [...chosen] };
+    if (index === sorted.length || bound(index, cost, gain) <= best.gain) return;
+
+    const item = sorted[index];
+    const nextWeeks = scheduling === 'sequential' ? weeks + item.weeks : Math.max(weeks, item.weeks);
+    if (cost + item.cost <= budget && nextWeeks <= timeline) {
+      chosen.push(index);
+      search(index + 1, cost + item.cost, nextWeeks, gain + item.gain);
+      chosen.pop();
+    }
+    search(index + 1, cost, weeks, gain);
+  };
+
+  search(0, 0, 0, 0);
+  return best.chosen.map(i => sorted[i]);
+}
+
+export function optimizeImprovements(
+  engine: BusinessOutcomeEngine,
+  featureScores: Record<string, number>,
+  {
+    budget,
+    timeline,
+    objective = 'conversion',
+    target = 'totalScore',
+    scheduling = 'parallel',
+    businessPriorities = {},
+    settings = getOptimizerSettings()
+  }: OptimizationOptions
+): OptimizationResult {
+  if (!(budget >= 0) || !(timeline >= 0)) {
+    throw new OptimizerError('budget and timeline must be non-negative numbers');
+  }
+  if (target !== 'totalScore' && !engine.outcomes[target]) {
+    throw new OptimizerError(`Unknown target outcome: ${target}`);
+  }
+  const objectiveBlend = normalizeObjective(objective);
+
+  // Unrounded, so small per-feature gains are not lost
+  const normalizer = engine.getScoreNormalizer(businessPriorities, objective);
+  const targetValue = (scores: Record<string, number>) => {
+    const { outcomeBreakdown } = engine.calculateBusinessEffectiveness(scores, businessPriorities, objective);
+    return target === 'totalScore'
+      ? Object.values(outcomeBreakdown).reduce((sum, score) => sum + score, 0) * normalizer
+      : outcomeBreakdown[target];
+  };
+  const snapshot = (scores: Record<string, number>): ScoreSnapshot => {
+    const { totalScore, outcomeBreakdown } = engine.calculateBusinessEffectiveness(scores, businessPriorities, objective);
+    return { totalScore, target: round(targetValue(scores)), outcomeBreakdown };
+  };
+
+  const baseline = targetValue(featureScores);
+  const excluded: OptimizationResult['excluded'] = [];
+  const candidates = [];
+
+  for (const feature of engine.features) {
+    const currentScore = featureScores[feature.id] || 0;
+    const cost = settings.costUnits[feature.costToImplement];
+    const weeks = settings.timeWeeks[feature.timeToImplement];
+
+    if (currentScore >= settings.targetFeatureScore) {
+      excluded.push({ featureId: feature.id, reason: 'at_target' });
+      continue;
+    }
+    if (weeks > timeline) {
+      excluded.push({ featureId: feature.id, reason: 'exceeds_timeline' });
+      continue;
+    }
+    if (cost > budget) {
+      excluded.push({ featureId: feature.id, reason: 'exceeds_budget' });
+      continue;
+    }
+
+    // Scores are linear in each feature, so single-feature gains add up exactly
+    const gain = targetValue({ ...featureScores, [feature.id]: settings.targetFeatureScore }) - baseline;
+    if (gain <= 0) {
+      excluded.push({ featureId: feature.id, reason: 'no_gain' });
+      continue;
+    }
+    candidates.push({ feature, currentScore, cost, weeks, gain });
+  }
+
+  const selected = selectImprovements(candidates, budget, timeline, scheduling)
+    .sort((a, b) => b.gain - a.gain);
+
+  const improvedScores = { ...featureScores };
+  for (const { feature } of selected) improvedScores[feature.id] = settings.targetFeatureScore;
+
+  const weeks = selected.map(item => item.weeks);
+  return {
+    target,
+    objective: primaryObjective(objectiveBlend),
+    objectiveBlend,
+    budget,
+    timeline,
+    scheduling,
+    plan: selected.map(({ feature, currentScore, cost, weeks: itemWeeks, gain }) => ({
+      featureId: feature.id,
+      featureName: feature.name,
+      currentScore: round(currentScore),
+      targetScore: settings.targetFeatureScore,
+      cost,
+      weeks: itemWeeks,
+      expectedGain: round(gain),
+      implementation: feature.implementation
+    })),
+    totals: {
+      cost: selected.reduce((sum, item) => sum + item.cost, 0),
+      weeks: scheduling === 'sequential' ? weeks.reduce((sum, w) => sum + w, 0) : Math.max(0, ...weeks),
+      expectedGain: round(selected.reduce((sum, item) => sum + item.gain, 0))
+    },
+    before: snapshot(featureScores),
+    after: snapshot(improvedScores),
+    excluded,
+    settings
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Period-over-Period Analytics
+ * Totals for a reporting window from campaign_events, compared with the
+ * window just before it and optionally the same window a year earlier.
+ * Each metric carries its absolute and percentage change, and whether the
+ * difference in daily values is statistically significant (Welch's t-test)
+ */
+
+import { CONFIDENCE_LEVELS, Z_SCORES } from './business-outcome-engine';
+import { loadAskCESConfig } from './config';
+import { runMetricsQuery } from './metrics-query';
+
+export const TIMEFRAME_DAYS = { '7d': 7, '30d': 30, '90d': 90, '365d': 365 } as const;
+
+export type Timeframe = keyof typeof TIMEFRAME_DAYS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Half-open [start, end) in ISO timestamps
+export interface PeriodWindow {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface ComparisonWindows {
+  current: PeriodWindow;
+  previous: PeriodWindow;
+  lastYear: PeriodWindow;
+}
+
+export interface DailyTotals {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  revenue: number;
+}
+
+export type PeriodMetric = 'impressions' | 'clicks' | 'conversions' | 'spend' | 'roi';
+
+export const PERIOD_METRICS: PeriodMetric[] = ['impressions', 'clicks', 'conversions', 'spend', 'roi'];
+
+export interface PeriodSummary {
+  window: PeriodWindow;
+  totals: Record<PeriodMetric, number>;
+  // One value per day of the window, zero for days without events
+  daily: Record<PeriodMetric, number[]>;
+}
+
+// The current window against a comparison window
+export interface MetricChange {
+  delta: number; // current - comparison
+  change: number | null; // percent; null when the comparison value is 0
+  trend: 'up' | 'down' | 'flat';
+  significant: boolean;
+  tStatistic: number | null;
+}
+
+export interface MetricComparison extends MetricChange {
+  current: number;
+  previous: number;
+  lastYear?: MetricChange & { value: number };
+}
+
+export interface PeriodComparison {
+  period: PeriodWindow;
+  previousPeriod: PeriodWindow;
+  lastYearPeriod?: PeriodWindow;
+  confidenceLevel: number;
+  metrics: Record<PeriodMetric, MetricComparison>;
+}
+
+export interface AnalyticsSettings {
+  confidenceLevel: number;
+  timezone: string;
+}
+
+export const DEFAULT_ANALYTICS_TIMEZONE = 'Asia/Manila';
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// analytics block in config/ask-ces.yaml
+export function getAnalyticsSettings(): AnalyticsSettings {
+  const configured = loadAskCESConfig().analytics || {};
+
+  let confidenceLevel = configured.significance_level ?? 0.95;
+  if (!CONFIDENCE_LEVELS.includes(confidenceLevel)) {
+    console.error(`analytics.significance_level must be one of ${CONFIDENCE_LEVELS.join(', ')}; using 0.95`);
+    confidenceLevel = 0.95;
+  }
+
+  let timezone = configured.timezone ?? DEFAULT_ANALYTICS_TIMEZONE;
+  if (!isValidTimeZone(timezone)) {
+    console.error(`analytics.timezone is not a known IANA time zone: ${timezone}; using ${DEFAULT_ANALYTICS_TIMEZONE}`);
+    timezone = DEFAULT_ANALYTICS_TIMEZONE;
+  }
+
+  return { confidenceLevel, timezone };
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const shiftYears = (iso: string, years: number) => {
+  const date = new Date(iso);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return date.toISOString();
+};
+
+// The `days` ending at `now`
+export function trailingWindow(days: number, now: Date = new Date()): PeriodWindow {
+  return { start: new Date(now.getTime() - days * DAY_MS).toISOString(), end: now.toISOString(), days };
+}
+
+// [start, end); a trailing partial day counts as a day
+export function customWindow(start: Date, end: Date): PeriodWindow {
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    days: Math.ceil((end.getTime() - start.getTime()) / DAY_MS)
+  };
+}
+
+/**
+ * The current window, the window of the same length just before it, and the
+ * current window moved back one calendar year
+ */
+export function comparisonWindows(current: PeriodWindow): ComparisonWindows {
+  const start = new Date(current.start).getTime();
+  const end = new Date(current.end).getTime();
+  return {
+    current,
+    previous: { start: new Date(start - (end - start)).toISOString(), end: current.start, days: current.days },
+    lastYear: { start: shiftYears(current.start, -1), end: shiftYears(current.end, -1), days: current.days }
+  };
+}
+
+// Event totals per day of the window; day 0 starts at window.start
+async function fetchDailyTotals(window: PeriodWindow, campaignId?: string): Promise<Map<number, DailyTotals>> {
+  const rows = await runMetricsQuery({
+    metrics: ['impressions', 'clicks', 'conversions', 'spend', 'revenue'],
+    range: window,
+    groupBy: { kind: 'dayIndex' },
+    campaignId
+  });
+  return new Map(rows.map(({ group, ...totals }) => [Number(group), totals]));
+}
+
+/**
+ * Totals and gap-filled daily values for a window. ROI is revenue / spend;
+ * its daily values only cover days with spend
+ */
+export function summarizePeriod(window: PeriodWindow, byDay: Map<number, DailyTotals>): PeriodSummary {
+  const empty: DailyTotals = { impressions: 0, clicks: 0, conversions: 0, spend: 0, revenue: 0 };
+  const days = Array.from({ length: window.days }, (_, i) => byDay.get(i) ?? empty);
+  const sum = (key: keyof DailyTotals) => days.reduce((total, day) => total + Number(day[key]), 0);
+
+  const spend = sum('spend');
+  const revenue = sum('revenue');
+  return {
+    window,
+    totals: {
+      impressions: sum('impressions'),
+      clicks: sum('clicks'),
+      conversions: sum('conversions'),
+      spend: round(spend),
+      roi: spend > 0 ? round(revenue / spend, 4) : 0
+    },
+    daily: {
+      impressions: days.map(d => Number(d.impressions)),
+      clicks: days.map(d => Number(d.clicks)),
+      conversions: days.map(d => Number(d.conversions)),
+      spend: days.map(d => Number(d.spend)),
+      roi: days.filter(d => Number(d.spend) > 0).map(d => Number(d.revenue) / Number(d.spend))
+    }
+  };
+}
+
+function meanAndVariance(values: number[]) {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return { mean, variance };
+}
+
+/**
+ * Two-sided critical t value, from the normal quantile by the Cornish-Fisher
+ * expansion (within about 0.01 of exact tables for df >= 3)
+ */
+export function tCritical(confidenceLevel: number, df: number): number {
+  const z = Z_SCORES[String(confidenceLevel)];
+  return z
+    + (z ** 3 + z) / (4 * df)
+    + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2)
+    + (3 * z ** 7 + 19 * z ** 5 + 17 * z ** 3 - 15 * z) / (384 * df ** 3);
+}
+
+/**
+ * Welch's t-test on two sets of daily values. Null when either side has
+ * fewer than two values or neither has any variance
+ */
+export function welchTTest(a: number[], b: number[]): { t: number; df: number } | null {
+  if (a.length < 2 || b.length < 2) return null;
+  const x = meanAndVariance(a);
+  const y = meanAndVariance(b);
+  const se2 = x.variance / a.length + y.variance / b.length;
+  // Constant series leave only floating-point noise in the variance
+  if (se2 <= Number.EPSILON * Math.max(x.mean ** 2, y.mean ** 2, 1)) return null;
+
+  const df = se2 ** 2 / (
+    (x.variance / a.length) ** 2 / (a.length - 1) + (y.variance / b.length) ** 2 / (b.length - 1)
+  );
+  return { t: (x.mean - y.mean) / Math.sqrt(se2), df };
+}
+
+export function compareMetric(
+  current: PeriodSummary,
+  comparison: PeriodSummary,
+  metric: PeriodMetric,
+  confidenceLevel: number
+): MetricChange {
+  const value = current.totals[metric];
+  const base = comparison.totals[metric];
+  const test = welchTTest(current.daily[metric], comparison.daily[metric]);
+  return {
+    delta: round(value - base, 4),
+    change: base !== 0 ? round(((value - base) / Math.abs(base)) * 100) : null,
+    trend: value > base ? 'up' : value < base ? 'down' : 'flat',
+    significant: test !== null && Math.abs(test.t) >= tCritical(confidenceLevel, test.df),
+    tStatistic: test ? round(test.t, 3) : null
+  };
+}
+
+export interface PeriodComparisonOptions {
+  window: PeriodWindow;
+  campaignId?: string;
+  yearOverYear?: boolean;
+  settings?: AnalyticsSettings;
+}
+
+export async function comparePeriods(options: PeriodComparisonOptions): Promise<PeriodComparison> {
+  const { window, campaignId, yearOverYear = false, settings = getAnalyticsSettings() } = options;
+  const windows = comparisonWindows(window);
+
+  const [current, previous, lastYear] = await Promise.all([
+    fetchDailyTotals(windows.current, campaignId).then(byDay => summarizePeriod(windows.current, byDay)),
+    fetchDailyTotals(windows.previous, campaignId).then(byDay => summarizePeriod(windows.previous, byDay)),
+    yearOverYear
+      ? fetchDailyTotals(windows.lastYear, campaignId).then(byDay => summarizePeriod(windows.lastYear, byDay))
+      : Promise.resolve(null)
+  ]);
+
+  const metrics = Object.fromEntries(PERIOD_METRICS.map(metric => {
+    const comparison: MetricComparison = {
+      current: current.totals[metric],
+      previous: previous.totals[metric],
+      ...compareMetric(current, previous, metric, settings.confidenceLevel)
+    };
+    if (lastYear) {
+      comparison.lastYear = {
+        value: lastYear.totals[metric],
+        ...compareMetric(current, lastYear, metric, settings.confidenceLevel)
+      };
+    }
+    return [metric, comparison];
+  })) as Record<PeriodMetric, MetricComparison>;
+
+  return {
+    period: windows.current,
+    previousPeriod: windows.previous,
+    lastYearPeriod: lastYear ? windows.lastYear : undefined,
+    confidenceLevel: settings.confidenceLevel,
+    metrics
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * What-If Scenarios
+ * Scores a baseline set of creative features against named deltas and reports
+ * per-outcome differences and threshold/target crossings
+ */
+
+import {
+  normalizeObjective,
+  primaryObjective,
+  type BusinessOutcomeEngine,
+  type CampaignObjective,
+  type ObjectiveBlend,
+  type ObjectiveInput
+} from './business-outcome-engine';
+
+export const MAX_SCENARIOS = 4;
+
+export interface ScenarioInput {
+  name: string;
+  deltas: Record<string, number>; // added to the baseline feature scores, result clamped to 0-10
+}
+
+export type OutcomeCrossing = 'reached_target' | 'lost_target' | 'above_threshold' | 'below_threshold';
+
+export interface ScenarioOutcome {
+  outcomeId: string;
+  name: string;
+  score: number; // predicted outcome value, in the units of threshold and targetValue
+  diff: number;
+  threshold: number;
+  targetValue: number;
+  crossings: OutcomeCrossing[];
+}
+
+export interface ScenarioResult {
+  name: string;
+  featureScores: Record<string, number>;
+  totalScore: number;
+  totalDiff: number;
+  outcomes: ScenarioOutcome[];
+}
+
+export interface ScenarioComparison {
+  objective: CampaignObjective;
+  objectiveBlend: ObjectiveBlend;
+  baseline: ScenarioResult;
+  scenarios: ScenarioResult[];
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function crossingsBetween(before: number, after: number, threshold: number, target: number): OutcomeCrossing[] {
+  const crossings: OutcomeCrossing[] = [];
+  if (before < target && after >= target) crossings.push('reached_target');
+  if (before >= target && after < target) crossings.push('lost_target');
+  if (before < threshold && after >= threshold) crossings.push('above_threshold');
+  if (before >= threshold && after < threshold) crossings.push('below_threshold');
+  return crossings;
+}
+
+export function applyDeltas(baseline: Record<string, number>, deltas: Record<string, number>): Record<string, number> {
+  const scores = { ...baseline };
+  for (const [featureId, delta] of Object.entries(deltas)) {
+    scores[featureId] = Math.min(10, Math.max(0, (scores[featureId] || 0) + delta));
+  }
+  return scores;
+}
+
+export function validateScenarios(engine: BusinessOutcomeEngine, scenarios: unknown): ScenarioInput[] {
+  if (!Array.isArray(scenarios) || scenarios.length === 0) {
+    throw new ScenarioError('scenarios must be a non-empty list of { name, deltas }');
+  }
+  if (scenarios.length > MAX_SCENARIOS) {
+    throw new ScenarioError(`At most ${MAX_SCENARIOS} scenarios can be compared`);
+  }
+
+  const featureIds = new Set(engine.features.map(f => f.id));
+  const names = new Set<string>();
+  scenarios.forEach((scenario: any, i) => {
+    if (typeof scenario?.name !== 'string' || !scenario.name) {
+      throw new ScenarioError(`scenarios[${i}].name must be a non-empty string`);
+    }
+    if (names.has(scenario.name)) {
+      throw new ScenarioError(`Duplicate scenario name: ${scenario.name}`);
+    }
+    names.add(scenario.name);
+    if (!scenario.deltas || typeof scenario.deltas !== 'object') {
+      throw new ScenarioError(`scenarios[${i}].deltas must map feature ids to score changes`);
+    }
+    for (const [featureId, delta] of Object.entries(scenario.deltas)) {
+      if (!featureIds.has(featureId)) {
+        throw new ScenarioError(`scenarios[${i}].deltas.${featureId}: unknown feature`);
+      }
+      if (typeof delta !== 'number' || !Number.isFinite(delta)) {
+        throw new ScenarioError(`scenarios[${i}].deltas.${featureId}: must be a number`);
+      }
+    }
+  });
+  return scenarios as ScenarioInput[];
+}
+
+export function runScenarios(
+  engine: BusinessOutcomeEngine,
+  baselineScores: Record<string, number>,
+  scenarios: ScenarioInput[],
+  objective: ObjectiveInput = 'conversion',
+  businessPriorities: Record<string, number> = {}
+): ScenarioComparison {
+  const objectiveBlend = normalizeObjective(objective);
+  const base = engine.calculateBusinessEffectiveness(baselineScores, businessPriorities, objective);
+
+  const describe = (name: string, featureScores: Record<string, number>): ScenarioResult => {
+    const result = engine.calculateBusinessEffectiveness(featureScores, businessPriorities, objective);
+    return {
+      name,
+      featureScores,
+      totalScore: result.totalScore,
+      totalDiff: round(result.totalScore - base.totalScore),
+      outcomes: Object.entries(engine.outcomes).map(([outcomeId, outcome]) => {
+        const before = base.outcomeValues[outcomeId] || 0;
+        const after = result.outcomeValues[outcomeId] || 0;
+        return {
+          outcomeId,
+          name: outcome.name,
+          score: round(after),
+          diff: round(after - before),
+          threshold: outcome.threshold,
+          targetValue: outcome.targetValue,
+          crossings: crossingsBetween(before, after, outcome.threshold, outcome.targetValue)
+        };
+      })
+    };
+  };
+
+  return {
+    objective: primaryObjective(objectiveBlend),
+    objectiveBlend,
+    baseline: describe('Baseline', baselineScores),
+    scenarios: scenarios.map(scenario => describe(scenario.name, applyDeltas(baselineScores, scenario.deltas)))
+  };
+}
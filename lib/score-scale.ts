@@ -0,0 +1,103 @@
+/**
+ * CES Score Scale
+ * The one definition of what a CES totalScore means, shared by the engine,
+ * API routes and components (no server-only imports, safe for client code)
+ *
+ * totalScore = summed outcome scores as a share of the most the same
+ * outcomes could sum to with every feature at 10, on 0-100.
+ */
+
+export interface ScoreScale {
+  id: string;
+  min: number;
+  max: number;
+  precision: number; // decimals shown in the UI
+  description: string;
+}
+
+export const CES_SCORE_SCALE: ScoreScale = {
+  id: 'ces-100',
+  min: 0,
+  max: 100,
+  precision: 1,
+  description: 'Share of the maximum achievable business effectiveness, 0-100'
+};
+
+// Highest feature score, the anchor for the scale's maximum
+export const MAX_FEATURE_SCORE = 10;
+
+export type GradeTone = 'strong' | 'moderate' | 'weak';
+
+export interface GradeBand {
+  grade: string;
+  min: number; // inclusive lower bound on the score scale
+  tone: GradeTone;
+}
+
+export const DEFAULT_GRADE_BANDS: GradeBand[] = [
+  { grade: 'A+', min: 85, tone: 'strong' },
+  { grade: 'A', min: 80, tone: 'strong' },
+  { grade: 'A-', min: 75, tone: 'strong' },
+  { grade: 'B+', min: 70, tone: 'moderate' },
+  { grade: 'B', min: 65, tone: 'moderate' },
+  { grade: 'B-', min: 60, tone: 'moderate' },
+  { grade: 'C+', min: 55, tone: 'weak' },
+  { grade: 'C', min: 50, tone: 'weak' },
+  { grade: 'C-', min: 0, tone: 'weak' }
+];
+
+const TONES: GradeTone[] = ['strong', 'moderate', 'weak'];
+
+export function clampToScale(score: number, scale: ScoreScale = CES_SCORE_SCALE): number {
+  return Math.min(scale.max, Math.max(scale.min, score));
+}
+
+export function formatScore(score: number, scale: ScoreScale = CES_SCORE_SCALE): string {
+  return `${score.toFixed(scale.precision)}/${scale.max}`;
+}
+
+export function gradeFor(score: number, bands: GradeBand[] = DEFAULT_GRADE_BANDS): GradeBand {
+  const sorted = [...bands].sort((a, b) => b.min - a.min);
+  return sorted.find(band => score >= band.min) ?? sorted[sorted.length - 1];
+}
+
+export function scoreTone(score: number, bands: GradeBand[] = DEFAULT_GRADE_BANDS): GradeTone {
+  return gradeFor(score, bands).tone;
+}
+
+// Tone of a single 0-MAX_FEATURE_SCORE feature score, at the same fractions of the scale as the default bands
+export function featureTone(score: number): GradeTone {
+  return scoreTone((score / MAX_FEATURE_SCORE) * CES_SCORE_SCALE.max);
+}
+
+/**
+ * Bands need unique grades and minimums inside the scale, and one band must
+ * start at the scale minimum so every score gets a grade
+ */
+export function validateGradeBands(raw: unknown, scale: ScoreScale = CES_SCORE_SCALE): Array<{ path: string; message: string }> {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return [{ path: '', message: 'must be a non-empty list of { grade, min, tone }' }];
+  }
+
+  const errors: Array<{ path: string; message: string }> = [];
+  const grades = new Set<string>();
+  raw.forEach((band: any, i) => {
+    if (typeof band?.grade !== 'string' || !band.grade) {
+      errors.push({ path: `[${i}].grade`, message: 'must be a non-empty string' });
+    } else if (grades.has(band.grade)) {
+      errors.push({ path: `[${i}].grade`, message: 'duplicate grade' });
+    } else {
+      grades.add(band.grade);
+    }
+    if (typeof band?.min !== 'number' || band.min < scale.min || band.min > scale.max) {
+      errors.push({ path: `[${i}].min`, message: `must be a number between ${scale.min} and ${scale.max}` });
+    }
+    if (!TONES.includes(band?.tone)) {
+      errors.push({ path: `[${i}].tone`, message: `must be one of ${TONES.join(', ')}` });
+    }
+  });
+  if (!raw.some((band: any) => band?.min === scale.min)) {
+    errors.push({ path: '', message: `one band must start at ${scale.min}` });
+  }
+  return errors;
+}
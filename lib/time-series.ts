@@ -0,0 +1,135 @@
+/**
+ * Analytics Time Series
+ * Event-level metrics from campaign_events bucketed by hour, day, week or
+ * month in a reporting time zone (Asia/Manila unless configured otherwise).
+ * Buckets without events are filled with zeros so every series has one
+ * point per bucket of the window
+ */
+
+import { runMetricsQuery, type Granularity } from './metrics-query';
+import {
+  customWindow,
+  PERIOD_METRICS,
+  TIMEFRAME_DAYS,
+  trailingWindow,
+  type PeriodMetric,
+  type PeriodWindow,
+  type Timeframe
+} from './period-comparison';
+
+// Keeps hourly series over long ranges from producing oversized responses
+export const MAX_TIME_SERIES_BUCKETS = 2000;
+
+const BUCKET_MS: Record<Granularity, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 28 * 24 * 60 * 60 * 1000
+};
+
+export interface TimeSeriesPoint {
+  // Local start of the bucket in the reporting time zone, e.g. 2025-06-02T00:00:00
+  bucket: string;
+  value: number;
+}
+
+export type MetricTimeSeries = Record<PeriodMetric, TimeSeriesPoint[]>;
+
+export interface TimeSeriesOptions {
+  window: PeriodWindow;
+  granularity: Granularity;
+  timezone: string;
+  campaignId?: string;
+}
+
+// path is the query parameter to report the error against
+export class TimeSeriesRangeError extends Error {
+  constructor(message: string, readonly path: 'granularity' | 'start' = 'granularity') {
+    super(message);
+    this.name = 'TimeSeriesRangeError';
+  }
+}
+
+// Milliseconds to add to UTC to get wall-clock time in the zone at that instant
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Midnight at the start of a YYYY-MM-DD date in a time zone. The offset is
+ * taken twice so dates next to a DST change resolve to the right instant
+ */
+export function startOfZonedDay(date: string, timeZone: string): Date {
+  const wallClock = new Date(`${date}T00:00:00Z`);
+  const guess = new Date(wallClock.getTime() - zoneOffsetMs(wallClock, timeZone));
+  return new Date(wallClock.getTime() - zoneOffsetMs(guess, timeZone));
+}
+
+/**
+ * A `start`/`end` query value as an instant. Date-only values are read in the
+ * reporting time zone, and an `end` date includes that whole day
+ */
+export function parseRangeBoundary(value: string, timeZone: string, boundary: 'start' | 'end'): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return new Date(value);
+
+  if (boundary === 'start') return startOfZonedDay(value, timeZone);
+  const nextDay = new Date(new Date(`${value}T00:00:00Z`).getTime() + BUCKET_MS.day).toISOString().split('T')[0];
+  return startOfZonedDay(nextDay, timeZone);
+}
+
+// YYYY-MM-DD of an instant in a time zone
+export function zonedDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
+
+export interface AnalyticsRange {
+  timeframe: Timeframe;
+  start?: string;
+  end?: string;
+}
+
+// An explicit start/end replaces the trailing timeframe
+export function resolveAnalyticsWindow(range: AnalyticsRange, timeZone: string): PeriodWindow {
+  return range.start && range.end
+    ? customWindow(parseRangeBoundary(range.start, timeZone, 'start'), parseRangeBoundary(range.end, timeZone, 'end'))
+    : trailingWindow(TIMEFRAME_DAYS[range.timeframe]);
+}
+
+/**
+ * One point per bucket for every period metric. ROI is revenue / spend within
+ * the bucket, 0 for buckets without spend
+ */
+export async function getTimeSeries(options: TimeSeriesOptions): Promise<MetricTimeSeries> {
+  const { window, granularity, timezone, campaignId } = options;
+
+  const span = new Date(window.end).getTime() - new Date(window.start).getTime();
+  if (Math.ceil(span / BUCKET_MS[granularity]) > MAX_TIME_SERIES_BUCKETS) {
+    throw new TimeSeriesRangeError(
+      `More than ${MAX_TIME_SERIES_BUCKETS} ${granularity} buckets in this range; use a coarser granularity or a shorter range`
+    );
+  }
+
+  const rows = await runMetricsQuery({
+    metrics: PERIOD_METRICS,
+    range: window,
+    groupBy: { kind: 'bucket', granularity, timezone },
+    campaignId
+  });
+
+  return Object.fromEntries(PERIOD_METRICS.map(metric => [
+    metric,
+    rows.map(row => ({ bucket: String(row.group), value: row[metric] }))
+  ])) as MetricTimeSeries;
+}
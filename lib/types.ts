@@ -1,53 +1,37 @@
-export interface CreativeFeatureScores {
-  content_value_proposition_clear: number;
-  content_urgency_triggers: number;
-  content_social_proof: number;
-  content_narrative_construction: number;
+// Feature IDs of BUSINESS_DRIVEN_FEATURES in lib/business-outcome-engine.ts
+export type BusinessFeatureId =
+  | 'value_proposition_clarity'
+  | 'urgency_scarcity_triggers'
+  | 'social_proof_integration'
+  | 'problem_solution_framing'
+  | 'visual_hierarchy_optimization'
+  | 'color_psychology_application'
+  | 'mobile_optimization'
+  | 'benefit_focused_headlines'
+  | 'action_oriented_language'
+  | 'personalization_depth'
+  | 'behavioral_targeting_precision'
+  | 'lookalike_audience_optimization'
+  | 'platform_native_optimization'
+  | 'cross_channel_consistency';
 
-  design_visual_hierarchy: number;
-  design_motion_graphics: number;
-  design_color_psychology: number;
-  design_visual_distinctiveness: number;
+// Outcome IDs of BUSINESS_OUTCOMES in lib/business-outcome-engine.ts
+export type BusinessOutcomeId =
+  | 'engagement'
+  | 'brand_recall'
+  | 'conversion'
+  | 'roi_sales'
+  | 'brand_sentiment'
+  | 'acquisition'
+  | 'media_efficiency'
+  | 'behavioral_response'
+  | 'brand_equity';
 
-  messaging_action_oriented_language: number;
-  messaging_benefit_focused_headlines: number;
-  messaging_message_clarity: number;
-  messaging_emotional_connection: number;
+// 0-10 per feature; tenants' custom features appear under their own IDs
+export type CreativeFeatureScores = Record<BusinessFeatureId, number> & { [customFeatureId: string]: number };
 
-  targeting_behavioral_precision: number;
-  targeting_lookalike_optimization: number;
-  targeting_values_based_targeting: number;
-
-  channel_cross_channel_consistency: number;
-  channel_platform_optimization: number;
-  channel_multi_format_adaptation: number;
-
-  detected_storytelling: number;
-  detected_emotional_appeal: number;
-  detected_call_to_action: number;
-  // Add other detected features as needed
-}
-
-export interface BusinessOutcomeScores {
-  outcome_engagement_high_engagement: number;
-  outcome_engagement_creative_breakthrough: number;
-  outcome_engagement_social_sharing: number;
-
-  outcome_conversion_direct_conversion: number;
-  outcome_conversion_sales_lift: number;
-  outcome_conversion_lead_generation: number;
-
-  outcome_brand_brand_recall: number;
-  outcome_brand_cultural_relevance: number;
-  outcome_brand_brand_trust: number;
-
-  outcome_efficiency_media_efficiency: number;
-  outcome_efficiency_roi_positive: number;
-
-  outcome_behavioral_consideration_behavior: number;
-  outcome_behavioral_advocacy_behavior: number;
-  // Add other behavioral outcomes as needed
-}
+// Predicted outcome values (the engine's outcomeValues), in the units of each outcome's threshold and targetValue
+export type BusinessOutcomeScores = Record<BusinessOutcomeId, number> & { [customOutcomeId: string]: number };
 
 export interface CampaignAsset {
   id: string;
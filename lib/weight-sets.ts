@@ -0,0 +1,176 @@
+/**
+ * Weight Set Store
+ * Persists calibrated businessImpact weight sets per tenant in Azure
+ * PostgreSQL (business_weight_sets) or, without a database, in process memory
+ */
+
+import { executeQuery, isDatabaseConfigured, withTransaction } from './database';
+import { businessEngine, type BusinessOutcomeEngine } from './business-outcome-engine';
+import { DEFAULT_WEIGHT_SET, type WeightSet } from './calibration';
+import { getDefaultTenantId, loadBusinessDefinitions } from './business-registry';
+
+export interface WeightSetStore {
+  readonly name: string;
+  list(): Promise<WeightSet[]>;
+  get(version: string): Promise<WeightSet | null>;
+  getActive(): Promise<WeightSet | null>;
+  save(weightSet: WeightSet, activate: boolean): Promise<void>;
+  activate(version: string): Promise<boolean>;
+}
+
+export class MemoryWeightSetStore implements WeightSetStore {
+  readonly name = 'memory';
+  private readonly weightSets = new Map<string, WeightSet>();
+  private activeVersion: string | null = null;
+
+  async list() {
+    return [...this.weightSets.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(version: string) {
+    return this.weightSets.get(version) ?? null;
+  }
+
+  async getActive() {
+    return this.activeVersion ? this.get(this.activeVersion) : null;
+  }
+
+  async save(weightSet: WeightSet, activate: boolean) {
+    this.weightSets.set(weightSet.version, weightSet);
+    if (activate) this.activeVersion = weightSet.version;
+  }
+
+  async activate(version: string) {
+    if (!this.weightSets.has(version)) return false;
+    this.activeVersion = version;
+    return true;
+  }
+}
+
+export class PostgresWeightSetStore implements WeightSetStore {
+  readonly name = 'azure_sql';
+
+  constructor(private readonly tenantId: string) {}
+
+  private toWeightSet(row: any): WeightSet {
+    return {
+      version: row.version,
+      source: 'calibrated',
+      createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at),
+      weights: row.weights,
+      fitStatistics: row.fit_statistics ?? undefined
+    };
+  }
+
+  async list() {
+    const result = await executeQuery(
+      'SELECT * FROM business_weight_sets WHERE tenant_id = $1 ORDER BY created_at DESC',
+      [this.tenantId]
+    );
+    return result.rows.map(row => this.toWeightSet(row));
+  }
+
+  async get(version: string) {
+    const result = await executeQuery(
+      'SELECT * FROM business_weight_sets WHERE tenant_id = $1 AND version = $2',
+      [this.tenantId, version]
+    );
+    return result.rows[0] ? this.toWeightSet(result.rows[0]) : null;
+  }
+
+  async getActive() {
+    const result = await executeQuery(
+      'SELECT * FROM business_weight_sets WHERE tenant_id = $1 AND is_active LIMIT 1',
+      [this.tenantId]
+    );
+    return result.rows[0] ? this.toWeightSet(result.rows[0]) : null;
+  }
+
+  async save(weightSet: WeightSet, activate: boolean) {
+    await withTransaction(async query => {
+      if (activate) {
+        await query('UPDATE business_weight_sets SET is_active = FALSE WHERE tenant_id = $1', [this.tenantId]);
+      }
+      await query(
+        `INSERT INTO business_weight_sets (tenant_id, version, weights, fit_statistics, is_active, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          this.tenantId,
+          weightSet.version,
+          JSON.stringify(weightSet.weights),
+          JSON.stringify(weightSet.fitStatistics ?? null),
+          activate,
+          weightSet.createdAt
+        ]
+      );
+    });
+  }
+
+  async activate(version: string) {
+    return withTransaction(async query => {
+      const exists = await query(
+        'SELECT 1 FROM business_weight_sets WHERE tenant_id = $1 AND version = $2',
+        [this.tenantId, version]
+      );
+      if (exists.rowCount === 0) return false;
+
+      await query('UPDATE business_weight_sets SET is_active = (version = $2) WHERE tenant_id = $1', [this.tenantId, version]);
+      return true;
+    });
+  }
+}
+
+// One store per tenant: each tenant calibrates and activates its own weight sets
+const stores = new Map<string, WeightSetStore>();
+
+export function getWeightSetStore(tenantId: string = getDefaultTenantId()): WeightSetStore {
+  let store = stores.get(tenantId);
+  if (!store) {
+    store = isDatabaseConfigured() ? new PostgresWeightSetStore(tenantId) : new MemoryWeightSetStore();
+    stores.set(tenantId, store);
+  }
+  return store;
+}
+
+export function setWeightSetStore(next: WeightSetStore | null, tenantId: string = getDefaultTenantId()): void {
+  if (next) {
+    stores.set(tenantId, next);
+  } else {
+    stores.delete(tenantId);
+  }
+}
+
+/**
+ * Resolve "default", "active" (falls back to default) or a stored version of a tenant
+ */
+export async function resolveWeightSet(
+  version: string = 'active',
+  tenantId: string = getDefaultTenantId()
+): Promise<WeightSet | null> {
+  if (version === 'default') return DEFAULT_WEIGHT_SET;
+  const store = getWeightSetStore(tenantId);
+  if (version === 'active') {
+    try {
+      return (await store.getActive()) ?? DEFAULT_WEIGHT_SET;
+    } catch (error) {
+      // Scoring must keep working when the store is unreachable
+      console.error('Error loading active weight set, using defaults:', error);
+      return DEFAULT_WEIGHT_SET;
+    }
+  }
+  return store.get(version);
+}
+
+/**
+ * The shared engine, running on the tenant's requested weight set with its
+ * registered outcomes and features
+ */
+export async function getBusinessEngine(
+  version: string = 'active',
+  tenantId: string = getDefaultTenantId()
+): Promise<BusinessOutcomeEngine | null> {
+  const weightSet = await resolveWeightSet(version, tenantId);
+  if (!weightSet) return null;
+  const engine = businessEngine.withDefinitions(await loadBusinessDefinitions(tenantId));
+  return weightSet.source === 'default' ? engine : engine.withWeightSet(weightSet);
+}
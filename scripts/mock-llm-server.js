@@ -0,0 +1,126 @@
+#!/usr/bin/env node
+
+/**
+ * Mock OpenAI-compatible LLM server
+ * Serves POST /v1/chat/completions (plain and streamed) with deterministic
+ * answers so Ask CES can run against the openai-compatible provider locally.
+ *
+ *   node scripts/mock-llm-server.js [--port=11434] [--fail-rate=0.2] [--delay=20]
+ *   LLM_PROVIDER=openai-compatible LLM_BASE_URL=http://localhost:11434/v1 npm run dev
+ */
+
+const http = require('http');
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map(arg => {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    return [key, value ?? 'true'];
+  })
+);
+
+const PORT = parseInt(args.port || process.env.MOCK_LLM_PORT || '11434', 10);
+const FAIL_RATE = parseFloat(args['fail-rate'] || '0');
+const TOKEN_DELAY_MS = parseInt(args.delay || '20', 10);
+
+function answerFor(messages) {
+  const last = messages[messages.length - 1];
+  const query = (last && last.content ? last.content : '').toLowerCase();
+
+  let response = "I'm Ask CES (mock server). ";
+  if (query.includes('roi')) {
+    response += 'ROI varies across campaigns; top performers exceed 5.0 and track engagement and brand recall closely.';
+  } else if (query.includes('campaign')) {
+    response += 'Engagement averages around 7.2% and conversion ranges from 2-8% depending on strategy and creative.';
+  } else if (query.includes('creative')) {
+    response += 'Creatives with prominent brand integration, strong colour harmony and visual distinctness perform best.';
+  } else {
+    response += 'Ask me about ROI, engagement, brand recall or creative performance.';
+  }
+  return response;
+}
+
+function countTokens(text) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method !== 'POST' || !req.url.endsWith('/chat/completions')) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+
+  if (Math.random() < FAIL_RATE) {
+    res.writeHead(503, { 'Content-Type': 'application/json', 'Retry-After': '0.1' });
+    res.end(JSON.stringify({ error: { message: 'Simulated overload' } }));
+    return;
+  }
+
+  let body;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'Invalid JSON body' } }));
+    return;
+  }
+
+  const messages = Array.isArray(body.messages) ? body.messages : [];
+  const maxTokens = body.max_tokens || 1000;
+  const words = answerFor(messages).split(' ').slice(0, maxTokens);
+  const model = body.model || 'mock-llm';
+  const promptTokens = messages.reduce((sum, m) => sum + countTokens(m.content || ''), 0);
+  const usage = {
+    prompt_tokens: promptTokens,
+    completion_tokens: words.length,
+    total_tokens: promptTokens + words.length
+  };
+
+  if (!body.stream) {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      id: `mock-${Date.now()}`,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content: words.join(' ') }, finish_reason: 'stop' }],
+      usage
+    }));
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  for (let i = 0; i < words.length; i++) {
+    if (res.destroyed) return;
+    const delta = (i === 0 ? '' : ' ') + words[i];
+    res.write(`data: ${JSON.stringify({ object: 'chat.completion.chunk', model, choices: [{ index: 0, delta: { content: delta } }] })}\n\n`);
+    await new Promise(resolve => setTimeout(resolve, TOKEN_DELAY_MS));
+  }
+
+  res.write(`data: ${JSON.stringify({ object: 'chat.completion.chunk', model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage })}\n\n`);
+  res.write('data: [DONE]\n\n');
+  res.end();
+});
+
+server.listen(PORT, () => {
+  console.log(`🤖 Mock LLM server listening on http://localhost:${PORT}/v1/chat/completions`);
+});
@@ -87,6 +87,118 @@ CREATE TABLE IF NOT EXISTS campaign_channel_performance (
     tenant_id VARCHAR(50) DEFAULT 'ces'
 );
 
+-- ========================================
+-- Campaign Insight Dataset
+-- Columns read by lib/campaign-data.ts (azure_sql source)
+-- ========================================
+
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS industry VARCHAR(100);
+ALTER TABLE campaigns ADD COLUMN IF NOT EXISTS region VARCHAR(100);
+
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS format VARCHAR(20);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS dimensions VARCHAR(50);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS text_readability DECIMAL(4,3);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS visual_distinctness DECIMAL(4,3);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS color_harmony DECIMAL(4,3);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS emotional_trigger VARCHAR(50);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS brand_integration VARCHAR(50);
+ALTER TABLE creative_assets ADD COLUMN IF NOT EXISTS a_b_test_variant VARCHAR(50);
+
+CREATE TABLE IF NOT EXISTS performance_metrics (
+    metric_id VARCHAR(50) PRIMARY KEY,
+    campaign_id INTEGER REFERENCES campaigns(campaign_id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    roi DECIMAL(8,2) DEFAULT 0,
+    brand_recall DECIMAL(6,2) DEFAULT 0,
+    engagement_rate DECIMAL(6,2) DEFAULT 0,
+    reach BIGINT DEFAULT 0,
+    impressions BIGINT DEFAULT 0,
+    clicks INTEGER DEFAULT 0,
+    ctr DECIMAL(6,2) DEFAULT 0,
+    conversion_rate DECIMAL(6,2) DEFAULT 0,
+    cost_per_acquisition DECIMAL(10,2) DEFAULT 0,
+    sentiment_score DECIMAL(4,3) DEFAULT 0,
+    video_completion_rate DECIMAL(6,2) DEFAULT 0,
+    share_rate DECIMAL(6,2) DEFAULT 0,
+    save_rate DECIMAL(6,2) DEFAULT 0,
+    tenant_id VARCHAR(50) DEFAULT 'ces'
+);
+
+-- ========================================
+-- Campaign Events
+-- Event-level delivery data read by lib/metrics-query.ts. Columns match
+-- public.campaign_events in infra/supabase/migrations/20240102000000_enhanced_agent_system.sql
+-- so the same queries run on both; only tenant_id differs (a slug here, a
+-- tenants.id UUID there). campaign_metrics is not used for analytics: it
+-- holds cumulative snapshots without spend, platform or audience metadata
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS campaign_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id VARCHAR(50) DEFAULT 'ces',
+    campaign_id TEXT NOT NULL, -- the dataset's campaign_id, e.g. "CAMP001"
+    event_type TEXT NOT NULL, -- impression, click, conversion; other types are stored but not counted
+    platform TEXT NOT NULL, -- facebook, tiktok, google, etc.
+    "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL,
+    cost DECIMAL, -- spend attributed to the event
+    value DECIMAL, -- revenue attributed to the event
+    metadata JSONB DEFAULT '{}', -- audience, e.g. {"age_band": "25-34", "gender": "female", "device": "mobile", "region": "NCR"}
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- ========================================
+-- Calibrated Weight Sets
+-- businessImpact weights fitted by lib/calibration.ts
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS business_weight_sets (
+    id SERIAL PRIMARY KEY,
+    version VARCHAR(100) NOT NULL,
+    weights JSONB NOT NULL,
+    fit_statistics JSONB,
+    is_active BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    tenant_id VARCHAR(50) DEFAULT 'ces',
+    UNIQUE (tenant_id, version)
+);
+
+-- Tenant-defined business outcomes and creative features (tenant_id is the tenant slug)
+CREATE TABLE IF NOT EXISTS tenant_business_outcomes (
+    id SERIAL PRIMARY KEY,
+    tenant_id VARCHAR(50) NOT NULL DEFAULT 'ces',
+    outcome_id VARCHAR(100) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    metrics JSONB NOT NULL,
+    weight DECIMAL(6,3) NOT NULL,
+    target_value DECIMAL(8,2) NOT NULL,
+    threshold DECIMAL(8,2) NOT NULL,
+    category VARCHAR(50) NOT NULL,
+    feature_impacts JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tenant_id, outcome_id)
+);
+
+CREATE TABLE IF NOT EXISTS tenant_creative_features (
+    id SERIAL PRIMARY KEY,
+    tenant_id VARCHAR(50) NOT NULL DEFAULT 'ces',
+    feature_id VARCHAR(100) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    category VARCHAR(50) NOT NULL,
+    business_impact JSONB NOT NULL,
+    measurability VARCHAR(20) NOT NULL,
+    implementation JSONB NOT NULL,
+    testability VARCHAR(20) NOT NULL,
+    cost_to_implement VARCHAR(20) NOT NULL,
+    time_to_implement VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tenant_id, feature_id)
+);
+
 -- ========================================
 -- Indexes for Performance
 -- ========================================
@@ -100,6 +212,9 @@ CREATE INDEX IF NOT EXISTS idx_campaign_analytics_campaign_id ON campaign_analyt
 CREATE INDEX IF NOT EXISTS idx_creative_assets_campaign_id ON creative_assets(campaign_id);
 CREATE INDEX IF NOT EXISTS idx_campaign_performance_campaign_id ON campaign_performance(campaign_id);
 CREATE INDEX IF NOT EXISTS idx_campaign_channel_performance_campaign_id ON campaign_channel_performance(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_performance_metrics_campaign_id ON performance_metrics(campaign_id, date);
+CREATE INDEX IF NOT EXISTS idx_campaign_events_tenant_timestamp ON campaign_events(tenant_id, "timestamp" DESC);
+CREATE INDEX IF NOT EXISTS idx_campaign_events_campaign_timestamp ON campaign_events(campaign_id, "timestamp");
 
 -- ========================================
 -- Row Level Security (RLS)
@@ -111,6 +226,8 @@ ALTER TABLE campaign_analytics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE creative_assets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE campaign_performance ENABLE ROW LEVEL SECURITY;
 ALTER TABLE campaign_channel_performance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE performance_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaign_events ENABLE ROW LEVEL SECURITY;
 
 -- CES tenant isolation policy
 CREATE POLICY ces_tenant_isolation ON campaigns
@@ -131,6 +248,16 @@ CREATE POLICY ces_performance_isolation ON campaign_performance
 CREATE POLICY ces_channel_performance_isolation ON campaign_channel_performance
     FOR ALL USING (tenant_id = 'ces');
 
+CREATE POLICY ces_performance_metrics_isolation ON performance_metrics
+    FOR ALL USING (tenant_id = 'ces');
+
+CREATE POLICY ces_campaign_events_isolation ON campaign_events
+    FOR ALL USING (tenant_id = 'ces');
+
+-- business_weight_sets, tenant_business_outcomes and tenant_creative_features
+-- hold rows for every tenant, so they carry no RLS policy: the weight-set and
+-- business-registry stores filter each query by tenant_id instead
+
 -- ========================================
 -- Functions for Calculated Metrics
 -- ========================================
@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LLMRequestError, OpenAICompatibleProvider, withRetries } from '../llm';
+
+const retry = { maxRetries: 2, baseDelayMs: 1, timeoutMs: 50 };
+const messages = [{ role: 'user' as const, content: 'How did the campaign do?' }];
+
+const completion = () => new Response(JSON.stringify({
+  model: 'test-model',
+  choices: [{ message: { content: 'It did well' } }],
+  usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 }
+}), { status: 200, headers: { 'Content-Type': 'application/json' } });
+
+// A fetch that never responds and rejects when its request is aborted
+const hangingFetch = (_url: unknown, init?: RequestInit) => new Promise<Response>((_, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+});
+
+function stubFetch(implementation: (url: unknown, init?: RequestInit) => Promise<Response>) {
+  const fetchMock = vi.fn(implementation);
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const provider = () => new OpenAICompatibleProvider('http://llm.test/v1', 'test-model', undefined, retry);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('withRetries', () => {
+  it('retries retryable failures and stops on the first success', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new LLMRequestError('busy', 503))
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(withRetries(operation, retry)).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const operation = vi.fn().mockRejectedValue(new LLMRequestError('bad request', 400));
+    await expect(withRetries(operation, retry)).rejects.toThrow('bad request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const operation = vi.fn().mockRejectedValue(new LLMRequestError('busy', 503));
+    await expect(withRetries(operation, retry)).rejects.toThrow('busy');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry once the caller has aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(async () => {
+      controller.abort();
+      throw new Error('aborted mid-request');
+    });
+    await expect(withRetries(operation, retry, controller.signal)).rejects.toThrow('aborted mid-request');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ChatCompletionsProvider', () => {
+  it('retries a 503 and returns the completion', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = stubFetch(vi.fn()
+      .mockResolvedValueOnce(new Response('overloaded', { status: 503, statusText: 'Service Unavailable' }))
+      .mockResolvedValueOnce(completion()));
+
+    const response = await provider().generate(messages, { maxTokens: 100, temperature: 0 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(response).toMatchObject({ content: 'It did well', model: 'test-model', usage: { totalTokens: 8 } });
+  });
+
+  it('reports a timeout as a retryable LLMRequestError', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = stubFetch(hangingFetch);
+
+    const error = await provider().generate(messages, { maxTokens: 100, temperature: 0 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error.message).toBe('openai-compatible request timed out after 50ms');
+    expect(fetchMock).toHaveBeenCalledTimes(retry.maxRetries + 1);
+  });
+
+  it('rethrows a caller cancel without retrying', async () => {
+    const fetchMock = stubFetch(hangingFetch);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 5);
+
+    const error = await provider().generate(messages, { maxTokens: 100, temperature: 0, signal: controller.signal }).catch(e => e);
+
+    expect(error).not.toBeInstanceOf(LLMRequestError);
+    expect(error.name).toBe('AbortError');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not send a request for a signal that has already aborted', async () => {
+    const fetchMock = stubFetch(async () => completion());
+    const controller = new AbortController();
+    controller.abort();
+
+    const stream = provider().stream(messages, { maxTokens: 100, temperature: 0, signal: controller.signal });
+
+    await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,31 +1,39 @@
-// Mock business outcome engine for Ask CES v3.0.0
-export const businessEngine = {
-  calculateBusinessEffectiveness(
-    features: Record<string, number>,
-    context: Record<string, any> = {},
-    focusOutcome: string = 'conversion'
-  ) {
-    // Calculate total effectiveness score
-    const featureValues = Object.values(features);
-    const totalScore = featureValues.reduce((sum, value) => sum + value, 0) / featureValues.length;
-    
-    // Generate outcome breakdown
-    const outcomeBreakdown = {
-      conversion: totalScore * 0.3,
-      brand_recall: totalScore * 0.25,
-      engagement: totalScore * 0.2,
-      reach: totalScore * 0.15,
-      sentiment: totalScore * 0.1
-    };
-    
-    return {
-      totalScore: Math.round(totalScore * 10) / 10,
-      outcomeBreakdown,
-      recommendations: [
-        'Optimize visual hierarchy for better engagement',
-        'Strengthen value proposition clarity',
-        'Enhance behavioral targeting precision'
-      ]
-    };
-  }
-};
\ No newline at end of file
+/**
+ * Ask CES compatibility adapter for the business outcome engine
+ * Scores come from the shared engine in lib/business-outcome-engine.ts;
+ * this keeps the businessScore shape Ask CES clients already consume.
+ */
+
+import {
+  businessEngine,
+  type BusinessOutcomeEngine,
+  type BusinessEffectivenessResult,
+  type ObjectiveInput
+} from '../lib/business-outcome-engine';
+
+export interface AskCESBusinessScore {
+  totalScore: number;
+  topOutcome: [string, number];
+  recommendations: string[];
+  engineVersion: string;
+}
+
+export function toAskCESBusinessScore(result: BusinessEffectivenessResult): AskCESBusinessScore {
+  const topOutcome = Object.entries(result.outcomeBreakdown)
+    .sort(([,a], [,b]) => b - a)[0] ?? ['none', 0];
+
+  return {
+    totalScore: result.totalScore,
+    topOutcome: topOutcome as [string, number],
+    recommendations: result.businessRecommendations,
+    engineVersion: result.engineVersion
+  };
+}
+
+export function calculateAskCESBusinessScore(
+  featureScores: Record<string, number>,
+  objective: ObjectiveInput = 'conversion',
+  engine: BusinessOutcomeEngine = businessEngine
+): AskCESBusinessScore {
+  return toAskCESBusinessScore(engine.calculateBusinessEffectiveness(featureScores, {}, objective));
+}
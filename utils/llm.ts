@@ -1,70 +1,375 @@
-interface Message {
+import { loadAskCESConfig } from '../lib/config';
+import { readSSEStream } from './sse';
+
+export interface Message {
   role: 'system' | 'user' | 'assistant';
   content: string;
 }
 
-interface LLMOptions {
+export interface LLMOptions {
   maxTokens?: number;
   temperature?: number;
   stream?: boolean;
 }
 
-export class LLMUtils {
-  static async generateResponse(
-    messages: Message[],
-    options: LLMOptions = {}
-  ): Promise<{ content: string }> {
-    // Mock implementation for local development
-    // In production, this would call Azure OpenAI
-    
-    const { maxTokens = 1000, temperature = 0.7 } = options;
-    
-    // For now, return a mock response
-    // This will be replaced with actual Azure OpenAI call
-    const lastMessage = messages[messages.length - 1];
-    
-    // Simple mock response based on the query
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  usage: LLMUsage;
+  model: string;
+  provider: string;
+}
+
+export type LLMStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'done'; usage: LLMUsage; model: string; provider: string };
+
+interface GenerationOptions {
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(messages: Message[], options: GenerationOptions): Promise<LLMResponse>;
+  stream(messages: Message[], options: GenerationOptions): AsyncGenerator<LLMStreamEvent>;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+}
+
+export class LLMRequestError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+const DEFAULT_RETRY: RetryOptions = { maxRetries: 3, baseDelayMs: 500, timeoutMs: 30000 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retry transient failures (network errors, 408, 429, 5xx) with exponential backoff and jitter.
+ * Nothing is retried once the caller's signal has aborted
+ */
+export async function withRetries<T>(operation: () => Promise<T>, retry: RetryOptions, signal?: AbortSignal): Promise<T> {
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      return await operation();
+    } catch (error) {
+      const retryable = !(error instanceof LLMRequestError) || error.retryable;
+      if (!retryable || signal?.aborted || attempt >= retry.maxRetries) {
+        throw error;
+      }
+
+      const backoff = retry.baseDelayMs * Math.pow(2, attempt) * (0.5 + Math.random() / 2);
+      const delay = error instanceof LLMRequestError && error.retryAfterMs ? error.retryAfterMs : backoff;
+      console.warn(`LLM request failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms:`, (error as Error).message);
+      await sleep(delay);
+      attempt++;
+    }
+  }
+}
+
+/**
+ * Shared client for the /chat/completions wire format used by Azure OpenAI
+ * and OpenAI-compatible servers (llama.cpp, Ollama, vLLM)
+ */
+abstract class ChatCompletionsProvider implements LLMProvider {
+  abstract readonly name: string;
+
+  constructor(protected readonly model: string, protected readonly retry: RetryOptions) {}
+
+  protected abstract endpoint(): string;
+  protected abstract headers(): Record<string, string>;
+
+  protected body(messages: Message[], options: GenerationOptions, stream: boolean) {
+    return {
+      model: this.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {})
+    };
+  }
+
+  protected async post(messages: Message[], options: GenerationOptions, stream: boolean): Promise<Response> {
+    options.signal?.throwIfAborted();
+    const controller = new AbortController();
+    // The timeout covers the wait for response headers; streamed bodies may take longer
+    const timer = setTimeout(() => controller.abort(), this.retry.timeoutMs);
+    const forwardAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', forwardAbort);
+
+    try {
+      const response = await fetch(this.endpoint(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers() },
+        body: JSON.stringify(this.body(messages, options, stream)),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+        const detail = await response.text().catch(() => '');
+        throw new LLMRequestError(
+          `${this.name} request failed: ${response.status} ${response.statusText} ${detail}`.trim(),
+          response.status,
+          Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined
+        );
+      }
+      return response;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        throw new LLMRequestError(`${this.name} request timed out after ${this.retry.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      if (!stream) {
+        options.signal?.removeEventListener('abort', forwardAbort);
+      }
+    }
+  }
+
+  async generate(messages: Message[], options: GenerationOptions): Promise<LLMResponse> {
+    const data = await withRetries(async () => {
+      const response = await this.post(messages, options, false);
+      return response.json();
+    }, this.retry, options.signal);
+
+    return {
+      content: data.choices?.[0]?.message?.content || 'No response generated',
+      usage: {
+        promptTokens: data.usage?.prompt_tokens ?? 0,
+        completionTokens: data.usage?.completion_tokens ?? 0,
+        totalTokens: data.usage?.total_tokens ?? 0
+      },
+      model: data.model || this.model,
+      provider: this.name
+    };
+  }
+
+  async *stream(messages: Message[], options: GenerationOptions): AsyncGenerator<LLMStreamEvent> {
+    // Only the connection is retried; once tokens flow a failure ends the stream
+    const response = await withRetries(() => this.post(messages, options, true), this.retry, options.signal);
+    if (!response.body) {
+      throw new LLMRequestError(`${this.name} returned an empty stream`);
+    }
+
+    let usage: LLMUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    let model = this.model;
+
+    for await (const { data } of readSSEStream(response.body)) {
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens ?? 0,
+          completionTokens: chunk.usage.completion_tokens ?? 0,
+          totalTokens: chunk.usage.total_tokens ?? 0
+        };
+      }
+
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield { type: 'token', content };
+      }
+    }
+
+    yield { type: 'done', usage, model, provider: this.name };
+  }
+}
+
+export class AzureOpenAIProvider extends ChatCompletionsProvider {
+  readonly name = 'azure-openai';
+
+  constructor(
+    private readonly endpointUrl: string,
+    private readonly apiKey: string,
+    private readonly deployment: string,
+    private readonly apiVersion: string,
+    retry: RetryOptions
+  ) {
+    super(deployment, retry);
+  }
+
+  protected endpoint(): string {
+    return `${this.endpointUrl.replace(/\/$/, '')}/openai/deployments/${this.deployment}/chat/completions?api-version=${this.apiVersion}`;
+  }
+
+  protected headers(): Record<string, string> {
+    return { 'api-key': this.apiKey };
+  }
+}
+
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(private readonly baseUrl: string, model: string, private readonly apiKey: string | undefined, retry: RetryOptions) {
+    super(model, retry);
+  }
+
+  protected endpoint(): string {
+    return `${this.baseUrl.replace(/\/$/, '')}/chat/completions`;
+  }
+
+  protected headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+}
+
+/**
+ * Deterministic keyword-matched responses for local development and tests
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  static respond(query: string): string {
+    const lower = query.toLowerCase();
     let response = "I'm Ask CES, your AI assistant for campaign effectiveness analysis. ";
-    
-    if (lastMessage.content.toLowerCase().includes('roi')) {
+
+    if (lower.includes('roi')) {
       response += "Based on the campaign data, I can see that ROI performance varies significantly across different campaigns. The top performers typically show ROI values above 5.0, with strong correlation to engagement rates and brand recall metrics.";
-    } else if (lastMessage.content.toLowerCase().includes('campaign')) {
+    } else if (lower.includes('campaign')) {
       response += "Looking at the campaign analytics, I notice several key trends in performance metrics. Engagement rates average around 7.2%, while conversion rates typically range from 2-8% depending on the campaign strategy and creative approach.";
-    } else if (lastMessage.content.toLowerCase().includes('creative')) {
+    } else if (lower.includes('creative')) {
       response += "Creative performance analysis shows that visual elements with high brand integration tend to perform better. Color harmony and visual distinctness are key factors in driving engagement and memorability.";
     } else {
       response += "I can help you analyze campaign effectiveness across multiple dimensions including ROI, engagement, brand recall, and creative performance. What specific aspect would you like me to focus on?";
     }
-    
-    return { content: response };
+
+    return response;
   }
-}
 
-// Note: In production, replace this with actual Azure OpenAI integration
-// Example implementation:
-/*
-import { OpenAIApi, Configuration } from 'openai';
+  async generate(messages: Message[], options: GenerationOptions): Promise<LLMResponse> {
+    const lastMessage = messages[messages.length - 1];
+    const words = MockLLMProvider.respond(lastMessage?.content || '').split(' ');
 
-const configuration = new Configuration({
-  apiKey: process.env.AZURE_OPENAI_API_KEY,
-  basePath: process.env.AZURE_OPENAI_ENDPOINT,
-});
+    // Roughly 1 token per word keeps maxTokens meaningful without a tokenizer
+    const content = words.slice(0, options.maxTokens).join(' ');
+    const promptTokens = messages.reduce((sum, m) => sum + m.content.split(/\s+/).length, 0);
+    const completionTokens = Math.min(words.length, options.maxTokens);
 
-const openai = new OpenAIApi(configuration);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      model: 'mock',
+      provider: this.name
+    };
+  }
+
+  async *stream(messages: Message[], options: GenerationOptions): AsyncGenerator<LLMStreamEvent> {
+    const result = await this.generate(messages, options);
+    const words = result.content.split(' ');
+
+    for (let i = 0; i < words.length; i++) {
+      if (options.signal?.aborted) return;
+      yield { type: 'token', content: (i === 0 ? '' : ' ') + words[i] };
+      await sleep(15);
+    }
+    yield { type: 'done', usage: result.usage, model: result.model, provider: this.name };
+  }
+}
+
+/**
+ * Build the provider named by LLM_PROVIDER or the llm block of config/ask-ces.yaml
+ */
+export function createLLMProvider(llmConfig: Record<string, any> = loadAskCESConfig().llm): LLMProvider {
+  const provider = process.env.LLM_PROVIDER || llmConfig.provider || 'mock';
+  const retry: RetryOptions = {
+    maxRetries: llmConfig.max_retries ?? DEFAULT_RETRY.maxRetries,
+    baseDelayMs: llmConfig.retry_base_delay_ms ?? DEFAULT_RETRY.baseDelayMs,
+    timeoutMs: llmConfig.timeout_ms ?? DEFAULT_RETRY.timeoutMs
+  };
+
+  switch (provider) {
+    case 'azure-openai': {
+      const endpoint = llmConfig.endpoint || process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      if (!endpoint || !apiKey) {
+        console.warn('Azure OpenAI is not configured (AZURE_OPENAI_ENDPOINT / AZURE_OPENAI_API_KEY); using mock LLM provider');
+        return new MockLLMProvider();
+      }
+      return new AzureOpenAIProvider(
+        endpoint,
+        apiKey,
+        process.env.AZURE_OPENAI_DEPLOYMENT_NAME || llmConfig.deployment_name || llmConfig.model,
+        llmConfig.api_version || '2024-06-01',
+        retry
+      );
+    }
+    case 'openai-compatible': {
+      const compatible = llmConfig.openai_compatible || {};
+      return new OpenAICompatibleProvider(
+        process.env.LLM_BASE_URL || compatible.base_url || 'http://localhost:11434/v1',
+        process.env.LLM_MODEL || compatible.model || llmConfig.model,
+        process.env.LLM_API_KEY || compatible.api_key || undefined,
+        retry
+      );
+    }
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
 
 export class LLMUtils {
-  static async generateResponse(messages: Message[], options: LLMOptions = {}) {
-    const response = await openai.createChatCompletion({
-      model: process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-4o',
-      messages,
-      max_tokens: options.maxTokens || 1000,
-      temperature: options.temperature || 0.7,
-      stream: options.stream || false,
-    });
+  private static provider: LLMProvider | null = null;
 
-    return {
-      content: response.data.choices[0]?.message?.content || 'No response generated'
-    };
+  static getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createLLMProvider();
+    }
+    return this.provider;
+  }
+
+  /**
+   * Override the configured provider, e.g. with MockLLMProvider in tests
+   */
+  static setProvider(provider: LLMProvider | null): void {
+    this.provider = provider;
+  }
+
+  static async generateResponse(
+    messages: Message[],
+    options: LLMOptions = {}
+  ): Promise<LLMResponse> {
+    const { maxTokens = 1000, temperature = 0.7 } = options;
+    return this.getProvider().generate(messages, { maxTokens, temperature });
+  }
+
+  /**
+   * Yield tokens as they arrive, followed by a final `done` event with usage
+   */
+  static streamResponse(
+    messages: Message[],
+    options: LLMOptions & { signal?: AbortSignal } = {}
+  ): AsyncGenerator<LLMStreamEvent> {
+    const { maxTokens = 1000, temperature = 0.7, signal } = options;
+    return this.getProvider().stream(messages, { maxTokens, temperature, signal });
   }
 }
-*/
\ No newline at end of file